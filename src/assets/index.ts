@@ -35,6 +35,8 @@ useExtensions(CS.UnityEngine.ImageConversion)
 
 declare global {
     var __workingDir: string | undefined
+    // Set by the bundle when copyAssetsPlugin embeds the manifest
+    var __onejsAssetManifest: AssetManifest | undefined
 }
 
 // Manifest is loaded once and cached
@@ -46,10 +48,25 @@ interface NamespaceInfo {
     path: string
 }
 
+/**
+ * An asset file in the manifest's index (copyAssetsPlugin's `index` option)
+ */
+export interface AssetInfo {
+    /** Size in bytes */
+    size: number
+    /** MD5 of the content, hex */
+    hash: string
+    /** Image width in pixels (PNG, JPEG and GIF only) */
+    width?: number
+    /** Image height in pixels (PNG, JPEG and GIF only) */
+    height?: number
+}
+
 interface AssetManifest {
     namespaces: Record<string, NamespaceInfo>
     userAssetsPath: string
     destPath: string
+    files?: Record<string, AssetInfo>
 }
 
 /**
@@ -97,10 +114,17 @@ function getWorkingDir(): string {
 
 /**
  * Load the asset manifest (generated by copyAssetsPlugin)
+ *
+ * An embedded manifest is used as-is, so builds never read it from disk.
  */
 function loadManifest(): AssetManifest {
     if (manifestCache) return manifestCache
 
+    if (globalThis.__onejsAssetManifest) {
+        manifestCache = globalThis.__onejsAssetManifest
+        return manifestCache
+    }
+
     const workingDir = getWorkingDir()
     const manifestPath = CS.System.IO.Path.Combine(workingDir, ".onejs", "assets-manifest.json")
 
@@ -371,21 +395,53 @@ export function loadBytes(assetPath: string): Uint8Array {
     return result
 }
 
+/**
+ * The manifest's index entry for a relative asset path, or undefined when the
+ * path isn't in it. Null when there is no index (or the path is absolute or
+ * a URL), so the caller must look elsewhere.
+ */
+function indexedAsset(assetPath: string): AssetInfo | undefined | null {
+    if (isUrlPath(assetPath) || CS.System.IO.Path.IsPathRooted(assetPath)) return null
+    const files = loadManifest().files
+    if (!files) return null
+    const key = assetPath.replace(/\\/g, "/").replace(/^(\.\/)+/, "")
+    return Object.prototype.hasOwnProperty.call(files, key) ? files[key] : undefined
+}
+
 /**
  * Check if an asset exists
  *
- * Note: on platforms where StreamingAssets is a URL (Android APK, WebGL) this
- * always returns false: existence can't be checked synchronously there.
+ * Answered from the manifest's file index when copyAssetsPlugin wrote one,
+ * which works on every platform. Without an index, on platforms where
+ * StreamingAssets is a URL (Android APK, WebGL) this always returns false:
+ * existence can't be checked synchronously there.
  *
  * @param assetPath: Relative path to check
  * @returns true if asset exists
  */
 export function assetExists(assetPath: string): boolean {
+    const indexed = indexedAsset(assetPath)
+    if (indexed !== null) return indexed !== undefined
+
     const fullPath = resolveAssetPath(assetPath)
     if (isUrlPath(fullPath)) return false
     return CS.System.IO.File.Exists(fullPath)
 }
 
+/**
+ * Get an asset's size, content hash and image dimensions from the manifest's
+ * file index (copyAssetsPlugin's `index` option), without touching disk.
+ *
+ * The hash changes with the content, so it makes a cache key or a URL
+ * version parameter.
+ *
+ * @param assetPath: Relative path
+ * @returns The asset's info, or null when it isn't indexed
+ */
+export function getAssetInfo(assetPath: string): AssetInfo | null {
+    return indexedAsset(assetPath) ?? null
+}
+
 /**
  * Get the resolved full path for an asset (for debugging or custom loading)
  *
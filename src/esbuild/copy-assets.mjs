@@ -13,11 +13,36 @@
  *   my-package/assets/@my-package/images/bg.png
  *
  * During Unity build, assets are copied FLAT to StreamingAssets/onejs/assets/@my-package/images/bg.png
+ *
+ * Packages are found in nested node_modules and pnpm's .pnpm store too. Your
+ * own assets/@namespace overrides any package providing it, but two packages
+ * providing one namespace (or two versions of one) fail the build naming
+ * both, unless the `namespaces` option picks one:
+ *
+ *   copyAssetsPlugin({ namespaces: { "@ui": "ui-kit@2.1.0", "@icons": "icon-pack" } })
+ *
+ * With `index: true` the manifest also lists every asset file under the path
+ * the runtime loads it by ("images/logo.png", "@my-package/images/bg.png"):
+ *
+ *   "files": {
+ *     "images/logo.png": { "size": 5120, "hash": "9e107d9d372bb6826bd81d3542a419d6", "width": 256, "height": 128 }
+ *   }
+ *
+ * The hash is the MD5 of the content; width and height are read from PNG,
+ * JPEG and GIF headers. The manifest is embedded in the bundle too (unless
+ * `embed: false`), so assetExists and getAssetInfo in onejs-unity/assets
+ * answer from it without touching disk, including on Android and WebGL where
+ * StreamingAssets is a URL. The embedded module watches the asset folders, so
+ * adding, removing or editing an asset rebuilds in watch mode.
  */
 
+import crypto from "node:crypto"
 import { getFs } from "../fs-provider.mjs"
 import path from "node:path"
 
+// The virtual module that embeds the manifest (see the embed option)
+const EMBED_MODULE = "onejs:assets-manifest"
+
 /**
  * Check if entry is a directory or symlink to directory
  */
@@ -38,42 +63,116 @@ function isDirectoryEntry(entry, parentPath) {
 /**
  * Find all packages with assets/@namespace/ folders
  * No package.json configuration needed: just the folder convention
+ *
+ * Walks nested node_modules (dependencies npm couldn't hoist) and pnpm's
+ * .pnpm store. A package reached twice, as through pnpm's symlinks, is
+ * scanned once; two versions of it are both scanned.
  */
-function findPackageAssetNamespaces(nodeModulesPath) {
+async function findPackageAssetNamespaces(nodeModulesPath, workingDir) {
     const results = []
+    await scanNodeModules(nodeModulesPath, workingDir, results, new Set())
+    return results
+}
 
-    if (!getFs().existsSync(nodeModulesPath)) return results
+/**
+ * Scan the packages in a node_modules folder, scoped ones included, then
+ * their nested node_modules: shallower packages come first
+ */
+async function scanNodeModules(nodeModulesPath, workingDir, results, seen) {
+    if (!getFs().existsSync(nodeModulesPath)) return
+    const scanned = []
 
     const entries = getFs().readdirSync(nodeModulesPath, { withFileTypes: true })
+        .filter((entry) => isDirectoryEntry(entry, nodeModulesPath))
+        .sort((a, b) => a.name.localeCompare(b.name))
 
     for (const entry of entries) {
-        if (!isDirectoryEntry(entry, nodeModulesPath)) continue
-
         const entryPath = path.join(nodeModulesPath, entry.name)
 
+        // .bin, .cache, ... and the pnpm store, scanned last below
+        if (entry.name.startsWith(".")) continue
+
         // Handle scoped packages (@scope/name)
         if (entry.name.startsWith("@")) {
             const scopedEntries = getFs().readdirSync(entryPath, { withFileTypes: true })
+                .sort((a, b) => a.name.localeCompare(b.name))
             for (const scopedEntry of scopedEntries) {
                 if (!isDirectoryEntry(scopedEntry, entryPath)) continue
 
                 const pkgPath = path.join(entryPath, scopedEntry.name)
                 const pkgName = `${entry.name}/${scopedEntry.name}`
-                scanPackageAssets(pkgPath, pkgName, results)
+                if (await scanPackage(pkgPath, pkgName, workingDir, results, seen)) scanned.push(pkgPath)
             }
         } else {
             // Non-scoped package
-            scanPackageAssets(entryPath, entry.name, results)
+            if (await scanPackage(entryPath, entry.name, workingDir, results, seen)) scanned.push(entryPath)
         }
     }
 
-    return results
+    // pnpm: node_modules/.pnpm/<name>@<version>/node_modules/<name> holds the
+    // package itself, next to symlinks to its dependencies
+    const storePath = path.join(nodeModulesPath, ".pnpm")
+    if (entries.some((entry) => entry.name === ".pnpm")) {
+        const storeEntries = getFs().readdirSync(storePath, { withFileTypes: true })
+            .sort((a, b) => a.name.localeCompare(b.name))
+        for (const entry of storeEntries) {
+            const pkgName = pnpmPackageName(entry.name)
+            if (!pkgName || !isDirectoryEntry(entry, storePath)) continue
+
+            const pkgPath = path.join(storePath, entry.name, "node_modules", pkgName)
+            if (getFs().existsSync(pkgPath)) {
+                await scanPackage(pkgPath, pkgName, workingDir, results, seen)
+            }
+        }
+    }
+
+    // Dependencies npm couldn't hoist
+    for (const pkgPath of scanned) {
+        await scanNodeModules(path.join(pkgPath, "node_modules"), workingDir, results, seen)
+    }
+}
+
+/**
+ * The package name of a pnpm store entry: "@scope+name@1.0.0_peer@2" -> "@scope/name"
+ */
+function pnpmPackageName(entryName) {
+    const versionAt = entryName.indexOf("@", 1)
+    if (versionAt === -1) return null
+    return entryName.slice(0, versionAt).replace("+", "/")
+}
+
+/**
+ * Scan a package once per name and version. Returns false when it was
+ * already scanned.
+ */
+async function scanPackage(pkgPath, pkgName, workingDir, results, seen) {
+    const version = await readPackageVersion(pkgPath)
+    const key = version ? `${pkgName}@${version}` : pkgPath
+    if (seen.has(key)) return false
+    seen.add(key)
+
+    scanPackageAssets(pkgPath, pkgName, version, workingDir, results)
+    return true
+}
+
+/**
+ * The version in a package's package.json, or null without one
+ */
+async function readPackageVersion(pkgPath) {
+    const manifestPath = path.join(pkgPath, "package.json")
+    if (!getFs().existsSync(manifestPath)) return null
+    try {
+        const { version } = JSON.parse(await getFs().promises.readFile(manifestPath, "utf8"))
+        return typeof version === "string" ? version : null
+    } catch {
+        return null
+    }
 }
 
 /**
  * Scan a package for assets/@namespace/ folders
  */
-function scanPackageAssets(pkgPath, pkgName, results) {
+function scanPackageAssets(pkgPath, pkgName, version, workingDir, results) {
     const assetsPath = path.join(pkgPath, "assets")
     if (!getFs().existsSync(assetsPath)) return
 
@@ -82,7 +181,9 @@ function scanPackageAssets(pkgPath, pkgName, results) {
         results.push({
             namespace: ns,
             package: pkgName,
-            path: path.join("node_modules", pkgName, "assets", ns),
+            version,
+            path: path.relative(workingDir, path.join(assetsPath, ns)),
+            location: path.relative(workingDir, pkgPath),
         })
     }
 }
@@ -106,23 +207,228 @@ function findAssetNamespaces(assetsPath) {
     return namespaces
 }
 
+/**
+ * Index the files under `dir` into `files`, keyed by `prefix` + their
+ * forward-slash relative path, adding what it reads to `watch.dirs` and
+ * `watch.files`. Dotfiles and Unity .meta files are skipped, and with
+ * `skipNamespaces` the @namespace folders directly under `dir`.
+ */
+async function indexFiles(dir, prefix, files, watch, skipNamespaces = false) {
+    watch.dirs.push(dir)
+    const entries = getFs().readdirSync(dir, { withFileTypes: true })
+        .sort((a, b) => a.name.localeCompare(b.name))
+    for (const entry of entries) {
+        if (entry.name.startsWith(".") || entry.name.endsWith(".meta")) continue
+        if (skipNamespaces && entry.name.startsWith("@")) continue
+        const fullPath = path.join(dir, entry.name)
+        const key = prefix + entry.name
+
+        if (isDirectoryEntry(entry, dir)) {
+            await indexFiles(fullPath, key + "/", files, watch)
+            continue
+        }
+
+        watch.files.push(fullPath)
+        const content = await getFs().promises.readFile(fullPath)
+        const info = {
+            size: content.length,
+            hash: crypto.createHash("md5").update(content).digest("hex"),
+        }
+        const dimensions = imageSize(content)
+        if (dimensions) Object.assign(info, dimensions)
+        files[key] = info
+    }
+}
+
+/**
+ * Width and height from a PNG, GIF or JPEG header, or null for other files
+ */
+function imageSize(bytes) {
+    // PNG: IHDR is the first chunk, width and height big-endian at 16 and 20
+    if (bytes.length >= 24 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.toString("ascii", 12, 16) === "IHDR") {
+        return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) }
+    }
+
+    // GIF: logical screen size, little-endian at 6 and 8
+    if (bytes.length >= 10 && bytes.toString("ascii", 0, 4) === "GIF8") {
+        return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) }
+    }
+
+    // JPEG: walk the segments to the first start-of-frame marker
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        let offset = 2
+        while (offset + 9 < bytes.length) {
+            if (bytes[offset] !== 0xff) return null
+            const marker = bytes[offset + 1]
+            // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+            if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+                return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) }
+            }
+            offset += 2 + bytes.readUInt16BE(offset + 2)
+        }
+    }
+
+    return null
+}
+
+/**
+ * How a namespace provider reads in messages: "rainbow@1.2.0 (node_modules/rainbow)"
+ */
+function describeProvider(provider) {
+    const where = (provider.location ?? provider.path).split(path.sep).join("/")
+    if (provider.type === "user") return `your assets (${where})`
+    const name = provider.version ? `${provider.package}@${provider.version}` : provider.package
+    return `${name} (${where})`
+}
+
+/**
+ * Pick the provider of each namespace. User assets win over packages unless
+ * `pins` says otherwise ("user", "package" or "package@version"). A namespace
+ * more than one package provides needs a pin; without one it's reported as a
+ * collision, and the first (top-level packages before nested ones) wins.
+ */
+function resolveNamespaces(providers, pins, collisions, problems) {
+    const byNamespace = new Map()
+    for (const provider of providers) {
+        if (!byNamespace.has(provider.namespace)) byNamespace.set(provider.namespace, [])
+        byNamespace.get(provider.namespace).push(provider)
+    }
+
+    const winners = new Map()
+    for (const [namespace, candidates] of byNamespace) {
+        const pin = pins[namespace]
+        if (pin === undefined) {
+            if (candidates.length > 1 && candidates[0].type !== "user") {
+                const names = candidates.map(describeProvider)
+                const [first] = candidates
+                const versions = candidates.filter((candidate) => candidate.package === first.package).length
+                const example = versions > 1 ? `${first.package}@${first.version}` : first.package
+                problems[collisions === "warn" ? "warnings" : "errors"].push({
+                    text: `Asset namespace "${namespace}" is provided by ${names.slice(0, -1).join(", ")} and ${names.at(-1)}. ` +
+                        `Pick one with the namespaces option, e.g. namespaces: { "${namespace}": "${example}" }`,
+                })
+            }
+            winners.set(namespace, candidates[0])
+            continue
+        }
+
+        const matches = candidates.filter((candidate) => candidate.type === "user"
+            ? pin === "user"
+            : pin === candidate.package || pin === `${candidate.package}@${candidate.version}`)
+        if (matches.length === 1) {
+            winners.set(namespace, matches[0])
+        } else if (matches.length === 0) {
+            problems.errors.push({
+                text: `The namespaces option picks "${pin}" for "${namespace}", which is provided by ${candidates.map(describeProvider).join(", ")}`,
+            })
+        } else {
+            problems.errors.push({
+                text: `The namespaces option picks "${pin}" for "${namespace}", which matches ${matches.map(describeProvider).join(" and ")}. Add the version: "${pin}@${matches[0].version}"`,
+            })
+        }
+    }
+
+    for (const [namespace, pin] of Object.entries(pins)) {
+        if (!byNamespace.has(namespace)) {
+            problems.errors.push({ text: `The namespaces option picks "${pin}" for "${namespace}", but nothing provides "${namespace}"` })
+        }
+    }
+    return winners
+}
+
+/**
+ * Build the manifest: asset namespaces and, with `index`, every asset file.
+ * Returns it with the namespace problems, as esbuild errors and warnings,
+ * and the asset folders and files it depends on, as watchDirs and watchFiles.
+ */
+async function buildManifest(workingDir, { dest, userAssets, index, namespaces, collisions }) {
+    const nodeModulesPath = path.resolve(workingDir, "node_modules")
+    const userAssetsPath = path.resolve(workingDir, userAssets)
+    const problems = { errors: [], warnings: [] }
+    const watch = { dirs: [], files: [] }
+
+    const manifest = {
+        // Maps @namespace to source path (for Editor resolution)
+        namespaces: {},
+        // User assets base path
+        userAssetsPath: userAssets,
+        // Build destination (used by Unity build processor)
+        destPath: dest,
+    }
+
+    // 1. Scan user assets for @-namespaces
+    const providers = []
+    if (getFs().existsSync(userAssetsPath)) {
+        const userNamespaces = findAssetNamespaces(userAssetsPath)
+        for (const ns of userNamespaces) {
+            providers.push({ namespace: ns, type: "user", path: path.join(userAssets, ns) })
+        }
+    }
+
+    // 2. Scan npm packages for assets/@namespace/ folders
+    const pkgNamespaces = await findPackageAssetNamespaces(nodeModulesPath, workingDir)
+    for (const item of pkgNamespaces) {
+        providers.push({ ...item, type: "package" })
+    }
+
+    // 3. One provider per namespace
+    for (const [ns, provider] of resolveNamespaces(providers, namespaces, collisions, problems)) {
+        manifest.namespaces[ns] = provider.type === "user"
+            ? { type: "user", path: provider.path }
+            : {
+                type: "package",
+                package: provider.package,
+                ...(provider.version && { version: provider.version }),
+                path: provider.path,
+            }
+    }
+
+    // 4. Index files under the paths the runtime loads them by, each
+    // namespace from the provider that won it
+    if (index) {
+        manifest.files = {}
+        if (getFs().existsSync(userAssetsPath)) {
+            await indexFiles(userAssetsPath, "", manifest.files, watch, true)
+        }
+        for (const [ns, info] of Object.entries(manifest.namespaces)) {
+            await indexFiles(path.resolve(workingDir, info.path), ns + "/", manifest.files, watch)
+        }
+    } else {
+        // Only the namespace folders end up in the manifest
+        if (getFs().existsSync(userAssetsPath)) watch.dirs.push(userAssetsPath)
+        for (const info of Object.values(manifest.namespaces)) {
+            watch.dirs.push(path.resolve(workingDir, info.path))
+        }
+    }
+
+    return { manifest, ...problems, watchDirs: watch.dirs, watchFiles: watch.files }
+}
+
 /**
  * Creates the esbuild plugin for generating asset manifest
  *
  * By default, only generates a manifest file. Asset copying is handled by Unity's
  * build processor to keep StreamingAssets clean during development.
  *
- * @param {Object} options: Plugin options
- * @param {string} options.dest: Destination folder for manifest reference (default: "Assets/StreamingAssets/onejs/assets")
- * @param {string} options.userAssets: User assets folder (default: "assets")
- * @param {string} options.manifestPath: Manifest file path (default: ".onejs/assets-manifest.json")
- * @param {boolean} options.verbose: Log details (default: false)
+ * @param {Object} [options]: Plugin options
+ * @param {string} [options.dest]: Destination folder for manifest reference (default: "Assets/StreamingAssets/onejs/assets")
+ * @param {string} [options.userAssets]: User assets folder (default: "assets")
+ * @param {string} [options.manifestPath]: Manifest file path (default: ".onejs/assets-manifest.json")
+ * @param {boolean} [options.index]: List every asset file with its size, hash and image dimensions (default: false)
+ * @param {boolean} [options.embed]: Embed the manifest in the bundle for the runtime (default: same as index)
+ * @param {Object<string, string>} [options.namespaces]: Which provider wins a namespace: "user", a package name or "name@version" (`{ "@ui": "ui-kit" }`)
+ * @param {"error"|"warn"} [options.collisions]: How to report a namespace more than one package provides (default: "error"; your own assets always win silently)
+ * @param {boolean} [options.verbose]: Log details (default: false)
  */
 export function copyAssetsPlugin(options = {}) {
     const {
         dest = "Assets/StreamingAssets/onejs/assets",
         userAssets = "assets",
         manifestPath = ".onejs/assets-manifest.json",
+        index = false,
+        embed = index,
+        namespaces = {},
+        collisions = "error",
         verbose = false,
     } = options
 
@@ -130,53 +436,51 @@ export function copyAssetsPlugin(options = {}) {
         name: "copy-assets",
 
         setup(build) {
-            // Run after build completes
-            build.onEnd(async (result) => {
-                if (result.errors.length > 0) return
-
-                const workingDir = process.cwd()
-                const nodeModulesPath = path.resolve(workingDir, "node_modules")
-                const userAssetsPath = path.resolve(workingDir, userAssets)
-                const manifestFullPath = path.resolve(workingDir, manifestPath)
+            const workingDir = build.initialOptions.absWorkingDir || process.cwd()
+            // Built once per build, for the embedded module and the manifest file
+            let manifestPromise = null
 
-                const manifest = {
-                    // Maps @namespace to source path (for Editor resolution)
-                    namespaces: {},
-                    // User assets base path
-                    userAssetsPath: userAssets,
-                    // Build destination (used by Unity build processor)
-                    destPath: dest,
-                }
+            // Namespace collisions fail the build before anything is bundled
+            build.onStart(async () => {
+                manifestPromise = buildManifest(workingDir, { dest, userAssets, index, namespaces, collisions })
+                const { errors, warnings } = await manifestPromise
+                return { errors, warnings }
+            })
 
-                // 1. Scan user assets for @-namespaces
-                if (getFs().existsSync(userAssetsPath)) {
-                    const userNamespaces = findAssetNamespaces(userAssetsPath)
-                    for (const ns of userNamespaces) {
-                        manifest.namespaces[ns] = {
-                            type: "user",
-                            path: path.join(userAssets, ns),
-                        }
-                    }
-                }
+            // Embed the manifest: every bundle gets a module that sets it as a global
+            if (embed) {
+                build.initialOptions.inject = [...(build.initialOptions.inject ?? []), EMBED_MODULE]
 
-                // 2. Scan npm packages for assets/@namespace/ folders
-                const pkgNamespaces = findPackageAssetNamespaces(nodeModulesPath)
+                build.onResolve({ filter: /^onejs:assets-manifest$/ }, () => ({
+                    path: EMBED_MODULE,
+                    namespace: "onejs-assets-manifest",
+                }))
 
-                for (const item of pkgNamespaces) {
-                    manifest.namespaces[item.namespace] = {
-                        type: "package",
-                        package: item.package,
-                        path: item.path,
+                build.onLoad({ filter: /.*/, namespace: "onejs-assets-manifest" }, async () => {
+                    const { manifest, watchDirs, watchFiles } = await manifestPromise
+                    return {
+                        contents: `globalThis.__onejsAssetManifest = ${JSON.stringify(manifest)}`,
+                        loader: "js",
+                        // The runtime trusts the embedded index, so asset changes must rebuild it in watch mode
+                        watchDirs,
+                        watchFiles,
                     }
-                }
+                })
+            }
 
-                // 3. Write manifest file
+            // Run after build completes
+            build.onEnd(async (result) => {
+                if (result.errors.length > 0) return
+
+                const { manifest } = await manifestPromise
+                const manifestFullPath = path.resolve(workingDir, manifestPath)
                 getFs().mkdirSync(path.dirname(manifestFullPath), { recursive: true })
                 getFs().writeFileSync(manifestFullPath, JSON.stringify(manifest, null, 2))
 
                 if (verbose) {
                     console.log(`[copy-assets] Generated manifest: ${manifestPath}`)
                     console.log(`[copy-assets] Found ${Object.keys(manifest.namespaces).length} asset namespace(s)`)
+                    if (manifest.files) console.log(`[copy-assets] Indexed ${Object.keys(manifest.files).length} file(s)`)
                 }
             })
         },
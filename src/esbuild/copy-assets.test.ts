@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import * as esbuild from "esbuild"
+import crypto from "crypto"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { fileURLToPath } from "url"
+import { copyAssetsPlugin } from "./index.mjs"
+
+const assetsModule = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../assets/index.ts")
+
+// Just enough of each format's header for the dimensions
+function png(width: number, height: number) {
+    const header = Buffer.alloc(24)
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header)
+    header.writeUInt32BE(13, 8)
+    header.write("IHDR", 12, "ascii")
+    header.writeUInt32BE(width, 16)
+    header.writeUInt32BE(height, 20)
+    return Buffer.concat([header, Buffer.alloc(16)])
+}
+
+function gif(width: number, height: number) {
+    const header = Buffer.alloc(13)
+    header.write("GIF89a", 0, "ascii")
+    header.writeUInt16LE(width, 6)
+    header.writeUInt16LE(height, 8)
+    return header
+}
+
+function jpeg(width: number, height: number) {
+    const app0 = Buffer.concat([Buffer.from([0xff, 0xe0, 0x00, 0x10]), Buffer.alloc(14)])
+    const sof0 = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, ...Array(9).fill(0)])
+    sof0.writeUInt16BE(height, 5)
+    sof0.writeUInt16BE(width, 7)
+    return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0, Buffer.from([0xff, 0xd9])])
+}
+
+const md5 = (content: Buffer | string) => crypto.createHash("md5").update(content).digest("hex")
+
+describe("copyAssetsPlugin", () => {
+    let root: string
+
+    const write = (file: string, content: Buffer | string) => {
+        fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+        fs.writeFileSync(path.join(root, file), content)
+    }
+
+    const build = (entry: string, options: object) => {
+        write("index.ts", entry)
+        return esbuild.build({
+            absWorkingDir: root,
+            entryPoints: ["index.ts"],
+            bundle: true,
+            format: "cjs",
+            write: false,
+            logLevel: "silent",
+            plugins: [copyAssetsPlugin(options)],
+        })
+    }
+
+    const manifest = () => JSON.parse(fs.readFileSync(path.join(root, ".onejs/assets-manifest.json"), "utf8"))
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-copy-assets-test-"))
+        write("assets/images/logo.png", png(256, 128))
+        write("assets/images/logo.png.meta", "guid: 1")
+        write("assets/.DS_Store", "")
+        write("assets/data/config.json", `{"a":1}`)
+        write("assets/@mine/photo.jpg", jpeg(640, 480))
+        write("node_modules/rainbow/assets/@rainbow/spin.gif", gif(32, 16))
+    })
+
+    afterEach(() => {
+        fs.rmSync(root, { recursive: true, force: true })
+    })
+
+    it("writes namespaces only by default", async () => {
+        const result = await build(`export const x = 1`, {})
+        expect(manifest()).toEqual({
+            namespaces: {
+                "@mine": { type: "user", path: path.join("assets", "@mine") },
+                "@rainbow": { type: "package", package: "rainbow", path: path.join("node_modules", "rainbow", "assets", "@rainbow") },
+            },
+            userAssetsPath: "assets",
+            destPath: "Assets/StreamingAssets/onejs/assets",
+        })
+        expect(result.outputFiles[0].text).not.toContain("__onejsAssetManifest")
+    })
+
+    it("indexes every asset under the path it is loaded by", async () => {
+        await build(`export const x = 1`, { index: true })
+        expect(manifest().files).toEqual({
+            "images/logo.png": { size: png(256, 128).length, hash: md5(png(256, 128)), width: 256, height: 128 },
+            "data/config.json": { size: 7, hash: md5(`{"a":1}`) },
+            "@mine/photo.jpg": { size: jpeg(640, 480).length, hash: md5(jpeg(640, 480)), width: 640, height: 480 },
+            "@rainbow/spin.gif": { size: gif(32, 16).length, hash: md5(gif(32, 16)), width: 32, height: 16 },
+        })
+    })
+
+    it("embeds the index for the runtime", async () => {
+        const entry = [
+            `import { assetExists, getAssetInfo } from ${JSON.stringify(assetsModule)}`,
+            `export const result = {`,
+            `    logo: assetExists("images/logo.png"),`,
+            `    dotted: assetExists("./data/config.json"),`,
+            `    packaged: assetExists("@rainbow/spin.gif"),`,
+            `    missing: assetExists("images/missing.png"),`,
+            `    meta: assetExists("images/logo.png.meta"),`,
+            `    info: getAssetInfo("@mine/photo.jpg"),`,
+            `    noInfo: getAssetInfo("nope.txt"),`,
+            `}`,
+        ].join("\n")
+        const output = await build(entry, { index: true })
+
+        // Any disk access would throw: the answers must come from the embedded index
+        const disk = () => { throw new Error("touched disk") }
+        const CS = {
+            UnityEngine: { Application: { isEditor: false, streamingAssetsPath: "jar:file:///base.apk!/assets" } },
+            System: { IO: { Path: { IsPathRooted: (p: string) => p.startsWith("/") }, File: { Exists: disk, ReadAllText: disk } } },
+        }
+        const module = { exports: {} as Record<string, any> }
+        const run = new Function("CS", "useExtensions", "module", "exports", output.outputFiles[0].text)
+        run(CS, () => {}, module, module.exports)
+        delete (globalThis as any).__onejsAssetManifest
+
+        expect(module.exports.result).toEqual({
+            logo: true,
+            dotted: true,
+            packaged: true,
+            missing: false,
+            meta: false,
+            info: { size: jpeg(640, 480).length, hash: md5(jpeg(640, 480)), width: 640, height: 480 },
+            noInfo: null,
+        })
+    })
+
+    it("re-indexes on rebuild", async () => {
+        write("index.ts", `export const x = 1`)
+        const context = await esbuild.context({
+            absWorkingDir: root,
+            entryPoints: ["index.ts"],
+            bundle: true,
+            format: "cjs",
+            write: false,
+            logLevel: "silent",
+            plugins: [copyAssetsPlugin({ index: true })],
+        })
+        try {
+            await context.rebuild()
+            write("assets/images/new.png", png(8, 8))
+            const result = await context.rebuild()
+            expect(manifest().files["images/new.png"]).toMatchObject({ width: 8, height: 8 })
+            expect(result.outputFiles![0].text).toContain("images/new.png")
+        } finally {
+            await context.dispose()
+        }
+    })
+
+    it("rebuilds in watch mode when an asset is added or edited", async () => {
+        write("index.ts", `export const x = 1`)
+        const outputs: string[] = []
+        let notify = () => {}
+        const context = await esbuild.context({
+            absWorkingDir: root,
+            entryPoints: ["index.ts"],
+            bundle: true,
+            format: "cjs",
+            write: false,
+            logLevel: "silent",
+            plugins: [copyAssetsPlugin({ index: true }), {
+                name: "outputs",
+                setup(build: esbuild.PluginBuild) {
+                    build.onEnd((result) => {
+                        outputs.push(result.outputFiles![0].text)
+                        notify()
+                    })
+                },
+            }],
+        })
+        const nextBuild = () => new Promise<string>((resolve) => {
+            notify = () => resolve(outputs[outputs.length - 1])
+        })
+        try {
+            let built = nextBuild()
+            await context.watch()
+            await built
+
+            built = nextBuild()
+            write("assets/@mine/icon.png", png(8, 8))
+            expect(await built).toContain("@mine/icon.png")
+
+            built = nextBuild()
+            write("assets/data/config.json", `{"a":2}`)
+            expect(await built).toContain(md5(`{"a":2}`))
+        } finally {
+            await context.dispose()
+        }
+    }, 20000)
+
+    describe("namespaces", () => {
+        const pkg = (dir: string, name: string, version: string, namespace: string) => {
+            write(`${dir}/package.json`, JSON.stringify({ name, version }))
+            write(`${dir}/assets/${namespace}/icon.png`, png(16, 16))
+        }
+
+        beforeEach(() => {
+            fs.rmSync(path.join(root, "node_modules"), { recursive: true, force: true })
+            fs.rmSync(path.join(root, "assets/@mine"), { recursive: true, force: true })
+        })
+
+        it("finds packages in nested node_modules", async () => {
+            pkg("node_modules/app-kit", "app-kit", "1.0.0", "@kit")
+            pkg("node_modules/app-kit/node_modules/@acme/icons", "@acme/icons", "2.0.0", "@icons")
+            await build(`export const x = 1`, {})
+            expect(manifest().namespaces).toEqual({
+                "@icons": {
+                    type: "package", package: "@acme/icons", version: "2.0.0",
+                    path: path.join("node_modules", "app-kit", "node_modules", "@acme", "icons", "assets", "@icons"),
+                },
+                "@kit": { type: "package", package: "app-kit", version: "1.0.0", path: path.join("node_modules", "app-kit", "assets", "@kit") },
+            })
+        })
+
+        it("finds packages in the pnpm store once", async () => {
+            pkg("node_modules/.pnpm/@acme+icons@2.0.0/node_modules/@acme/icons", "@acme/icons", "2.0.0", "@icons")
+            pkg("node_modules/.pnpm/rainbow@1.0.0_react@18.0.0/node_modules/rainbow", "rainbow", "1.0.0", "@rainbow")
+            // Top-level symlinks to the store, as pnpm makes for direct dependencies
+            fs.symlinkSync(path.join(root, "node_modules/.pnpm/rainbow@1.0.0_react@18.0.0/node_modules/rainbow"), path.join(root, "node_modules/rainbow"), "dir")
+            await build(`export const x = 1`, {})
+            expect(manifest().namespaces).toEqual({
+                "@icons": {
+                    type: "package", package: "@acme/icons", version: "2.0.0",
+                    path: path.join("node_modules", ".pnpm", "@acme+icons@2.0.0", "node_modules", "@acme", "icons", "assets", "@icons"),
+                },
+                "@rainbow": { type: "package", package: "rainbow", version: "1.0.0", path: path.join("node_modules", "rainbow", "assets", "@rainbow") },
+            })
+        })
+
+        it("fails the build on a namespace two packages provide", async () => {
+            pkg("node_modules/rainbow", "rainbow", "2.0.0", "@rainbow")
+            pkg("node_modules/app/node_modules/rainbow", "rainbow", "1.0.0", "@rainbow")
+            pkg("node_modules/spectrum", "spectrum", "1.0.0", "@rainbow")
+            await expect(build(`export const x = 1`, {})).rejects.toThrow(
+                `Asset namespace "@rainbow" is provided by rainbow@2.0.0 (node_modules/rainbow), spectrum@1.0.0 (node_modules/spectrum) ` +
+                `and rainbow@1.0.0 (node_modules/app/node_modules/rainbow). Pick one with the namespaces option, e.g. namespaces: { "@rainbow": "rainbow@2.0.0" }`,
+            )
+            expect(fs.existsSync(path.join(root, ".onejs/assets-manifest.json"))).toBe(false)
+        })
+
+        it("warns instead with collisions: \"warn\"", async () => {
+            pkg("node_modules/rainbow", "rainbow", "1.0.0", "@rainbow")
+            pkg("node_modules/spectrum", "spectrum", "1.0.0", "@rainbow")
+            const result = await build(`export const x = 1`, { collisions: "warn" })
+            expect(result.warnings.map((warning) => warning.text)).toEqual([
+                `Asset namespace "@rainbow" is provided by rainbow@1.0.0 (node_modules/rainbow) and spectrum@1.0.0 (node_modules/spectrum). ` +
+                `Pick one with the namespaces option, e.g. namespaces: { "@rainbow": "rainbow" }`,
+            ])
+            // The first provider wins
+            expect(manifest().namespaces["@rainbow"].package).toBe("rainbow")
+        })
+
+        it("lets your assets override a package's namespace silently", async () => {
+            pkg("node_modules/rainbow", "rainbow", "1.0.0", "@rainbow")
+            pkg("node_modules/spectrum", "spectrum", "1.0.0", "@rainbow")
+            write("assets/@rainbow/bg.png", png(4, 4))
+            const result = await build(`export const x = 1`, {})
+            expect(result.errors).toEqual([])
+            expect(result.warnings).toEqual([])
+            expect(manifest().namespaces["@rainbow"]).toEqual({ type: "user", path: path.join("assets", "@rainbow") })
+        })
+
+        it("picks the provider the namespaces option names", async () => {
+            pkg("node_modules/rainbow", "rainbow", "2.0.0", "@rainbow")
+            pkg("node_modules/widgets/node_modules/rainbow", "rainbow", "1.0.0", "@rainbow")
+            pkg("node_modules/spectrum", "spectrum", "1.0.0", "@spectrum")
+            write("assets/@spectrum/own.png", png(2, 2))
+
+            const result = await build(`export const x = 1`, {
+                index: true,
+                namespaces: { "@rainbow": "rainbow@1.0.0", "@spectrum": "spectrum" },
+            })
+            expect(result.warnings).toEqual([])
+            expect(manifest().namespaces["@rainbow"].path).toBe(path.join("node_modules", "widgets", "node_modules", "rainbow", "assets", "@rainbow"))
+            expect(manifest().namespaces["@spectrum"].package).toBe("spectrum")
+            // The losing user folder isn't indexed
+            expect(Object.keys(manifest().files).sort()).toEqual(["@rainbow/icon.png", "@spectrum/icon.png", "data/config.json", "images/logo.png"])
+        })
+
+        it("reports pins that don't pick one provider", async () => {
+            pkg("node_modules/rainbow", "rainbow", "2.0.0", "@rainbow")
+            pkg("node_modules/widgets/node_modules/rainbow", "rainbow", "1.0.0", "@rainbow")
+            const built = build(`export const x = 1`, { namespaces: { "@rainbow": "rainbow", "@gone": "gone", "@mine": "spectrum" } })
+            await expect(built).rejects.toThrow(`The namespaces option picks "rainbow" for "@rainbow", which matches rainbow@2.0.0 (node_modules/rainbow) and rainbow@1.0.0 (node_modules/widgets/node_modules/rainbow). Add the version: "rainbow@2.0.0"`)
+            await expect(built).rejects.toThrow(`The namespaces option picks "gone" for "@gone", but nothing provides "@gone"`)
+        })
+    })
+})
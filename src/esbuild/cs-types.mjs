@@ -0,0 +1,318 @@
+/**
+ * TypeScript declarations for the C# namespaces importTransformPlugin imports
+ *
+ * `import { Texture2D } from "UnityEngine"` only type-checks against a
+ * `declare module "UnityEngine"`. generateCsDeclarations writes one per
+ * namespace from a JSON dump of the types exported from Unity, so the
+ * imports are typed without anyone maintaining the declarations by hand.
+ *
+ * The dump lists assemblies and their types:
+ *
+ *   {
+ *     "assemblies": [{
+ *       "name": "UnityEngine.CoreModule",
+ *       "types": [{
+ *         "namespace": "UnityEngine",
+ *         "name": "GameObject",            // "List`1" for generics, "Outer+Inner" when nested
+ *         "kind": "class",                 // class | struct | interface | enum | delegate
+ *         "baseType": "UnityEngine.Object",
+ *         "interfaces": [],
+ *         "genericParameters": [],
+ *         "members": [
+ *           { "kind": "constructor", "parameters": [{ "name": "name", "type": "System.String" }] },
+ *           { "kind": "method", "name": "GetComponent", "static": false, "genericParameters": ["T"], "parameters": [], "returnType": "T" },
+ *           { "kind": "property", "name": "transform", "type": "UnityEngine.Transform", "static": false, "readonly": true },
+ *           { "kind": "field", "name": "layer", "type": "System.Int32" }
+ *         ],
+ *         "values": { "World": 0, "Self": 1 },   // enums
+ *         "parameters": [], "returnType": "System.Void"   // delegates
+ *       }]
+ *     }]
+ *   }
+ *
+ * Type references are C# full names with generic arguments in angle brackets
+ * (`System.Collections.Generic.List<System.Int32>`), `[]` for arrays and `&`
+ * for ref/out parameters. The declarations follow the CS proxy and the names
+ * importTransformPlugin imports:
+ *
+ * - Primitives become TypeScript's.
+ * - Generic types go by their plain name (`List<T>`). When several arities
+ *   share one (`Action`, `Action`1`), the one with the fewest parameters is
+ *   declared and references to the others are `any`.
+ * - Nested types (`ParticleSystem+MainModule`) are `ParticleSystem.MainModule`,
+ *   and also exported under the quoted name the transform imports them by.
+ * - Closed generics listed in `closedGenerics` (`"List<int>"`) are exported
+ *   under that quoted name too, typed as their definition (`List`).
+ * - Arrays are `CSArray<T>`: a `Length` and indexing.
+ * - Ref/out parameters take their type's values.
+ * - Each module's default export is the namespace itself.
+ *
+ * A reference to a type missing from the dump is `any`, so a partial dump
+ * still produces valid declarations.
+ */
+
+// C# primitives and their TypeScript types
+const PRIMITIVES = {
+    "System.Void": "void",
+    "System.Boolean": "boolean",
+    "System.String": "string",
+    "System.Char": "number",
+    "System.Byte": "number",
+    "System.SByte": "number",
+    "System.Int16": "number",
+    "System.UInt16": "number",
+    "System.Int32": "number",
+    "System.UInt32": "number",
+    "System.Int64": "number",
+    "System.UInt64": "number",
+    "System.Single": "number",
+    "System.Double": "number",
+    "System.Decimal": "number",
+    "System.IntPtr": "number",
+    "System.Object": "any",
+}
+
+// Names a parameter can't have in TypeScript
+const RESERVED = new Set([
+    "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do",
+    "else", "enum", "export", "extends", "false", "finally", "for", "function", "if", "import", "in",
+    "instanceof", "new", "null", "return", "super", "switch", "this", "throw", "true", "try",
+    "typeof", "var", "void", "while", "with", "implements", "interface", "let", "package",
+    "private", "protected", "public", "static", "yield", "arguments", "eval",
+])
+
+/** The name a C# type has in the CS proxy: without the arity suffix (`List`1` -> `List`). */
+function plainName(clrName) {
+    return clrName.replace(/`\d+/g, "")
+}
+
+// =============================================================================
+// Type references
+// =============================================================================
+
+/**
+ * Parse a type reference (`System.Collections.Generic.Dictionary<System.String, T[]>&`)
+ * into `{ name, args, array, byRef }`.
+ */
+function parseTypeRef(text) {
+    let i = 0
+    const parse = () => {
+        let name = ""
+        while (i < text.length && !"<>,[]&".includes(text[i])) name += text[i++]
+        const ref = { name: name.trim(), args: [], array: 0, byRef: false }
+        if (text[i] === "<") {
+            i++
+            for (;;) {
+                ref.args.push(parse())
+                if (text[i] === ",") { i++; continue }
+                if (text[i] === ">") { i++; break }
+                break
+            }
+        }
+        while (text.startsWith("[]", i)) {
+            ref.array++
+            i += 2
+        }
+        if (text[i] === "&") {
+            ref.byRef = true
+            i++
+        }
+        return ref
+    }
+    return parse()
+}
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/**
+ * Build the .d.ts content for a Unity type dump.
+ *
+ * @param {Object} dump Parsed JSON dump (see above)
+ * @param {Object} [options]
+ * @param {(namespace: string) => boolean} [options.filter] Namespaces to declare (default: all)
+ * @param {Object<string, string[]>} [options.closedGenerics] Closed generic names imported from each namespace (`{ "System.Collections.Generic": ["List<int>"] }`)
+ * @returns {string}
+ */
+export function generateCsDeclarations(dump, options = {}) {
+    const filter = options.filter ?? (() => true)
+    const closedGenerics = options.closedGenerics ?? {}
+
+    // One type per plain name: the fewest generic parameters wins
+    const arity = (type) => (type.genericParameters ?? []).length
+    const byPlainName = new Map()
+    for (const assembly of dump.assemblies ?? []) {
+        for (const type of assembly.types ?? []) {
+            if (!type.namespace || !filter(type.namespace)) continue
+            const key = `${type.namespace}.${plainName(type.name)}`
+            const taken = byPlainName.get(key)
+            if (!taken || arity(type) < arity(taken)) byPlainName.set(key, type)
+        }
+    }
+
+    // The declared types by full CLR name, for resolving references
+    const types = new Map([...byPlainName.values()].map((type) => [`${type.namespace}.${type.name}`, type]))
+
+    /** The declared type a reference names: `List` with one argument is `List`1`. */
+    const findType = (name, args) => {
+        const type = (args > 0 ? types.get(`${name}\`${args}`) : undefined) ?? types.get(name)
+        return type && arity(type) === args ? type : undefined
+    }
+
+    /** TypeScript for a type reference, seen from `namespace` with `generics` in scope. */
+    const typeScript = (text, namespace, generics) => {
+        const render = (ref) => {
+            let result
+            if (generics.includes(ref.name)) {
+                result = ref.name
+            } else if (PRIMITIVES[ref.name] && ref.args.length === 0) {
+                result = PRIMITIVES[ref.name]
+            } else {
+                const type = findType(ref.name, ref.args.length)
+                if (!type) {
+                    result = "any"
+                } else {
+                    const local = plainName(type.name).replace(/\+/g, ".")
+                    const qualified = type.namespace === namespace ? local : `import("${type.namespace}").${local}`
+                    result = ref.args.length > 0 ? `${qualified}<${ref.args.map(render).join(", ")}>` : qualified
+                }
+            }
+            for (let i = 0; i < ref.array; i++) result = `CSArray<${result}>`
+            return result
+        }
+        return render(parseTypeRef(text))
+    }
+
+    const parameterList = (parameters = [], namespace, generics) => parameters
+        .map((parameter, i) => {
+            const name = RESERVED.has(parameter.name) || !parameter.name ? `$${parameter.name || `arg${i}`}` : parameter.name
+            const optional = parameter.optional ? "?" : ""
+            const rest = parameter.params ? "..." : ""
+            return `${rest}${name}${optional}: ${typeScript(parameter.type, namespace, generics)}`
+        })
+        .join(", ")
+
+    const generic = (parameters = []) => (parameters.length > 0 ? `<${parameters.join(", ")}>` : "")
+
+    /** Declaration lines for one type, indented by `indent`. */
+    const declareType = (type, indent) => {
+        const namespace = type.namespace
+        const name = plainName(type.name).split("+").pop()
+        const generics = type.genericParameters ?? []
+        const pad = " ".repeat(indent)
+        const lines = []
+
+        if (type.kind === "enum") {
+            lines.push(`${pad}enum ${name} {`)
+            for (const [key, value] of Object.entries(type.values ?? {})) {
+                lines.push(`${pad}    ${key} = ${value},`)
+            }
+            lines.push(`${pad}}`)
+            return lines
+        }
+
+        if (type.kind === "delegate") {
+            const params = parameterList(type.parameters, namespace, generics)
+            lines.push(`${pad}type ${name}${generic(generics)} = (${params}) => ${typeScript(type.returnType ?? "System.Void", namespace, generics)}`)
+            return lines
+        }
+
+        const isInterface = type.kind === "interface"
+        const heritage = []
+        if (isInterface) {
+            const bases = (type.interfaces ?? []).map((i) => typeScript(i, namespace, generics)).filter((t) => t !== "any")
+            if (bases.length > 0) heritage.push(`extends ${bases.join(", ")}`)
+        } else if (type.baseType && !["System.Object", "System.ValueType"].includes(type.baseType)) {
+            const base = typeScript(type.baseType, namespace, generics)
+            if (base !== "any") heritage.push(`extends ${base}`)
+        }
+        lines.push(`${pad}${isInterface ? "interface" : "class"} ${name}${generic(generics)}${heritage.map((h) => " " + h).join("")} {`)
+
+        for (const member of type.members ?? []) {
+            const isStatic = member.static && !isInterface ? "static " : ""
+            const memberGenerics = [...generics, ...(member.genericParameters ?? [])]
+            if (member.kind === "constructor") {
+                if (!isInterface) lines.push(`${pad}    constructor(${parameterList(member.parameters, namespace, generics)})`)
+            } else if (member.kind === "method") {
+                const params = parameterList(member.parameters, namespace, memberGenerics)
+                const returns = typeScript(member.returnType ?? "System.Void", namespace, memberGenerics)
+                lines.push(`${pad}    ${isStatic}${member.name}${generic(member.genericParameters)}(${params}): ${returns}`)
+            } else if (member.kind === "property" || member.kind === "field") {
+                const readonly = member.readonly ? "readonly " : ""
+                lines.push(`${pad}    ${isStatic}${readonly}${member.name}: ${typeScript(member.type, namespace, generics)}`)
+            }
+        }
+        lines.push(`${pad}}`)
+        return lines
+    }
+
+    const exported = (lines) => lines.map((line, i) => (i === 0 ? line.replace(/^(\s*)/, "$1export ") : line))
+
+    // Group by namespace, nesting types under their declaring type
+    const namespaces = new Map()
+    for (const type of types.values()) {
+        if (!namespaces.has(type.namespace)) namespaces.set(type.namespace, [])
+        namespaces.get(type.namespace).push(type)
+    }
+
+    const out = [
+        "// Generated by onejs-unity importTransformPlugin from a Unity type dump: do not edit",
+        "",
+        "/** A C# array, as the CS proxy exposes it. */",
+        "interface CSArray<T> {",
+        "    readonly Length: number",
+        "    [index: number]: T",
+        "}",
+        "",
+    ]
+    for (const namespace of [...namespaces.keys()].sort()) {
+        out.push(`declare module "${namespace}" {`)
+        const nested = new Map()
+        const topLevel = []
+        for (const type of namespaces.get(namespace).sort((a, b) => a.name.localeCompare(b.name))) {
+            const outer = plainName(type.name).split("+").slice(0, -1).join(".")
+            if (!outer) {
+                topLevel.push(type)
+                continue
+            }
+            if (!nested.has(outer)) nested.set(outer, [])
+            nested.get(outer).push(type)
+        }
+        for (const type of topLevel) {
+            out.push(...exported(declareType(type, 4)))
+        }
+        // Nested types merge into a namespace named after their declaring type,
+        // and are exported by the quoted name they're imported with too
+        const quoted = []
+        for (const [outer, inner] of nested) {
+            out.push(`    export namespace ${outer} {`)
+            for (const type of inner) {
+                out.push(...exported(declareType(type, 8)))
+                quoted.push(`${outer}.${plainName(type.name).split("+").pop()}`)
+            }
+            out.push("    }")
+        }
+        for (const name of quoted) {
+            const alias = `_${name.replace(/\./g, "_")}`
+            out.push(`    import ${alias} = ${name}`, `    export { ${alias} as "${name}" }`)
+        }
+        // Closed generics are the definition under the name they're imported by;
+        // the ones naming a type the dump doesn't have stay undeclared
+        const declared = new Set(namespaces.get(namespace).map((type) => plainName(type.name).replace(/\+/g, ".")))
+        const closed = [...new Set(closedGenerics[namespace] ?? [])].sort()
+        closed.forEach((name, i) => {
+            const definition = name.slice(0, name.indexOf("<")).replace(/\s/g, "").replace(/\+/g, ".")
+            if (!declared.has(definition)) return
+            if (!definition.includes(".")) {
+                out.push(`    export { ${definition} as ${JSON.stringify(name)} }`)
+                return
+            }
+            out.push(`    import _closed${i} = ${definition}`, `    export { _closed${i} as ${JSON.stringify(name)} }`)
+        })
+        // `import UE from "UnityEngine"` is the namespace itself
+        out.push(`    import * as _namespace from "${namespace}"`, "    export default _namespace")
+        out.push("}", "")
+    }
+    return out.join("\n")
+}
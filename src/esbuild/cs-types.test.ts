@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest"
+import * as esbuild from "esbuild"
+import ts from "typescript"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { fileURLToPath } from "url"
+import { generateCsDeclarations } from "./cs-types.mjs"
+import { importTransformPlugin, transformImports } from "./import-transform.mjs"
+
+const here = path.dirname(fileURLToPath(import.meta.url))
+const dumpPath = path.join(here, "fixtures", "unity-types.json")
+const dump = JSON.parse(fs.readFileSync(dumpPath, "utf8"))
+
+/** TypeScript's errors for `sources` (one module each) checked against the generated declarations. */
+function typeErrors(declarations: string, ...sources: string[]): string[] {
+    const files: Record<string, string> = { "/cs.d.ts": declarations }
+    sources.forEach((source, i) => { files[`/index${i}.ts`] = source })
+    const options: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        types: [],
+    }
+    const host = ts.createCompilerHost(options)
+    const { getSourceFile } = host
+    host.getSourceFile = (name, version) =>
+        name in files ? ts.createSourceFile(name, files[name], version) : getSourceFile.call(host, name, version)
+    host.fileExists = (name) => name in files || ts.sys.fileExists(name)
+    host.readFile = (name) => files[name] ?? ts.sys.readFile(name)
+    const program = ts.createProgram(Object.keys(files), options, host)
+    return ts.getPreEmitDiagnostics(program).map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
+}
+
+describe("generateCsDeclarations", () => {
+    const declarations = generateCsDeclarations(dump)
+
+    it("declares a module per namespace", () => {
+        expect(declarations).toContain(`declare module "UnityEngine" {`)
+        expect(declarations).toContain(`declare module "System.Collections.Generic" {`)
+        expect(declarations).toContain(`declare module "System" {`)
+    })
+
+    it("maps members and type references", () => {
+        // Inheritance, constructors, static and readonly members
+        expect(declarations).toContain("export class GameObject extends Object {")
+        expect(declarations).toContain("constructor(x: number, y: number, z: number)")
+        expect(declarations).toContain("static readonly zero: Vector3")
+        // Generic types and methods, arrays, ref parameters and other namespaces
+        expect(declarations).toContain("export class List<T> {")
+        expect(declarations).toContain("ConvertAll<TOutput>(converter: import(\"System\").Converter<T, TOutput>): List<TOutput>")
+        expect(declarations).toContain("ToArray(): CSArray<T>")
+        expect(declarations).toContain("TryGetValue(key: TKey, value: TValue): boolean")
+        expect(declarations).toContain("GetChildren($in: boolean): import(\"System.Collections.Generic\").List<Transform>")
+        // Enums, delegates and nested types
+        expect(declarations).toContain("export enum Space {\n        World = 0,\n        Self = 1,\n    }")
+        expect(declarations).toContain("export type Converter<TInput, TOutput> = (input: TInput) => TOutput")
+        expect(declarations).toContain("export namespace ParticleSystem {\n        export class MainModule {")
+        expect(declarations).toContain(`export { _ParticleSystem_MainModule as "ParticleSystem.MainModule" }`)
+    })
+
+    it("declares the fewest-parameter type of a shared plain name", () => {
+        // Action and Action`1 are both "Action" in the CS proxy
+        expect(declarations).toContain("export type Action = () => void")
+        expect(declarations).not.toContain("export type Action<T>")
+        expect(declarations).toContain("ForEach(action: any): void")
+    })
+
+    it("drops references to types missing from the dump", () => {
+        // Transform's base type, UnityEngine.Component, isn't in the dump
+        expect(declarations).toContain("export class Transform {")
+    })
+
+    it("only declares the namespaces the filter accepts", () => {
+        const unity = generateCsDeclarations(dump, { filter: (namespace: string) => namespace === "UnityEngine" })
+        expect(unity).not.toContain(`declare module "System.Collections.Generic"`)
+        expect(unity).toContain("GetChildren($in: boolean): any")
+    })
+
+    it("type-checks idiomatic imports", () => {
+        const source = [
+            `import { GameObject, Vector3, Space } from "UnityEngine"`,
+            `import { List } from "System.Collections.Generic"`,
+            `const go: GameObject = GameObject.Find("Player")`,
+            `go.transform.Translate(Vector3.zero, Space.World)`,
+            `const names: List<string> = new List<string>()`,
+            `const lengths = names.ConvertAll((name) => name.length)`,
+            `const count: number = lengths.ToArray().Length + lengths.ToArray()[0] + go.GetComponent<number>()`,
+            `go.GetComponent<GameObject>().SetActive(count > 0)`,
+            `export { go }`,
+        ].join("\n")
+        expect(typeErrors(declarations, source)).toEqual([])
+    })
+
+    it("declares the closed generics it's given as their definition", () => {
+        const closed = generateCsDeclarations(dump, {
+            closedGenerics: { "System.Collections.Generic": ["List<int>", "List<int>", "Missing<int>"] },
+        })
+        expect(closed).toContain(`    export { List as "List<int>" }`)
+        expect(closed).not.toContain("Missing")
+        expect(typeErrors(closed, [
+            `import { "List<int>" as IntList } from "System.Collections.Generic"`,
+            `const numbers: IntList<number> = new IntList<number>()`,
+            `export const count: number = numbers.ToArray().Length`,
+        ].join("\n"))).toEqual([])
+    })
+
+    it("type-checks the imports the README documents", () => {
+        // export * is a build error
+        const readme = fs.readFileSync(path.join(here, "..", "..", "README.md"), "utf8")
+        const imports = [...readme.matchAll(/(?:^|`)((?:import|export) [^`\n]*? from "([A-Z][^"]*)")/gm)]
+            .map((match) => match[1])
+            .filter((statement) => !statement.startsWith("export * from"))
+        expect(imports).toContain(`import { List, Dictionary } from "System.Collections.Generic"`)
+        expect(imports).toContain(`import { "ParticleSystem.MainModule" as MainModule } from "UnityEngine"`)
+        expect(imports).toContain(`import { "List<int>" as IntList } from "System.Collections.Generic"`)
+
+        // Declared with the closed generics they import, as the plugin does
+        const closedGenerics: Record<string, string[]> = {}
+        for (const { module, name } of imports.flatMap((statement) => transformImports(statement, { genericHelper: "makeGeneric" }).closedGenerics)) {
+            (closedGenerics[module] ??= []).push(name)
+        }
+        const withClosed = generateCsDeclarations(dump, { closedGenerics })
+        expect(typeErrors(withClosed, ...imports.map((statement) => `${statement}\nexport {}`))).toEqual([])
+    })
+
+    it("catches misuse", () => {
+        const errors = typeErrors(declarations, [
+            `import { GameObject } from "UnityEngine"`,
+            `GameObject.Find(42).SetActive("yes")`,
+            `export {}`,
+        ].join("\n"))
+        expect(errors).toHaveLength(2)
+    })
+})
+
+describe("importTransformPlugin typesDump", () => {
+    async function build(root: string, options: object, source = `import { GameObject } from "UnityEngine"\nexport const go = GameObject\n`) {
+        fs.writeFileSync(path.join(root, "index.ts"), source)
+        return esbuild.build({
+            absWorkingDir: root,
+            entryPoints: ["index.ts"],
+            bundle: true,
+            write: false,
+            logLevel: "silent",
+            plugins: [importTransformPlugin(options)],
+        })
+    }
+
+    it("writes the declarations", async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-cs-types-test-"))
+        try {
+            fs.copyFileSync(dumpPath, path.join(root, "types.json"))
+            await build(root, { typesDump: "types.json" })
+            expect(fs.readFileSync(path.join(root, "onejs-cs.d.ts"), "utf8")).toBe(generateCsDeclarations(dump))
+
+            await build(root, { typesDump: "types.json", typesFile: "types/cs.d.ts", filter: (name: string) => name === "UnityEngine" })
+            expect(fs.readFileSync(path.join(root, "types/cs.d.ts"), "utf8")).not.toContain(`declare module "System.Collections.Generic"`)
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true })
+        }
+    })
+
+    it("declares the closed generics the build imports", async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-cs-types-test-"))
+        try {
+            fs.copyFileSync(dumpPath, path.join(root, "types.json"))
+            const source = `import { "List<int>" as IntList } from "System.Collections.Generic"\nexport const list = new IntList()\n`
+            await build(root, { typesDump: "types.json", genericHelper: "makeGeneric" }, source)
+            expect(fs.readFileSync(path.join(root, "onejs-cs.d.ts"), "utf8")).toBe(generateCsDeclarations(dump, {
+                closedGenerics: { "System.Collections.Generic": ["List<int>"] },
+            }))
+
+            // Dropped again once no file imports it
+            await build(root, { typesDump: "types.json", genericHelper: "makeGeneric" })
+            expect(fs.readFileSync(path.join(root, "onejs-cs.d.ts"), "utf8")).toBe(generateCsDeclarations(dump))
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true })
+        }
+    })
+
+    it("fails the build when the dump can't be read", async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-cs-types-test-"))
+        try {
+            await expect(build(root, { typesDump: "missing.json" })).rejects.toThrow(/Could not read the C# type dump missing.json/)
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true })
+        }
+    })
+})
@@ -0,0 +1,4 @@
+// Imported by imports.ts: a relative import the transform must leave alone
+export function helper() {
+    return "helper"
+}
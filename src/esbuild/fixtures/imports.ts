@@ -0,0 +1,45 @@
+// Fixture for importTransformPlugin (import-transform.test.ts bundles this
+// file and runs it against a fake CS global). It combines every import and
+// export form the transform handles, plus the look-alikes it must leave
+// alone. Keep the exported `result` in sync with the test when editing.
+import { GameObject, Vector3 as V3 } from "UnityEngine"
+import type { Transform } from "UnityEngine"
+import { type Component, Mathf } from "UnityEngine"
+import {
+    List,
+    Dictionary as Dict, // trailing comments
+} from "System.Collections.Generic"
+import { "List<int>" as IntList } from "System.Collections.Generic"
+import { "ParticleSystem.MainModule" as MainModule } from "UnityEngine"
+import * as UE from "UnityEngine"
+import UnityDefault, { Debug } from "UnityEngine"
+import "UnityEngine.UIElements"
+import { helper } from "./helper"
+
+export { Color } from "UnityEngine"
+export { Quaternion as Rotation, type Camera } from "UnityEngine"
+export type { Material } from "UnityEngine"
+export * as IO from "System.IO"
+
+// import { Fake } from "UnityEngine"
+/* export { AlsoFake } from "UnityEngine" */
+const text = `import { InTemplate } from "UnityEngine" ${"export { InExpression } from \"UnityEngine\""}`
+const pattern = /import { InRegex } from "UnityEngine"/
+const dynamic = import.meta
+
+export const result = {
+    gameObject: GameObject,
+    v3: V3,
+    mathf: Mathf,
+    list: List,
+    dict: Dict,
+    intList: IntList,
+    mainModule: MainModule,
+    hasUE: UE === CS.UnityEngine,
+    hasDefault: UnityDefault === CS.UnityEngine,
+    debug: Debug,
+    helper: helper(),
+    text,
+    pattern: pattern.source,
+    dynamic: typeof dynamic,
+}
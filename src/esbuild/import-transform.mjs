@@ -1,28 +1,70 @@
-import { getFs } from "../fs-provider.mjs"
+import path from "node:path"
+import { getFs, writeIfChanged } from "../fs-provider.mjs"
+import { generateCsDeclarations } from "./cs-types.mjs"
+
+const DEFAULT_TYPES_FILE = "onejs-cs.d.ts"
 
 /**
  * esbuild plugin that transforms imports from C# namespaces to CS.* references.
  *
  * Transforms:
  *   import { Texture2D, Material } from "UnityEngine"
+ *   import { Vector3 as V3 } from "UnityEngine"
  *   import { List } from "System.Collections.Generic"
  *   import DefaultName from "UnityEngine"
  *   import * as UE from "UnityEngine"
+ *   export { Color } from "UnityEngine"
+ *   import { "ParticleSystem.MainModule" as MainModule } from "UnityEngine"
+ *   import { "Dictionary<string, UnityEngine.GameObject>" as Lookup } from "System.Collections.Generic"
  *
  * Into:
  *   const { Texture2D, Material } = CS.UnityEngine
+ *   const { Vector3: V3 } = CS.UnityEngine
  *   const { List } = CS.System.Collections.Generic
  *   const DefaultName = CS.UnityEngine
  *   const UE = CS.UnityEngine
+ *   const { Color: __cs0 } = CS.UnityEngine; export { __cs0 as Color }
+ *   const MainModule = CS.UnityEngine.ParticleSystem.MainModule
+ *   const Lookup = makeGeneric(CS.System.Collections.Generic.Dictionary, CS.System.String, CS.UnityEngine.GameObject)
+ *
+ * Generic type definitions are imported by their plain name (`List`), as the
+ * CS proxy exposes them. A quoted specifier names a nested type or a closed
+ * generic type relative to the module's namespace; its type arguments are C#
+ * keywords (`int`), full names (`UnityEngine.GameObject`) or names in the same
+ * namespace. A type reference that can't be resolved (`"List<int"`, `"int[]"`)
+ * is a build error.
+ *
+ * The CS proxy has no way to close a generic type itself, so a closed generic
+ * import is handed to the `genericHelper` function (`makeGeneric` above) the
+ * project provides at runtime. Without that option it's a build error.
+ *
+ * Type-only imports and exports (`import type { Transform }`,
+ * `import { type Transform, GameObject }`) are erased, since the types don't
+ * exist at runtime. `export * from "UnityEngine"` is a build error: a C#
+ * namespace has no list of names to re-export.
+ *
+ * Statements are found by a scanner that skips comments, strings, template
+ * literals and regex literals, so an `import ... from "UnityEngine"` inside
+ * any of those is left alone, and imports may span lines. Replacements keep
+ * the statement's line count, so later line numbers don't move.
  *
  * Only transforms imports where the module name starts with an uppercase letter,
  * which matches the convention for C# namespaces (UnityEngine, System, etc.)
  *
+ * With `typesDump`, the plugin also writes a `declare module` per C# namespace
+ * in a JSON type dump exported from Unity (see cs-types.mjs), so the imports
+ * type-check. It's regenerated at the end of every build, with the closed
+ * generics the build imported (`"List<int>"`), and only written when it
+ * changed.
+ *
  * @param {Object} options
  * @param {(moduleName: string) => boolean} [options.filter]. Custom filter for which modules to transform
+ * @param {string} [options.genericHelper]: Global function closing a generic type definition over type arguments at runtime, needed for closed generic imports
+ * @param {string} [options.typesDump]: Unity type dump (JSON) to generate declarations from, relative to the working directory
+ * @param {string} [options.typesFile]: Where to write them, relative to the working directory (default: "onejs-cs.d.ts")
  */
 export function importTransformPlugin(options = {}) {
-    const { filter } = options
+    const { filter, genericHelper, typesDump, typesFile = DEFAULT_TYPES_FILE } = options
 
     // Default: transform modules starting with uppercase letter
     const shouldTransform = filter || ((name) => /^[A-Z]/.test(name))
@@ -30,6 +72,35 @@ export function importTransformPlugin(options = {}) {
     return {
         name: "import-transform",
         setup(build) {
+            const cwd = build.initialOptions.absWorkingDir || process.cwd()
+            // The dump this build declares, and the closed generics each file imports
+            let dump = null
+            const closedGenerics = new Map()
+
+            if (typesDump) {
+                build.onStart(async () => {
+                    dump = null
+                    closedGenerics.clear()
+                    const dumpPath = path.resolve(cwd, typesDump)
+                    try {
+                        dump = JSON.parse(await getFs().promises.readFile(dumpPath, "utf8"))
+                    } catch (error) {
+                        return { errors: [{ text: `Could not read the C# type dump ${typesDump}: ${error.message}` }] }
+                    }
+                })
+
+                build.onEnd(async () => {
+                    if (!dump) return
+                    const imported = {}
+                    for (const { module, name } of [...closedGenerics.values()].flat()) {
+                        (imported[module] ??= []).push(name)
+                    }
+                    const typesPath = path.resolve(cwd, typesFile)
+                    getFs().mkdirSync(path.dirname(typesPath), { recursive: true })
+                    await writeIfChanged(typesPath, generateCsDeclarations(dump, { filter: shouldTransform, closedGenerics: imported }))
+                })
+            }
+
             // Transform source files to replace C# namespace imports with CS.* references
             build.onLoad({ filter: /\.(tsx?|jsx?|mjs)$/ }, async (args) => {
                 // Skip node_modules except for local packages
@@ -38,66 +109,24 @@ export function importTransformPlugin(options = {}) {
                 }
 
                 const source = await getFs().promises.readFile(args.path, "utf8")
+                const { code, errors, closedGenerics: closed } = transformImports(source, { filter: shouldTransform, genericHelper })
+                closedGenerics.set(args.path, closed)
 
-                // Check if this file has any imports that need transformation
-                // Match import statements with uppercase module names
-                const importRegex = /import\s+(?:(\*\s+as\s+(\w+))|(?:(\w+)(?:\s*,\s*)?)?(?:\{([^}]*)\})?)\s+from\s+["']([^"']+)["']/g
-
-                let transformed = source
-                let hasTransforms = false
-                const replacements = []
-
-                let match
-                while ((match = importRegex.exec(source)) !== null) {
-                    const [fullMatch, starImport, starAlias, defaultImport, namedImports, moduleName] = match
-
-                    if (!shouldTransform(moduleName)) continue
-
-                    hasTransforms = true
-                    const csPath = "CS." + moduleName.replace(/\//g, ".")
-
-                    let replacement = ""
-
-                    // Handle: import * as UE from "UnityEngine"
-                    if (starImport && starAlias) {
-                        replacement = `const ${starAlias} = ${csPath}`
+                if (errors.length > 0) {
+                    return {
+                        errors: errors.map(({ text, index }) => ({ text, location: locate(source, index, args.path) })),
                     }
-                    // Handle: import Default from "UnityEngine"
-                    else if (defaultImport && !namedImports) {
-                        replacement = `const ${defaultImport} = ${csPath}`
-                    }
-                    // Handle: import { A, B } from "UnityEngine"
-                    else if (namedImports && !defaultImport) {
-                        replacement = `const {${namedImports}} = ${csPath}`
-                    }
-                    // Handle: import Default, { A, B } from "UnityEngine"
-                    else if (defaultImport && namedImports) {
-                        replacement = `const ${defaultImport} = ${csPath}; const {${namedImports}} = ${csPath}`
-                    }
-                    // Handle: import "UnityEngine" (side-effect only, rare but valid)
-                    else {
-                        replacement = `/* ${fullMatch} - side-effect import removed */`
-                    }
-
-                    replacements.push({ start: match.index, end: match.index + fullMatch.length, replacement })
                 }
-
-                if (!hasTransforms) {
+                if (code === source) {
                     return null // Let esbuild handle normally
                 }
 
-                // Apply replacements in reverse order to maintain correct positions
-                for (let i = replacements.length - 1; i >= 0; i--) {
-                    const { start, end, replacement } = replacements[i]
-                    transformed = transformed.slice(0, start) + replacement + transformed.slice(end)
-                }
-
                 // Determine loader from file extension
                 const ext = args.path.split(".").pop()
                 const loader = ext === "tsx" ? "tsx" : ext === "ts" ? "ts" : ext === "jsx" ? "jsx" : "js"
 
                 return {
-                    contents: transformed,
+                    contents: code,
                     loader,
                 }
             })
@@ -105,6 +134,578 @@ export function importTransformPlugin(options = {}) {
     }
 }
 
+/** esbuild location of a source offset. */
+function locate(source, index, file) {
+    const lineStart = source.lastIndexOf("\n", index - 1) + 1
+    const lineEnd = source.indexOf("\n", index)
+    return {
+        file,
+        line: source.slice(0, index).split("\n").length,
+        column: index - lineStart,
+        lineText: source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+    }
+}
+
+// ============================================================================
+// Transform
+// ============================================================================
+
+/**
+ * Rewrite the C# namespace imports and re-exports in `source`.
+ *
+ * @param {string} source Module source (JS or TS)
+ * @param {Object} [options]
+ * @param {(moduleName: string) => boolean} [options.filter] Which modules are C# namespaces (default: names starting with an uppercase letter)
+ * @param {string} [options.genericHelper] Global function closing generic types at runtime, needed for closed generic imports
+ * @returns {{ code: string, errors: Array<{ text: string, index: number }>, closedGenerics: Array<{ module: string, name: string }> }}
+ *   The transformed source, problems with their source offsets, and the
+ *   closed generics imported or re-exported (`"List<int>"`), for declaring them
+ */
+export function transformImports(source, options = {}) {
+    const shouldTransform = options.filter || ((name) => /^[A-Z]/.test(name))
+    const genericHelper = options.genericHelper
+    const errors = []
+    const replacements = []
+    const closedGenerics = []
+    let localId = 0
+
+    for (const statement of findModuleStatements(source)) {
+        if (!shouldTransform(statement.module)) continue
+        const csPath = "CS." + statement.module.replace(/\//g, ".")
+        let replacement
+
+        // Resolve type references ("List<int>") up front, so a bad one fails the build
+        const typeErrors = resolveTypeSpecifiers(statement, csPath, genericHelper)
+        if (typeErrors.length > 0) {
+            errors.push(...typeErrors)
+            continue
+        }
+        for (const specifier of statement.specifiers ?? []) {
+            if (specifier.quoted && specifier.imported.includes("<")) {
+                closedGenerics.push({ module: statement.module, name: specifier.imported })
+            }
+        }
+
+        if (statement.typeOnly) {
+            replacement = ""
+        } else if (statement.kind === "import") {
+            replacement = importReplacement(statement, csPath)
+        } else if (statement.star && !statement.namespace) {
+            errors.push({
+                text: `export * from "${statement.module}" can't be transformed: a C# namespace has no list of names to re-export. Export the types by name instead.`,
+                index: statement.start,
+            })
+            continue
+        } else {
+            replacement = reexportReplacement(statement, csPath, () => `__cs${localId++}`)
+        }
+
+        // Keep the line count, so later lines and error positions don't move
+        const lines = source.slice(statement.start, statement.end).split("\n").length - 1
+        replacements.push({ start: statement.start, end: statement.end, replacement: replacement + "\n".repeat(lines) })
+    }
+
+    let code = source
+    // Apply replacements in reverse order to maintain correct positions
+    for (let i = replacements.length - 1; i >= 0; i--) {
+        const { start, end, replacement } = replacements[i]
+        code = code.slice(0, start) + replacement + code.slice(end)
+    }
+    return { code, errors, closedGenerics }
+}
+
+/** `{ A, B as C }` as a destructuring pattern (`A, B: C`), type-only names and type references left out. */
+function destructure(specifiers) {
+    return specifiers
+        .filter((specifier) => !specifier.typeOnly && specifier.imported !== "default" && !specifier.expression)
+        .map(({ imported, local, quoted }) => {
+            const key = quoted ? JSON.stringify(imported) : imported
+            return key === local ? local : `${key}: ${local}`
+        })
+}
+
+function importReplacement(statement, csPath) {
+    // Handle: import "UnityEngine" (side-effect only, rare but valid)
+    if (statement.sideEffect) {
+        return `/* side-effect import of "${statement.module}" removed */`
+    }
+
+    const declarations = []
+    // Handle: import Default from "UnityEngine", import * as UE from "UnityEngine"
+    for (const name of [statement.defaultName, statement.namespace]) {
+        if (name) declarations.push(`const ${name} = ${csPath}`)
+    }
+    const named = statement.specifiers ?? []
+    for (const specifier of named) {
+        if (specifier.typeOnly) continue
+        if (specifier.imported === "default") {
+            declarations.push(`const ${specifier.local} = ${csPath}`)
+        } else if (specifier.expression) {
+            // Handle: import { "List<int>" as IntList } from "System.Collections.Generic"
+            declarations.push(`const ${specifier.local} = ${specifier.expression}`)
+        }
+    }
+    // Handle: import { A, B as C } from "UnityEngine"
+    const pattern = destructure(named)
+    if (pattern.length > 0) declarations.push(`const { ${pattern.join(", ")} } = ${csPath}`)
+    return declarations.join("; ")
+}
+
+function reexportReplacement(statement, csPath, nextLocal) {
+    // Handle: export * as UE from "UnityEngine"
+    if (statement.namespace) {
+        const local = nextLocal()
+        return `const ${local} = ${csPath}; export { ${local} as ${statement.namespace} }`
+    }
+
+    // Handle: export { A, B as C } from "UnityEngine"
+    const declarations = []
+    const exported = []
+    const pattern = []
+    for (const specifier of statement.specifiers) {
+        if (specifier.typeOnly) continue
+        const local = nextLocal()
+        const name = specifier.exportedQuoted ? JSON.stringify(specifier.local) : specifier.local
+        exported.push(`${local} as ${name}`)
+        if (specifier.imported === "default") {
+            declarations.push(`const ${local} = ${csPath}`)
+        } else if (specifier.expression) {
+            declarations.push(`const ${local} = ${specifier.expression}`)
+        } else {
+            pattern.push(`${specifier.quoted ? JSON.stringify(specifier.imported) : specifier.imported}: ${local}`)
+        }
+    }
+    if (pattern.length > 0) declarations.push(`const { ${pattern.join(", ")} } = ${csPath}`)
+    if (exported.length > 0) declarations.push(`export { ${exported.join(", ")} }`)
+    return declarations.join("; ")
+}
+
+// ============================================================================
+// C# type references
+// ============================================================================
+
+// A quoted specifier with any of these names a type, not a plain export
+const TYPE_REFERENCE = /[.+<>,[\]]/
+
+// C# keywords for System types
+const TYPE_KEYWORDS = {
+    bool: "Boolean",
+    byte: "Byte",
+    sbyte: "SByte",
+    char: "Char",
+    short: "Int16",
+    ushort: "UInt16",
+    int: "Int32",
+    uint: "UInt32",
+    long: "Int64",
+    ulong: "UInt64",
+    float: "Single",
+    double: "Double",
+    decimal: "Decimal",
+    string: "String",
+    object: "Object",
+}
+
+/**
+ * Resolve the quoted type-reference specifiers of a statement
+ * (`{ "ParticleSystem.MainModule" as MainModule, "List<int>" as IntList }`),
+ * setting each one's `expression`. Returns the build errors for the ones
+ * that can't be resolved.
+ */
+function resolveTypeSpecifiers(statement, csPath, genericHelper) {
+    const errors = []
+    for (const specifier of statement.specifiers ?? []) {
+        if (!specifier.quoted || specifier.typeOnly || !TYPE_REFERENCE.test(specifier.imported)) continue
+        const text = specifier.imported
+        if (!specifier.aliased) {
+            errors.push({
+                text: `"${text}" from "${statement.module}" needs a name to ${statement.kind} it as: { "${text}" as Name }`,
+                index: specifier.start,
+            })
+            continue
+        }
+        try {
+            specifier.expression = typeExpression(parseTypeReference(text), csPath, genericHelper)
+        } catch (error) {
+            errors.push({ text: `Can't ${statement.kind} "${text}" from "${statement.module}": ${error.message}`, index: specifier.start })
+        }
+    }
+    return errors
+}
+
+/**
+ * Parse `Dictionary<string, UnityEngine.GameObject>` or `ParticleSystem.MainModule`
+ * (`+` works as well as `.`) into `{ path: string[], args: Array<TypeReference> }`.
+ * Throws an Error explaining what's wrong with it.
+ */
+function parseTypeReference(text) {
+    const tokens = text.match(/[A-Za-z_][\w$]*|\S/g) ?? []
+    let i = 0
+
+    const parse = () => {
+        const path = []
+        for (;;) {
+            const name = tokens[i]
+            if (!name || !/^[A-Za-z_]/.test(name)) {
+                throw new Error(name ? `expected a type name, found "${name}"` : "expected a type name")
+            }
+            path.push(name)
+            i++
+            if (tokens[i] !== "." && tokens[i] !== "+") break
+            i++
+        }
+        const args = []
+        if (tokens[i] === "<") {
+            i++
+            for (;;) {
+                args.push(parse())
+                const separator = tokens[i++]
+                if (separator === ">") break
+                if (separator !== ",") throw new Error(separator ? `expected "," or ">", found "${separator}"` : `unclosed "<"`)
+            }
+            if (tokens[i] === "." || tokens[i] === "+") {
+                throw new Error("nested types of generic types are not supported")
+            }
+        }
+        if (tokens[i] === "[") throw new Error("arrays are not supported")
+        return { path, args }
+    }
+
+    const reference = parse()
+    if (i < tokens.length) throw new Error(`unexpected "${tokens[i]}"`)
+    return reference
+}
+
+/**
+ * The CS.* expression for a parsed type reference. The imported type is
+ * relative to the module's namespace; type arguments are C# keywords
+ * (`int`), full names (`UnityEngine.GameObject`), or names in the module's
+ * namespace.
+ */
+function typeExpression(reference, csPath, genericHelper, isArgument = false) {
+    const { path, args } = reference
+    let base
+    if (isArgument && path.length === 1 && TYPE_KEYWORDS[path[0]]) {
+        base = `CS.System.${TYPE_KEYWORDS[path[0]]}`
+    } else if (isArgument && path.length > 1) {
+        base = `CS.${path.join(".")}`
+    } else {
+        base = `${csPath}.${path.join(".")}`
+    }
+    if (args.length === 0) return base
+    if (!genericHelper) {
+        throw new Error("closed generic types need the genericHelper option, naming the runtime function that closes a generic type over its arguments")
+    }
+    const closed = args.map((arg) => typeExpression(arg, csPath, genericHelper, true))
+    return `${genericHelper}(${base}, ${closed.join(", ")})`
+}
+
+// ============================================================================
+// Scanner
+// ============================================================================
+
+// After these keywords a `/` starts a regex literal, not division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+    "return", "typeof", "instanceof", "in", "of", "new", "delete", "void",
+    "case", "do", "else", "yield", "await",
+])
+
+function regexAllowed(prev, lastWord) {
+    if (prev === "") return true
+    if (/[\w$]/.test(prev)) return REGEX_PRECEDING_KEYWORDS.has(lastWord)
+    return !")]}".includes(prev)
+}
+
+/**
+ * The top-level `import ... from "x"` and `export ... from "x"` statements
+ * of `source`, parsed: `{ kind, start, end, module, typeOnly, sideEffect,
+ * defaultName, namespace, star, specifiers }`.
+ */
+function findModuleStatements(source) {
+    const statements = []
+    scan(source, 0, false, (word, start) => {
+        const statement = word === "import" ? parseImport(source, start) : parseExport(source, start)
+        if (statement) statements.push(statement)
+        return statement?.end
+    })
+    return statements
+}
+
+/**
+ * Walk code from `start`, skipping comments, strings, template literals and
+ * regex literals. At nesting depth 0, calls `onKeyword(word, start)` for each
+ * `import` / `export` keyword; a returned index resumes the walk there. With
+ * `stopAtBrace` (a template `${...}`), returns the index of the closing `}`.
+ */
+function scan(source, start, stopAtBrace, onKeyword) {
+    let i = start
+    let depth = 0
+    let prev = ""
+    let lastWord = ""
+    while (i < source.length) {
+        const ch = source[i]
+        const next = source[i + 1]
+        if (ch === "/" && next === "/") {
+            const nl = source.indexOf("\n", i + 2)
+            i = nl === -1 ? source.length : nl + 1
+            continue
+        }
+        if (ch === "/" && next === "*") {
+            const close = source.indexOf("*/", i + 2)
+            i = close === -1 ? source.length : close + 2
+            continue
+        }
+        if (ch === '"' || ch === "'") {
+            i = skipString(source, i)
+            prev = ")"
+            continue
+        }
+        if (ch === "`") {
+            i = skipTemplate(source, i)
+            prev = ")"
+            continue
+        }
+        if (ch === "/" && regexAllowed(prev, lastWord)) {
+            const end = skipRegex(source, i)
+            if (end !== -1) {
+                i = end
+                prev = ")"
+                continue
+            }
+        }
+        if (/[A-Za-z_$]/.test(ch) && !/[\w$]/.test(source[i - 1] || "")) {
+            const word = source.slice(i).match(/^[\w$]+/)[0]
+            if (onKeyword && depth === 0 && prev !== "." && (word === "import" || word === "export")) {
+                const resume = onKeyword(word, i)
+                if (resume !== undefined) {
+                    i = resume
+                    prev = ";"
+                    continue
+                }
+            }
+            i += word.length
+            prev = word[word.length - 1]
+            lastWord = word
+            continue
+        }
+        if (ch === "{" || ch === "(" || ch === "[") depth++
+        else if (ch === "}" || ch === ")" || ch === "]") {
+            if (ch === "}" && stopAtBrace && depth === 0) return i
+            depth--
+        }
+        if (!/\s/.test(ch)) prev = ch
+        i++
+    }
+    return i
+}
+
+/** Index after a quoted string (or the end of its line, for a stray quote). */
+function skipString(source, start) {
+    const quote = source[start]
+    for (let i = start + 1; i < source.length; i++) {
+        if (source[i] === "\\") { i++; continue }
+        if (source[i] === quote) return i + 1
+        if (source[i] === "\n") return i
+    }
+    return source.length
+}
+
+/** Index after a template literal, its `${...}` expressions scanned as code. */
+function skipTemplate(source, start) {
+    let i = start + 1
+    while (i < source.length) {
+        const ch = source[i]
+        if (ch === "\\") { i += 2; continue }
+        if (ch === "`") return i + 1
+        if (ch === "$" && source[i + 1] === "{") {
+            i = scan(source, i + 2, true, null) + 1
+            continue
+        }
+        i++
+    }
+    return i
+}
+
+/** Index after a regex literal and its flags, or -1 if the line ends first. */
+function skipRegex(source, start) {
+    let i = start + 1
+    let inClass = false
+    while (i < source.length) {
+        const ch = source[i]
+        if (ch === "\\") { i += 2; continue }
+        if (ch === "\n") return -1
+        if (ch === "[") inClass = true
+        else if (ch === "]") inClass = false
+        else if (ch === "/" && !inClass) {
+            i++
+            while (i < source.length && /[a-z]/i.test(source[i])) i++
+            return i
+        }
+        i++
+    }
+    return -1
+}
+
+// ============================================================================
+// Statement parser
+// ============================================================================
+
+/**
+ * A cursor over the tokens of a statement: words, strings and punctuation,
+ * with whitespace and comments skipped.
+ */
+function tokenizer(source, start) {
+    let i = start
+    const read = () => {
+        while (i < source.length) {
+            if (/\s/.test(source[i])) i++
+            else if (source.startsWith("//", i)) i = (source.indexOf("\n", i) + 1) || source.length
+            else if (source.startsWith("/*", i)) i = (source.indexOf("*/", i + 2) + 2) || source.length
+            else break
+        }
+        if (i >= source.length) return null
+        const tokenStart = i
+        const ch = source[i]
+        if (ch === '"' || ch === "'") {
+            i = skipString(source, i)
+            return { type: "string", value: source.slice(tokenStart + 1, i - 1), start: tokenStart, end: i }
+        }
+        const word = source.slice(i).match(/^[\w$]+/)
+        if (word) {
+            i += word[0].length
+            return { type: "word", value: word[0], start: tokenStart, end: i }
+        }
+        i++
+        return { type: "punct", value: ch, start: tokenStart, end: i }
+    }
+    return {
+        next: read,
+        peek: () => {
+            const saved = i
+            const token = read()
+            i = saved
+            return token
+        },
+    }
+}
+
+/** `{ A, type B, C as D, "e-f" as g }`, after the `{`. Null on anything else. */
+function parseSpecifiers(tokens) {
+    const specifiers = []
+    for (;;) {
+        let token = tokens.next()
+        if (token?.value === "}") return specifiers
+        let typeOnly = false
+        if (token?.value === "type" && tokens.peek()?.value !== "," && tokens.peek()?.value !== "}" && tokens.peek()?.value !== "as") {
+            typeOnly = true
+            token = tokens.next()
+        }
+        if (!token || (token.type !== "word" && token.type !== "string")) return null
+        const specifier = { imported: token.value, local: token.value, quoted: token.type === "string", typeOnly, start: token.start }
+        if (tokens.peek()?.value === "as") {
+            tokens.next()
+            const alias = tokens.next()
+            if (!alias || (alias.type !== "word" && alias.type !== "string")) return null
+            specifier.local = alias.value
+            specifier.aliased = true
+            specifier.exportedQuoted = alias.type === "string"
+        }
+        specifiers.push(specifier)
+        const separator = tokens.next()
+        if (separator?.value === "}") return specifiers
+        if (separator?.value !== ",") return null
+    }
+}
+
+/** `from "module"` and an optional `;`. Returns the module and statement end, or null. */
+function parseFrom(tokens, source) {
+    if (tokens.next()?.value !== "from") return null
+    const module = tokens.next()
+    if (module?.type !== "string") return null
+    // Import attributes (`with { type: "json" }`) are left to esbuild. On a
+    // later line, `assert(...)` is the next statement instead.
+    const next = tokens.peek()
+    if (next && ["with", "assert"].includes(next.value) && !source.slice(module.end, next.start).includes("\n")) return null
+    let end = module.end
+    if (tokens.peek()?.value === ";") end = tokens.next().end
+    return { module: module.value, end }
+}
+
+function parseImport(source, start) {
+    const tokens = tokenizer(source, start + "import".length)
+    const statement = { kind: "import", start, typeOnly: false }
+    let token = tokens.next()
+
+    // import "UnityEngine"
+    if (token?.type === "string") {
+        let end = token.end
+        if (tokens.peek()?.value === ";") end = tokens.next().end
+        return { ...statement, module: token.value, sideEffect: true, end }
+    }
+
+    // import type { A } from ..., but not `import type from ...` (a default named "type")
+    if (token?.value === "type" && tokens.peek()?.value !== "from" && tokens.peek()?.value !== ",") {
+        statement.typeOnly = true
+        token = tokens.next()
+    }
+
+    if (token?.type === "word" && token.value !== "from") {
+        statement.defaultName = token.value
+        if (tokens.peek()?.value !== ",") {
+            const from = parseFrom(tokens, source)
+            return from && { ...statement, ...from }
+        }
+        tokens.next()
+        token = tokens.next()
+    }
+
+    if (token?.value === "*") {
+        if (tokens.next()?.value !== "as") return null
+        const name = tokens.next()
+        if (name?.type !== "word") return null
+        statement.namespace = name.value
+    } else if (token?.value === "{") {
+        statement.specifiers = parseSpecifiers(tokens)
+        if (!statement.specifiers) return null
+    } else {
+        return null
+    }
+
+    const from = parseFrom(tokens, source)
+    return from && { ...statement, ...from }
+}
+
+function parseExport(source, start) {
+    const tokens = tokenizer(source, start + "export".length)
+    const statement = { kind: "export", start, typeOnly: false }
+    let token = tokens.next()
+
+    if (token?.value === "type" && ["{", "*"].includes(tokens.peek()?.value)) {
+        statement.typeOnly = true
+        token = tokens.next()
+    }
+
+    if (token?.value === "*") {
+        statement.star = true
+        if (tokens.peek()?.value === "as") {
+            tokens.next()
+            const name = tokens.next()
+            if (name?.type !== "word") return null
+            statement.namespace = name.value
+        }
+    } else if (token?.value === "{") {
+        statement.specifiers = parseSpecifiers(tokens)
+        if (!statement.specifiers) return null
+    } else {
+        // export const / function / default ...: not a re-export
+        return null
+    }
+
+    // export { a, b } without `from` exports locals
+    const from = parseFrom(tokens, source)
+    return from && { ...statement, ...from }
+}
+
 // Aliases for compatibility
 export const importTransformation = importTransformPlugin
 export const importTransform = importTransformPlugin
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest"
+import * as esbuild from "esbuild"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { fileURLToPath } from "url"
+import { importTransformPlugin, transformImports } from "./import-transform.mjs"
+
+// ============================================================================
+// Forms: source in, transformed source out
+// ============================================================================
+
+// [description, source, expected]
+const FORMS: Array<[string, string, string]> = [
+    ["named", `import { Texture2D, Material } from "UnityEngine"`, `const { Texture2D, Material } = CS.UnityEngine`],
+    ["aliased", `import { Vector3 as V3, Color } from "UnityEngine";`, `const { Vector3: V3, Color } = CS.UnityEngine`],
+    ["nested namespace", `import { List } from "System.Collections.Generic"`, `const { List } = CS.System.Collections.Generic`],
+    ["slash-separated namespace", `import { Image } from "UnityEngine/UI"`, `const { Image } = CS.UnityEngine.UI`],
+    ["default", `import UE from "UnityEngine"`, `const UE = CS.UnityEngine`],
+    ["namespace", `import * as UE from "UnityEngine"`, `const UE = CS.UnityEngine`],
+    ["default and named", `import UE, { Debug } from "UnityEngine"`, `const UE = CS.UnityEngine; const { Debug } = CS.UnityEngine`],
+    ["default and namespace", `import UE, * as All from "UnityEngine"`, `const UE = CS.UnityEngine; const All = CS.UnityEngine`],
+    ["default as named", `import { default as UE } from "UnityEngine"`, `const UE = CS.UnityEngine`],
+    ["side effect", `import "UnityEngine"`, `/* side-effect import of "UnityEngine" removed */`],
+    ["type-only", `import type { Transform } from "UnityEngine"`, ``],
+    ["inline type specifiers", `import { type Transform, GameObject } from "UnityEngine"`, `const { GameObject } = CS.UnityEngine`],
+    ["only type specifiers", `import { type Transform } from "UnityEngine"`, ``],
+    ["default named type", `import type from "UnityEngine"`, `const type = CS.UnityEngine`],
+    ["multi-line", `import {\n    GameObject,\n    Vector3, // position\n} from "UnityEngine"\nGameObject`, `const { GameObject, Vector3 } = CS.UnityEngine\n\n\n\nGameObject`],
+    ["re-export", `export { Color } from "UnityEngine"`, `const { Color: __cs0 } = CS.UnityEngine; export { __cs0 as Color }`],
+    ["aliased re-export", `export { Vector3 as V3, type Transform } from "UnityEngine"`, `const { Vector3: __cs0 } = CS.UnityEngine; export { __cs0 as V3 }`],
+    ["type-only re-export", `export type { Transform } from "UnityEngine"`, ``],
+    ["namespace re-export", `export * as UE from "UnityEngine"`, `const __cs0 = CS.UnityEngine; export { __cs0 as UE }`],
+    ["nested type", `import { "ParticleSystem.MainModule" as MainModule } from "UnityEngine"`, `const MainModule = CS.UnityEngine.ParticleSystem.MainModule`],
+    ["nested type with +", `import { "ParticleSystem+MainModule" as MainModule } from "UnityEngine"`, `const MainModule = CS.UnityEngine.ParticleSystem.MainModule`],
+    ["type-only generic", `import { type "List<int>" as IntList, GameObject } from "UnityEngine"`, `const { GameObject } = CS.UnityEngine`],
+    ["quoted export names", `import { "a-b" as ab } from "UnityEngine"`, `const { "a-b": ab } = CS.UnityEngine`],
+
+    // Left alone
+    ["JS modules", `import { useState } from "react"\nexport { x } from "./x"`, `import { useState } from "react"\nexport { x } from "./x"`],
+    ["local exports", `const A = 1\nexport { A }\nexport const B = 2`, `const A = 1\nexport { A }\nexport const B = 2`],
+    ["line comments", `// import { A } from "UnityEngine"`, `// import { A } from "UnityEngine"`],
+    ["block comments", `/* export { A } from "UnityEngine" */`, `/* export { A } from "UnityEngine" */`],
+    ["strings", `const s = 'import { A } from "UnityEngine"'`, `const s = 'import { A } from "UnityEngine"'`],
+    ["templates", "const s = `import { A } from \"UnityEngine\" ${'x'}`", "const s = `import { A } from \"UnityEngine\" ${'x'}`"],
+    ["regex literals", `const r = /import { A } from "UnityEngine"/`, `const r = /import { A } from "UnityEngine"/`],
+    ["dynamic import", `const m = import("UnityEngine")`, `const m = import("UnityEngine")`],
+    ["import attributes", `import data from "Data.json" with { type: "json" }`, `import data from "Data.json" with { type: "json" }`],
+]
+
+// [description, source, expected] with genericHelper: "makeGeneric"
+const GENERIC_FORMS: Array<[string, string, string]> = [
+    ["closed generic", `import { "List<int>" as IntList } from "System.Collections.Generic"`, `const IntList = makeGeneric(CS.System.Collections.Generic.List, CS.System.Int32)`],
+    ["generic arguments", `import { "Dictionary<string, List<UnityEngine.GameObject>>" as Lookup } from "System.Collections.Generic"`, `const Lookup = makeGeneric(CS.System.Collections.Generic.Dictionary, CS.System.String, makeGeneric(CS.System.Collections.Generic.List, CS.UnityEngine.GameObject))`],
+    ["generic argument in the namespace", `import { "UQueryState<VisualElement>" as Query } from "UnityEngine.UIElements"`, `const Query = makeGeneric(CS.UnityEngine.UIElements.UQueryState, CS.UnityEngine.UIElements.VisualElement)`],
+    ["generic with type names", `import { GameObject, "List<int>" as IntList } from "UnityEngine"`, `const IntList = makeGeneric(CS.UnityEngine.List, CS.System.Int32); const { GameObject } = CS.UnityEngine`],
+    ["generic re-export", `export { "List<float>" as FloatList } from "System.Collections.Generic"`, `const __cs0 = makeGeneric(CS.System.Collections.Generic.List, CS.System.Single); export { __cs0 as FloatList }`],
+]
+
+describe("transformImports", () => {
+    it.each(FORMS)("%s", (_, source, expected) => {
+        const { code, errors } = transformImports(source)
+        expect(errors).toEqual([])
+        expect(code).toBe(expected)
+    })
+
+    it.each(GENERIC_FORMS)("%s", (_, source, expected) => {
+        const { code, errors } = transformImports(source, { genericHelper: "makeGeneric" })
+        expect(errors).toEqual([])
+        expect(code).toBe(expected)
+    })
+
+    it("keeps line numbers after a statement", () => {
+        const source = `import {\n    A,\n} from "UnityEngine"\nconst x = 1\n`
+        expect(transformImports(source).code.split("\n")[3]).toBe("const x = 1")
+    })
+
+    it("reports export * from a C# namespace", () => {
+        const { errors } = transformImports(`const a = 1\nexport * from "UnityEngine"`)
+        expect(errors).toEqual([{
+            text: `export * from "UnityEngine" can't be transformed: a C# namespace has no list of names to re-export. Export the types by name instead.`,
+            index: 12,
+        }])
+    })
+
+    it.each([
+        [`"List<int"`, `Can't import "List<int" from "System.Collections.Generic": unclosed "<"`],
+        [`"List<>"`, `Can't import "List<>" from "System.Collections.Generic": expected a type name, found ">"`],
+        [`"List<int>>"`, `Can't import "List<int>>" from "System.Collections.Generic": unexpected ">"`],
+        [`"List<int int>"`, `Can't import "List<int int>" from "System.Collections.Generic": expected "," or ">", found "int"`],
+        [`"List<int[]>"`, `Can't import "List<int[]>" from "System.Collections.Generic": arrays are not supported`],
+        [`"List<int>.Enumerator"`, `Can't import "List<int>.Enumerator" from "System.Collections.Generic": nested types of generic types are not supported`],
+    ])("reports the type reference %s", (reference, text) => {
+        const { code, errors } = transformImports(`import { ${reference} as T } from "System.Collections.Generic"`)
+        expect(errors).toEqual([{ text, index: 9 }])
+        expect(code).toContain("import {")
+    })
+
+    it("reports a type reference without a name", () => {
+        const { errors } = transformImports(`export { "List<int>" } from "System.Collections.Generic"`)
+        expect(errors).toEqual([{
+            text: `"List<int>" from "System.Collections.Generic" needs a name to export it as: { "List<int>" as Name }`,
+            index: 9,
+        }])
+    })
+
+    it("reports a closed generic without a genericHelper", () => {
+        const { errors } = transformImports(`import { List, "List<int>" as IntList } from "System.Collections.Generic"`)
+        expect(errors).toEqual([{
+            text: `Can't import "List<int>" from "System.Collections.Generic": closed generic types need the genericHelper option, naming the runtime function that closes a generic type over its arguments`,
+            index: 15,
+        }])
+    })
+
+    it("honours a custom filter", () => {
+        const { code } = transformImports(`import { A } from "unity-lib"\nimport { B } from "UnityEngine"`, {
+            filter: (name: string) => name === "unity-lib",
+        })
+        expect(code).toBe(`const { A } = CS.unity-lib\nimport { B } from "UnityEngine"`)
+    })
+})
+
+// ============================================================================
+// Bundling
+// ============================================================================
+
+describe("importTransformPlugin", () => {
+    it("bundles the fixture into working CS.* access", async () => {
+        const result = await esbuild.build({
+            entryPoints: [fileURLToPath(new URL("./fixtures/imports.ts", import.meta.url))],
+            bundle: true,
+            write: false,
+            format: "cjs",
+            logLevel: "silent",
+            plugins: [importTransformPlugin({ genericHelper: "makeGeneric" })],
+        })
+
+        const CS = {
+            UnityEngine: {
+                GameObject: "GameObject", Vector3: "Vector3", Mathf: "Mathf", Debug: "Debug",
+                Color: "Color", Quaternion: "Quaternion", UIElements: {}, ParticleSystem: { MainModule: "MainModule" },
+            },
+            System: {
+                Collections: { Generic: { List: "List", Dictionary: "Dictionary" } },
+                IO: { File: "File" },
+                Int32: "Int32",
+            },
+        }
+        const makeGeneric = (definition: string, ...args: string[]) => `${definition}<${args.join(", ")}>`
+        const module = { exports: {} as Record<string, any> }
+        new Function("CS", "makeGeneric", "module", "exports", result.outputFiles![0].text)(CS, makeGeneric, module, module.exports)
+
+        const { result: values, Color, Rotation, IO } = module.exports
+        expect(values).toEqual({
+            gameObject: "GameObject",
+            v3: "Vector3",
+            mathf: "Mathf",
+            list: "List",
+            dict: "Dictionary",
+            intList: "List<Int32>",
+            mainModule: "MainModule",
+            hasUE: true,
+            hasDefault: true,
+            debug: "Debug",
+            helper: "helper",
+            text: `import { InTemplate } from "UnityEngine" export { InExpression } from "UnityEngine"`,
+            pattern: `import { InRegex } from "UnityEngine"`,
+            dynamic: "object",
+        })
+        expect([Color, Rotation, IO]).toEqual(["Color", "Quaternion", CS.System.IO])
+    })
+
+    it("fails the build on a closed generic without a genericHelper", async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-import-transform-test-"))
+        try {
+            fs.writeFileSync(path.join(root, "index.ts"), `import { "List<int>" as IntList } from "System.Collections.Generic"\nexport { IntList }\n`)
+            const build = esbuild.build({
+                absWorkingDir: root,
+                entryPoints: ["index.ts"],
+                bundle: true,
+                write: false,
+                logLevel: "silent",
+                plugins: [importTransformPlugin()],
+            })
+            await expect(build).rejects.toThrow(/index.ts:1:9: ERROR: .*Can't import "List<int>" .*need the genericHelper option/)
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true })
+        }
+    })
+
+    it("fails the build on export * from a C# namespace", async () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-import-transform-test-"))
+        try {
+            fs.writeFileSync(path.join(root, "index.ts"), `const a = 1\nexport * from "UnityEngine"\n`)
+            const build = esbuild.build({
+                absWorkingDir: root,
+                entryPoints: ["index.ts"],
+                bundle: true,
+                write: false,
+                logLevel: "silent",
+                plugins: [importTransformPlugin()],
+            })
+            await expect(build).rejects.toThrow(/index.ts:2:0: ERROR: .*export \* from "UnityEngine" can't be transformed/)
+        } finally {
+            fs.rmSync(root, { recursive: true, force: true })
+        }
+    })
+})
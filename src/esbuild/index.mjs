@@ -18,4 +18,5 @@ import { setFsProvider } from "../fs-provider.mjs"
 setFsProvider(nodeFs)
 
 export { setFsProvider, getFsProvider, getFs } from "../fs-provider.mjs"
-export { importTransformPlugin, importTransformation, importTransform } from "./import-transform.mjs"
+export { importTransformPlugin, importTransformation, importTransform, transformImports } from "./import-transform.mjs"
+export { generateCsDeclarations } from "./cs-types.mjs"
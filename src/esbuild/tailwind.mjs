@@ -10,20 +10,55 @@
  * No external tailwindcss dependency required.
  */
 
-import { generateFromFiles } from "../tailwind/generator.mjs"
+import path from "node:path"
+import { generateFromFiles, ESCAPE_MAP } from "../tailwind/generator.mjs"
+import { loadConfig } from "../tailwind/user-config.mjs"
+import { generateClassTypes } from "../tailwind/class-types.mjs"
+import { collectGradientStops } from "../tailwind/gradients.mjs"
+import { buildProvenanceMap } from "../tailwind/provenance.mjs"
+import { diagnoseClasses, diagnosticsToWarnings } from "../tailwind/diagnostics.mjs"
+import { getFs, writeIfChanged } from "../fs-provider.mjs"
+import { findThemeModules } from "./themes.mjs"
+
+const DEFAULT_CONTENT = ["./index.tsx", "./**/*.{tsx,ts,jsx,js}"]
+const DEFAULT_TYPES_FILE = "onejs-tailwind.d.ts"
+const DEFAULT_PROVENANCE_FILE = "tailwind.provenance.json"
 
 /**
  * Create the Tailwind esbuild plugin
  *
+ * A tailwind.config.{js,mjs,cjs} in the working directory is picked up
+ * automatically: its `theme` (and `theme.extend`) feeds the generated
+ * utilities, and its `content` / `safelist` are used when the plugin options
+ * don't set them.
+ *
+ * Unless `generateTypes` is false, a .d.ts declaring the module is written
+ * as well: `import { tw } from "onejs:tailwind"` gives a class-name joiner
+ * whose literal arguments are checked against the known utilities.
+ *
+ * In watch mode the scanned files and directories are watched, and each
+ * file's extracted classes are cached by content hash, so a rebuild only
+ * re-reads what changed.
+ *
  * @param {Object} options
- * @param {string[]} options.content: Content patterns to scan for classes
+ * @param {string[]} [options.content]: Content globs to scan for classes; `!` excludes
+ * @param {string[]} [options.ignore]: Globs to exclude from the content scan
+ * @param {string[]} [options.packages]: node_modules packages whose sources are scanned too (e.g. a shared UI kit)
  * @param {string[]} [options.safelist]: Class names to always include (for dynamic/variable classes)
+ * @param {Object|string|false} [options.config]: Inline config object, path to a config file, or false to ignore any config file
+ * @param {string} [options.prefix]: Prefix utilities are written with (`tw-` for `tw-p-4`), overriding the config file's
+ * @param {boolean} [options.generateTypes]: Whether to write a .d.ts of the known classes and `tw()` (default: true)
+ * @param {string} [options.typesFile]: Where to write it, relative to the working directory (default: "onejs-tailwind.d.ts")
+ * @param {boolean} [options.provenance]: Comment every generated rule with its class and source lines, and write a sidecar JSON mapping selectors to them (default: false)
+ * @param {string} [options.provenanceFile]: Where to write the sidecar, relative to the working directory (default: "tailwind.provenance.json" next to the bundle)
+ * @param {boolean} [options.diagnostics]: Warn, with file and line, about classes that look like Tailwind but generated nothing (default: false)
+ * @param {string[]|Object|false} [options.themes]: Theme variants (`kawaii:`). Default: one per *Theme.ts module under @cartridges/, as registered by themesPlugin
  */
 export function tailwindPlugin(options = {}) {
-    const {
-        content = ["./index.tsx", "./**/*.{tsx,ts,jsx,js}"],
-        safelist = [],
-    } = options
+    const { generateTypes = true, typesFile = DEFAULT_TYPES_FILE } = options
+
+    // Extracted candidates per file, kept across watch rebuilds
+    const scanCache = new Map()
 
     return {
         name: "tailwind-uss",
@@ -40,12 +75,40 @@ export function tailwindPlugin(options = {}) {
             // Generate USS for the virtual module
             build.onLoad({ filter: /.*/, namespace: "onejs-tailwind" }, async () => {
                 try {
-                    // Scan source files and generate USS
+                    const cwd = build.initialOptions.absWorkingDir || process.cwd()
+                    const { config: resolved, file, userConfig } = await loadTailwindConfig(options, cwd)
+                    const typesPath = path.resolve(cwd, typesFile)
+
+                    const content = options.content
+                        ?? (isStringArray(userConfig.content) ? userConfig.content : DEFAULT_CONTENT)
+                    const safelist = options.safelist
+                        ?? (isStringArray(userConfig.safelist) ? userConfig.safelist : [])
+
+                    // Scan source files (only changed ones are re-extracted) and generate USS
+                    let scan
+                    const rules = []
                     const ussContent = await generateFromFiles(content, {
                         includeReset: true,
                         safelist,
+                        config: resolved,
+                        cwd,
+                        // The generated .d.ts lists every utility: scanning it would generate them all
+                        ignore: generateTypes
+                            ? [...(options.ignore ?? []), path.relative(cwd, typesPath).split(path.sep).join("/")]
+                            : options.ignore,
+                        packages: options.packages,
+                        cache: scanCache,
+                        onScan: (result) => { scan = result },
+                        provenance: options.provenance,
+                        ...(options.provenance && { onRule: (rule) => rules.push(rule) }),
+                        // Diagnostics report unsupported classes with their locations instead
+                        ...(options.diagnostics && { onUnsupported: null }),
                     })
 
+                    const warnings = options.diagnostics
+                        ? await diagnosticsToWarnings(diagnoseClasses(scan.classNames, resolved), scan.files, scanCache)
+                        : []
+
                     // Escape USS for JavaScript string embedding
                     const escapedUss = ussContent
                         .replace(/\\/g, "\\\\")
@@ -59,14 +122,58 @@ export function tailwindPlugin(options = {}) {
 const css = \`${escapedUss}\`
 compileStyleSheet(css, "tailwind.uss")
 
+// The theme's tables, for applyBreakpoints and observeContainer (onejs-unity/uss)
+export const breakpoints = ${JSON.stringify(resolved.theme.breakpoints)}
+export const containers = ${JSON.stringify(resolved.theme.containers)}
+
+// Colors of the gradient stop classes in use, for startGradients
+export const gradientStops = ${JSON.stringify(collectGradientStops(scan.classNames, resolved))}
+
+// tw() returns class names escaped the way the USS rules are. The JSX
+// runtime's className escaping predates "!" (important) and "@" (container
+// variants), so those classes only match when written through tw()
+const escapes = ${JSON.stringify(ESCAPE_MAP)}
+
+function escapeClass(name) {
+    const escaped = Array.from(name, (char) => escapes[char] ?? char).join("")
+    return /^[0-9]/.test(escaped) ? "_" + escaped : escaped
+}
+
+export function tw(...classes) {
+    return classes
+        .filter(Boolean)
+        .flatMap((list) => list.split(/\\s+/))
+        .filter(Boolean)
+        .map(escapeClass)
+        .join(" ")
+}
+
 export default css
 `
 
-                    console.log(`[tailwind-uss] Generated ${ussContent.split("\n").length} lines`)
+                    if (generateTypes) {
+                        await writeIfChanged(typesPath, generateClassTypes(resolved))
+                    }
+
+                    if (options.provenance) {
+                        const provenancePath = path.resolve(cwd, options.provenanceFile ?? defaultProvenanceFile(build.initialOptions))
+                        getFs().mkdirSync(path.dirname(provenancePath), { recursive: true })
+                        await writeIfChanged(provenancePath, JSON.stringify(buildProvenanceMap(rules, scan.sources), null, 2) + "\n")
+                    }
+
+                    console.log(
+                        `[tailwind-uss] Generated ${ussContent.split("\n").length} lines ` +
+                        `(${scan.scanned} files scanned, ${scan.reused} reused)`,
+                    )
 
                     return {
                         contents: jsContent,
                         loader: "js",
+                        // Source and theme edits, and files added to scanned
+                        // directories, must regenerate the USS in watch mode
+                        watchFiles: file ? [...scan.files, file] : scan.files,
+                        watchDirs: scan.dirs,
+                        warnings,
                     }
                 } catch (error) {
                     console.error(`[tailwind-uss] Error:`, error.message)
@@ -79,4 +186,52 @@ export default css
     }
 }
 
+/**
+ * Load the Tailwind config for a build the way tailwindPlugin does: the
+ * `config` option (or a discovered tailwind.config.js), with theme variants
+ * from the `themes` option or the extracted cartridges. Shared with
+ * ussModulesPlugin so `@apply` in .module.uss files sees the same theme.
+ *
+ * @param {Object} options `config`, `themes` and `prefix`, as for tailwindPlugin
+ * @param {string} cwd Working directory of the build
+ */
+export async function loadTailwindConfig(options, cwd) {
+    return loadConfig(options.config, cwd, (found) => ({
+        themes: options.themes ?? mergeThemes(found.themes, cartridgeThemeNames(cwd)),
+        ...(options.prefix !== undefined && { prefix: options.prefix }),
+    }))
+}
+
+/**
+ * Theme variant names for the cartridge themes themesPlugin registers:
+ * `@cartridges/@singtaa/kawaii/kawaiiTheme.ts` gives `kawaii`.
+ */
+function cartridgeThemeNames(cwd) {
+    const { files } = findThemeModules(path.resolve(cwd, "@cartridges"))
+    return files
+        .map((file) => path.basename(file).replace(/Theme\.(ts|tsx)$/, ""))
+        .filter((name) => /^[a-zA-Z][\w-]*$/.test(name))
+}
+
+/** Config-file themes (array or name → class object) plus discovered names. */
+function mergeThemes(configured, discovered) {
+    const merged = Object.fromEntries(discovered.map((name) => [name, name]))
+    if (Array.isArray(configured)) {
+        for (const name of configured) merged[name] = name
+    } else if (configured && typeof configured === "object") {
+        Object.assign(merged, configured)
+    }
+    return merged
+}
+
+/** The sidecar goes next to the bundle: in `outdir`, or beside `outfile`. */
+function defaultProvenanceFile({ outdir, outfile }) {
+    const dir = outdir ?? (outfile ? path.dirname(outfile) : ".")
+    return path.join(dir, DEFAULT_PROVENANCE_FILE)
+}
+
+function isStringArray(value) {
+    return Array.isArray(value) && value.every((v) => typeof v === "string")
+}
+
 export default tailwindPlugin
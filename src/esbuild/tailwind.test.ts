@@ -0,0 +1,230 @@
+import { describe, it, expect, afterEach } from "vitest"
+import * as esbuild from "esbuild"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { tailwindPlugin } from "./tailwind.mjs"
+
+const tmpDirs: string[] = []
+
+function makeApp(structure: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-tailwind-test-"))
+    tmpDirs.push(root)
+    for (const [rel, content] of Object.entries(structure)) {
+        const full = path.join(root, rel)
+        fs.mkdirSync(path.dirname(full), { recursive: true })
+        fs.writeFileSync(full, content)
+    }
+    return root
+}
+
+afterEach(() => {
+    while (tmpDirs.length) fs.rmSync(tmpDirs.pop()!, { recursive: true, force: true })
+})
+
+async function buildApp(root: string, options: Record<string, unknown> = {}) {
+    return esbuild.build({
+        absWorkingDir: root,
+        entryPoints: ["index.tsx"],
+        bundle: true,
+        write: false,
+        logLevel: "silent",
+        plugins: [tailwindPlugin(options)],
+    })
+}
+
+// ============================================================================
+// tailwindPlugin (real esbuild build)
+// ============================================================================
+
+describe("tailwindPlugin config", () => {
+    it("discovers tailwind.config.js and generates its brand colors and screens", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nexport const c = "bg-brand-500 tablet:p-4"`,
+            "tailwind.config.js": `module.exports = {
+                theme: { extend: { colors: { brand: { 500: "#ff0066" } }, screens: { tablet: "900px" } } },
+            }`,
+        })
+
+        const result = await buildApp(root)
+        const code = result.outputFiles[0].text
+        expect(code).toContain("background-color: #ff0066")
+        expect(code).toContain(".tablet .tablet_c_p-4")
+    })
+
+    it("exports the resolved breakpoints for the runtime", async () => {
+        const root = makeApp({
+            "index.tsx": `import { breakpoints } from "onejs:tailwind"\nexport { breakpoints }`,
+            "tailwind.config.js": `module.exports = { theme: { extend: { screens: { tablet: "900px" } } } }`,
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).toContain(`breakpoints = { "sm": 640, "md": 768, "tablet": 900, "lg": 1024`)
+    })
+
+    it("exports the colors of the gradient stops in use", async () => {
+        const root = makeApp({
+            "index.tsx": `import { gradientStops } from "onejs:tailwind"\nexport { gradientStops }\nexport const c = "bg-gradient-to-r from-red-500 to-blue-500/50"`,
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).toContain(`gradientStops = { "from-red-500": "#ef4444ff", "to-blue-500/50": "#3b82f680" }`)
+    })
+
+    it("takes content and safelist from the config when the options omit them", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"`,
+            "ui/panel.tsx": `export const c = "p-4"`,
+            "tailwind.config.mjs": `export default { content: ["./ui/**/*.tsx"], safelist: ["m-2"] }`,
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).toContain(".p-4")
+        expect(code).toContain(".m-2")
+    })
+
+    it("prefers an inline config object and can ignore the config file", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nexport const c = "bg-brand"`,
+            "tailwind.config.js": `module.exports = { theme: { extend: { colors: { brand: "#111111" } } } }`,
+        })
+
+        const inline = await buildApp(root, { config: { theme: { extend: { colors: { brand: "#222222" } } } } })
+        expect(inline.outputFiles[0].text).toContain("#222222")
+
+        const ignored = await buildApp(root, { config: false })
+        expect(ignored.outputFiles[0].text).not.toContain(".bg-brand")
+    })
+})
+
+describe("tailwindPlugin theme variants", () => {
+    it("turns each extracted cartridge theme into a variant", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nexport const c = "kawaii:bg-pink-300 pixel:p-2"`,
+            "@cartridges/@singtaa/kawaii/kawaiiTheme.ts": "",
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).toContain(".kawaii .kawaii_c_bg-pink-300")
+        expect(code).not.toContain(".pixel .pixel_c_p-2")
+    })
+
+    it("uses explicit themes instead of the cartridges", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nexport const c = "kawaii:p-2 pixel:p-2"`,
+            "@cartridges/@singtaa/kawaii/kawaiiTheme.ts": "",
+        })
+
+        const code = (await buildApp(root, { themes: ["pixel"] })).outputFiles[0].text
+        expect(code).toContain(".pixel .pixel_c_p-2")
+        expect(code).toContain(".kawaii_c_p-2:kawaii")
+    })
+})
+
+describe("tailwindPlugin provenance", () => {
+    it("comments rules and writes the sidecar next to the bundle", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nexport const c = "md:p-4"`,
+        })
+
+        const result = await esbuild.build({
+            absWorkingDir: root,
+            entryPoints: ["index.tsx"],
+            bundle: true,
+            write: false,
+            outfile: "dist/app.js",
+            logLevel: "silent",
+            plugins: [tailwindPlugin({ provenance: true })],
+        })
+        expect(result.outputFiles[0].text).toContain("/* md:p-4 <- index.tsx:2 */")
+
+        const map = JSON.parse(fs.readFileSync(path.join(root, "dist/tailwind.provenance.json"), "utf8"))
+        expect(map.rules[".md .md_c_p-4"]).toEqual({
+            className: "md:p-4",
+            sources: [{ file: "index.tsx", line: 2, column: 18 }],
+        })
+    })
+
+    it("writes nothing by default", async () => {
+        const root = makeApp({ "index.tsx": `import "onejs:tailwind"\nexport const c = "p-4"` })
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).not.toContain("<-")
+        expect(fs.existsSync(path.join(root, "tailwind.provenance.json"))).toBe(false)
+    })
+})
+
+describe("tailwindPlugin class types", () => {
+    it("writes a .d.ts for onejs:tailwind and exports tw()", async () => {
+        const root = makeApp({
+            "index.tsx": `import { tw } from "onejs:tailwind"\nexport const c = tw("p-4", false, "m-2")`,
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).toContain("function tw(")
+
+        const dts = fs.readFileSync(path.join(root, "onejs-tailwind.d.ts"), "utf8")
+        expect(dts).toContain(`declare module "onejs:tailwind"`)
+        expect(dts).toContain(`| "p-4"`)
+        expect(dts).toContain("export function tw<")
+    })
+
+    it("escapes the classes tw() returns like the USS rules", async () => {
+        const root = makeApp({
+            "index.tsx": `import { tw } from "onejs:tailwind"\nexport const c = tw("!p-4 hover:bg-gray-800", null, "w-1/2 @md/sidebar:flex-row")`,
+        })
+
+        const result = await esbuild.build({
+            absWorkingDir: root,
+            entryPoints: ["index.tsx"],
+            bundle: true,
+            write: false,
+            format: "cjs",
+            logLevel: "silent",
+            plugins: [tailwindPlugin()],
+        })
+        const code = result.outputFiles[0].text
+        expect(code).toContain("._ex_p-4._ex_p-4")
+        expect(code).toContain(".cq-sidebar-md ._at_md_s_sidebar_c_flex-row")
+
+        const module = { exports: {} as { c?: string } }
+        new Function("module", "exports", "compileStyleSheet", code)(module, module.exports, () => {})
+        expect(module.exports.c).toBe("_ex_p-4 hover_c_bg-gray-800 w-1_s_2 _at_md_s_sidebar_c_flex-row")
+    })
+
+    it("does not scan its own .d.ts, and can be turned off", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nexport const c = "p-4"`,
+        })
+
+        await buildApp(root)
+        const second = (await buildApp(root)).outputFiles[0].text
+        expect(second).not.toContain(".m-96")
+
+        const off = makeApp({ "index.tsx": `import "onejs:tailwind"` })
+        await buildApp(off, { generateTypes: false })
+        expect(fs.existsSync(path.join(off, "onejs-tailwind.d.ts"))).toBe(false)
+    })
+})
+
+describe("tailwindPlugin diagnostics", () => {
+    it("warns about unmatched and unsupported classes at their source line", async () => {
+        const root = makeApp({
+            "index.tsx": `import "onejs:tailwind"\nimport "./ui/card"`,
+            "ui/card.tsx": `export const a = "p-4"\nexport const b = "bg-blu-500 shadow-lg"\n`,
+        })
+
+        const result = await buildApp(root, { diagnostics: true, safelist: ["text-gren-400"] })
+        const texts = result.warnings.map((w) => w.text)
+        expect(texts).toContain(`"bg-blu-500" matched no utility and generated nothing`)
+        expect(texts).toContain(`"text-gren-400" matched no utility and generated nothing (safelist)`)
+
+        const shadow = result.warnings.find((w) => w.text.includes("shadow-lg"))!
+        expect(shadow.location).toMatchObject({ file: "ui/card.tsx", line: 2, column: 29 })
+        expect(shadow.notes[0].text).toMatch(/box-shadow/)
+    })
+
+    it("stays silent unless enabled", async () => {
+        const root = makeApp({ "index.tsx": `import "onejs:tailwind"\nexport const c = "bg-blu-500"` })
+        expect((await buildApp(root)).warnings).toEqual([])
+    })
+})
@@ -1,6 +1,9 @@
 import { getFs } from "../fs-provider.mjs"
 import path from "path"
 import crypto from "crypto"
+import { expandApply } from "../tailwind/apply.mjs"
+import { loadTailwindConfig } from "./tailwind.mjs"
+import { validateUss } from "../postcss/uss-validate.mjs"
 
 /**
  * esbuild plugin for USS Modules support in OneJS
@@ -22,16 +25,87 @@ import crypto from "crypto"
  * Use it for classes applied at runtime by shared managers (e.g. the
  * focus-visible manager's literal `focus-ring`). Global names are not exported
  * in the styles map / .d.ts.
+ *
+ * Tailwind utilities can be reused with `@apply p-4 hover:bg-gray-800;` inside
+ * a rule, and `@layer components { ... }` is unwrapped. Both expand before
+ * scoping, against the same theme tailwindPlugin uses; the `.group`,
+ * breakpoint and theme classes variants refer to stay global.
+ *
+ * The CSS Modules composition features are supported too:
+ *
+ *   @value primary: #ff0000;
+ *   @value spacing, accent as highlight from "./tokens.module.uss";
+ *
+ *   .button { composes: base from "./Base.module.uss"; color: primary; }
+ *   .danger { composes: button; composes: focus-ring from global; }
+ *
+ * Values are substituted into declarations at build time and exported
+ * alongside the classes (`styles.primary === "#ff0000"`). A composing class
+ * exports all of its classes, space-separated (`styles.danger` is
+ * "danger__a1b2c3 button__a1b2c3 base__d4e5f6 focus-ring"), and importing the
+ * module also loads the stylesheets it composes from.
  */
 
+/** Scoped-name pattern used when `generateScopedName` isn't given */
+const DEFAULT_SCOPED_NAME = "[local]__[hash:6]"
+
 /**
- * Generates a short hash from file path for class scoping
- * @param {string} filePath: Path to the module file
- * @returns {string} 6-character hash
+ * Generates a short hash of a module for class scoping. Hashes the
+ * project-relative path (forward slashes) and the module's source, so names
+ * are the same on every machine and change only when the module does.
+ * @param {string} relativePath: Module path relative to the project root
+ * @param {string} content: Module source
+ * @returns {string} 32-character hex hash
  */
-function generateHash(filePath) {
-    const hash = crypto.createHash("md5").update(filePath).digest("hex")
-    return hash.slice(0, 6)
+function generateHash(relativePath, content) {
+    return crypto.createHash("md5").update(relativePath).update("\0").update(content).digest("hex")
+}
+
+/**
+ * Builds the function that names a module's scoped classes.
+ *
+ * A string pattern may use `[name]` (the file name without `.module.uss`),
+ * `[local]` (the class name as written), `[hash]` and `[hash:N]` (the first N
+ * characters of the module hash); a function receives
+ * `(local, relativePath, content)`, like css-loader's `getLocalIdent`. In
+ * production, names are short hashes of the module and the class instead
+ * (`_k3f9a`), whatever the pattern. Five characters leave room for collisions
+ * between modules, so the names are tracked in `taken` for the whole build
+ * and a name another class already has is lengthened until it's free.
+ * @param {string|Function} generateScopedName: Pattern or function
+ * @param {boolean} production: Emit minified names
+ * @param {Map<string, string>} taken: Production names given out this build, to the module and class they name
+ * @returns {(local: string, relativePath: string, content: string) => string}
+ */
+function createScopedNamer(generateScopedName, production, taken) {
+    if (production) {
+        return (local, relativePath, content) => {
+            const digest = crypto.createHash("md5")
+                .update(generateHash(relativePath, content)).update(local).digest()
+            const owner = `${relativePath}\0${local}`
+            const long = BigInt(`0x${digest.toString("hex")}`).toString(36).padStart(25, "0")
+            let name = "_" + digest.readUInt32BE(0).toString(36).padStart(7, "0").slice(-5)
+            for (let length = 6; taken.has(name) && taken.get(name) !== owner; length++) {
+                if (length > long.length) throw new Error(`No free production name for class "${local}" in ${relativePath}`)
+                name = "_" + long.slice(-length)
+            }
+            taken.set(name, owner)
+            return name
+        }
+    }
+    if (typeof generateScopedName === "function") return generateScopedName
+    if (typeof generateScopedName !== "string") {
+        throw new Error(`generateScopedName must be a pattern string or a function`)
+    }
+    return (local, relativePath, content) => {
+        const hash = generateHash(relativePath, content)
+        const name = path.posix.basename(relativePath).replace(/\.module\.uss$/, "")
+        return generateScopedName.replace(/\[(name|local|hash)(?::(\d+))?\]/g, (_, token, length) => {
+            if (token === "name") return name
+            if (token === "local") return local
+            return length === undefined ? hash : hash.slice(0, Number(length))
+        })
+    }
 }
 
 /**
@@ -70,10 +144,10 @@ function restoreGlobals(content, globals) {
  * - `:global(.name)` segments are excluded (masked before extraction)
  *
  * @param {string} ussContent: USS content with :global segments already masked
- * @param {string} hash: Hash to append to class names
+ * @param {(local: string) => string} scopedName: Scoped name for a class
  * @returns {Object} Map of original class name to scoped name
  */
-function extractClassNames(ussContent, hash) {
+function extractClassNames(ussContent, scopedName) {
     // Strip /* ... */ comments first so prose like "e.g. a frame" isn't scraped as a
     // phantom `.g` class into the generated styles map / .d.ts.
     const withoutComments = ussContent.replace(/\/\*[\s\S]*?\*\//g, "")
@@ -96,7 +170,7 @@ function extractClassNames(ussContent, hash) {
         // from the .d.ts, resolving to `undefined` at runtime). Those checks are gone.
         if (!className.includes("__") &&
             !className.startsWith("unity-")) {
-            classMap[className] = `${className}__${hash}`
+            classMap[className] ??= scopedName(className)
         }
     }
 
@@ -110,25 +184,20 @@ function extractClassNames(ussContent, hash) {
  * @returns {string} USS content with scoped class names
  */
 function scopeClassNames(ussContent, classMap) {
-    let scoped = ussContent
-
-    // Sort by length (longest first) to avoid partial replacements
-    // e.g., ".button" shouldn't match ".button-primary"
+    // One pass over all names, longest first, so ".button" doesn't match
+    // ".button-primary" and a scoped name is never rewritten again (a short
+    // production name could equal another class)
     const sortedNames = Object.keys(classMap).sort((a, b) => b.length - a.length)
+    if (sortedNames.length === 0) return ussContent
 
-    for (const className of sortedNames) {
-        // Match .className but:
-        // - Not followed by __ (already scoped)
-        // - Not followed by: (part of longer name like button-primary)
-        // - Must be followed by word boundary, space, comma, colon, or bracket
-        const regex = new RegExp(
-            `\\.${escapeRegex(className)}(?![-_a-zA-Z0-9])(?!__)`,
-            "g"
-        )
-        scoped = scoped.replace(regex, `.${classMap[className]}`)
-    }
-
-    return scoped
+    // Match .className but:
+    // - Not followed by __ (already scoped)
+    // - Not followed by a name character (part of a longer name)
+    const regex = new RegExp(
+        `\\.(${sortedNames.map(escapeRegex).join("|")})(?![-_a-zA-Z0-9])(?!__)`,
+        "g"
+    )
+    return ussContent.replace(regex, (_, className) => `.${classMap[className]}`)
 }
 
 /**
@@ -138,9 +207,84 @@ function escapeRegex(str) {
     return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
 }
 
+/**
+ * Removes `@value` rules and parses them: local definitions
+ * (`@value primary: #ff0000;`, the colon is optional) and imports
+ * (`@value primary, accent as highlight from "./tokens.module.uss";`).
+ * @param {string} ussContent: USS content
+ * @returns {{ content: string, definitions: Array<{ name: string, value: string }>, imports: Array<{ names: Array<{ name: string, alias: string }>, from: string }> }}
+ */
+function extractValueRules(ussContent) {
+    const definitions = []
+    const imports = []
+    const content = ussContent.replace(/@value\s+([^;]+);[ \t]*\n?/g, (_, body) => {
+        const imported = body.trim().match(/^([\s\S]+?)\s+from\s+(["'])(.+)\2$/)
+        if (imported) {
+            const names = imported[1].split(",").map((entry) => {
+                const [name, alias = name] = entry.trim().split(/\s+as\s+/)
+                return { name: name.trim(), alias: alias.trim() }
+            })
+            imports.push({ names, from: imported[3] })
+            return ""
+        }
+        const defined = body.trim().match(/^([a-zA-Z_][\w-]*)(?:\s*:\s*|\s+)([\s\S]+)$/)
+        if (!defined) throw new Error(`Invalid @value rule: "@value ${body.trim()};"`)
+        definitions.push({ name: defined[1], value: defined[2].trim() })
+        return ""
+    })
+    return { content, definitions, imports }
+}
+
+/**
+ * Replaces value names with their values in declaration values (never in
+ * selectors, so a `.primary` class is safe from a `primary` value).
+ * @param {string} text: USS content, or a single value
+ * @param {Object} values: Map of value name to value
+ * @param {boolean} [declarationsOnly]: Only substitute inside `{ ... }` declarations
+ * @returns {string}
+ */
+function substituteValues(text, values, declarationsOnly = true) {
+    const names = Object.keys(values).sort((a, b) => b.length - a.length)
+    if (names.length === 0) return text
+    const pattern = new RegExp(`(?<![\\w-])(${names.map(escapeRegex).join("|")})(?![\\w-])`, "g")
+    const substitute = (value) => value.replace(pattern, (name) => values[name])
+    if (!declarationsOnly) return substitute(text)
+    return text.replace(/\{([^{}]*)\}/g, (_, body) =>
+        `{${body.replace(/([\w-]+\s*:)([^;]*)/g, (__, prop, value) => prop + substitute(value))}}`)
+}
+
+/**
+ * Removes `composes:` declarations and collects them by class. Composition
+ * is only meaningful for a rule whose selector is a single local class.
+ * @param {string} ussContent: USS content with :global segments already masked
+ * @returns {{ content: string, composes: Object }} `composes` maps a class to
+ *   `[{ names, from }]`, `from` being null (this file), "global" or a path
+ */
+function extractComposes(ussContent) {
+    const composes = {}
+    const content = ussContent.replace(/([^{}]*)\{([^{}]*)\}/g, (rule, selector, body) => {
+        if (!/\bcomposes\s*:/.test(body)) return rule
+        const target = selector.replace(/\/\*[\s\S]*?\*\//g, "").trim().match(/^\.([a-zA-Z_][\w-]*)$/)
+        if (!target) {
+            throw new Error(`composes is only allowed in a rule for a single class, not "${selector.trim()}"`)
+        }
+        const list = (composes[target[1]] ??= [])
+        const rest = body.replace(/\bcomposes\s*:\s*([^;]+);?\s*/g, (_, value) => {
+            const from = value.trim().match(/^([\s\S]+?)\s+from\s+(?:(["'])(.+)\2|(global))$/)
+            list.push({
+                names: (from ? from[1] : value).trim().split(/\s+/),
+                from: from ? (from[4] ?? from[3]) : null,
+            })
+            return ""
+        })
+        return `${selector}{${rest}}`
+    })
+    return { content, composes }
+}
+
 /**
  * Generates TypeScript declaration file content
- * @param {Object} classMap: Map of class names
+ * @param {Object} classMap: Map of exported names (classes and @value constants)
  * @returns {string} TypeScript .d.ts content
  */
 function generateDts(classMap) {
@@ -158,17 +302,35 @@ export default styles
 
 /**
  * Creates the esbuild plugin for USS Modules
- * @param {Object} options: Plugin options
- * @param {boolean} options.generateTypes: Whether to generate .d.ts files (default: true)
- * @returns {Object} esbuild plugin
+ * @param {Object} [options]: Plugin options
+ * @param {boolean} [options.generateTypes]: Whether to generate .d.ts files (default: true)
+ * @param {Object} [options.tailwind]: `config` / `themes` for resolving `@apply`, as for tailwindPlugin (default: discover tailwind.config.js)
+ * @param {string|Function} [options.generateScopedName]: Pattern for scoped class names, with `[name]`, `[local]` and `[hash:N]`, or a function `(local, relativePath, content) => name` (default: "[local]__[hash:6]")
+ * @param {boolean} [options.production]: Emit short minified class names instead (default: the build's `minify` setting)
+ * @param {boolean|"error"} [options.validate]: Check the compiled USS with validateUss and report problems as warnings, or as errors with "error" (default: false)
  */
 export function ussModulesPlugin(options = {}) {
-    const { generateTypes = true } = options
+    const { generateTypes = true, tailwind = {}, generateScopedName = DEFAULT_SCOPED_NAME, validate = false } = options
 
     return {
         name: "uss-modules",
 
         setup(build) {
+            const root = build.initialOptions.absWorkingDir || process.cwd()
+            // Production names given out this build, checked for collisions
+            const takenNames = new Map()
+            const scopedName = createScopedNamer(generateScopedName, options.production ?? build.initialOptions.minify === true, takenNames)
+
+            // Loaded on the first module that uses @apply, once per build
+            let tailwindConfig = null
+            build.onStart(() => {
+                tailwindConfig = null
+            })
+            const getTailwindConfig = () => {
+                tailwindConfig ??= loadTailwindConfig(tailwind, root).then((loaded) => loaded.config)
+                return tailwindConfig
+            }
+
             // Handle .module.uss imports
             build.onResolve({ filter: /\.module\.uss$/ }, (args) => {
                 const resolved = path.resolve(args.resolveDir, args.path)
@@ -178,23 +340,164 @@ export function ussModulesPlugin(options = {}) {
                 }
             })
 
-            // Transform .module.uss files
-            build.onLoad({ filter: /.*/, namespace: "uss-module" }, async (args) => {
-                const ussContent = await getFs().promises.readFile(args.path, "utf8")
-                const relativePath = path.relative(process.cwd(), args.path)
-                const hash = generateHash(relativePath)
+            // Compiled modules, by path, for this build. A module is compiled
+            // once even when several others compose from or import it.
+            let compiled = new Map()
+            build.onStart(() => {
+                compiled = new Map()
+                takenNames.clear()
+            })
+
+            /**
+             * Scope a module and resolve its values and compositions, compiling
+             * the modules it imports from first. `chain` holds the modules
+             * being compiled above this one, to report import cycles.
+             */
+            const compileModule = (filePath, chain = []) => {
+                if (chain.includes(filePath)) {
+                    const cycle = [...chain.slice(chain.indexOf(filePath)), filePath]
+                        .map((file) => path.relative(root, file)).join(" -> ")
+                    return Promise.reject(new Error(`Circular @value/composes import: ${cycle}`))
+                }
+                if (!compiled.has(filePath)) {
+                    compiled.set(filePath, compile(filePath, [...chain, filePath]))
+                }
+                return compiled.get(filePath)
+            }
+
+            const compile = async (filePath, chain) => {
+                let ussContent = await getFs().promises.readFile(filePath, "utf8")
+                // Forward slashes, so Windows and Unix machines agree on the names
+                const relativePath = path.relative(root, filePath).split(path.sep).join("/")
+                const source = ussContent
+                const dependencies = new Set()
+                const importModule = async (from) => {
+                    const resolved = path.resolve(path.dirname(filePath), from)
+                    const module = await compileModule(resolved, chain)
+                    dependencies.add(resolved)
+                    module.dependencies.forEach((file) => dependencies.add(file))
+                    return { resolved, module }
+                }
+
+                // Expand @apply / @layer first, so the utility declarations and
+                // variant rules are scoped like hand-written ones
+                if (ussContent.includes("@apply") || ussContent.includes("@layer")) {
+                    ussContent = expandApply(ussContent, { config: await getTailwindConfig(), global: true })
+                }
+
+                // Values: imported ones first, then local definitions, which may
+                // refer to either
+                const valueRules = extractValueRules(ussContent)
+                const values = {}
+                for (const { names, from } of valueRules.imports) {
+                    const { module } = await importModule(from)
+                    for (const { name, alias } of names) {
+                        if (!Object.hasOwn(module.values, name)) {
+                            throw new Error(`@value "${name}" is not defined in "${from}"`)
+                        }
+                        values[alias] = module.values[name]
+                    }
+                }
+                for (const { name, value } of valueRules.definitions) {
+                    values[name] = substituteValues(value, values, false)
+                }
+                ussContent = substituteValues(valueRules.content, values)
 
                 // Extract and scope class names. :global(...) segments are masked
                 // first so they are neither extracted nor scoped, then restored
                 // unwrapped (`.button:global(.focus-ring)` -> `.button__hash.focus-ring`).
+                // `composes:` comes out before extraction: its names aren't selectors.
                 const { masked, globals } = maskGlobals(ussContent)
-                const classMap = extractClassNames(masked, hash)
-                const scopedUss = restoreGlobals(scopeClassNames(masked, classMap), globals)
+                const { content: withoutComposes, composes } = extractComposes(masked)
+                const classMap = extractClassNames(withoutComposes, (local) => {
+                    const name = scopedName(local, relativePath, source)
+                    if (typeof name !== "string" || !/^[a-zA-Z_][\w-]*$/.test(name)) {
+                        throw new Error(`generateScopedName gave "${name}" for class "${local}", which is not a valid class name`)
+                    }
+                    return name
+                })
+                const scopedUss = restoreGlobals(scopeClassNames(withoutComposes, classMap), globals)
+
+                // Exports: each class with the classes it composes, then the values
+                const styleImports = new Set()
+                const resolvedClasses = new Map()
+                const resolveClass = async (className, seen = []) => {
+                    if (resolvedClasses.has(className)) return resolvedClasses.get(className)
+                    if (seen.includes(className)) {
+                        throw new Error(`composes: circular composition ${[...seen, className].join(" -> ")}`)
+                    }
+                    const classes = [classMap[className]]
+                    for (const { names, from } of composes[className] ?? []) {
+                        if (from === "global") {
+                            classes.push(...names)
+                            continue
+                        }
+                        const imported = from === null ? null : await importModule(from)
+                        if (imported) styleImports.add(imported.resolved)
+                        for (const name of names) {
+                            const known = imported ? Object.hasOwn(imported.module.exports, name) : Object.hasOwn(classMap, name)
+                            if (!known) {
+                                throw new Error(`composes: class "${name}" is not defined in ${imported ? `"${from}"` : "this module"}`)
+                            }
+                            classes.push(...(imported
+                                ? imported.module.exports[name].split(" ")
+                                : (await resolveClass(name, [...seen, className])).split(" ")))
+                        }
+                    }
+                    const joined = [...new Set(classes)].join(" ")
+                    resolvedClasses.set(className, joined)
+                    return joined
+                }
+
+                const exports = {}
+                for (const className of Object.keys(classMap)) {
+                    exports[className] = await resolveClass(className)
+                }
+                for (const [name, value] of Object.entries(values)) {
+                    if (Object.hasOwn(classMap, name)) {
+                        throw new Error(`@value "${name}" has the same name as a class`)
+                    }
+                    exports[name] = value
+                }
+
+                return { relativePath, scopedUss, exports, values, styleImports, dependencies }
+            }
+
+            // Transform .module.uss files
+            build.onLoad({ filter: /.*/, namespace: "uss-module" }, async (args) => {
+                let module
+                try {
+                    module = await compileModule(args.path)
+                } catch (error) {
+                    return { errors: [{ text: error.message, location: { file: args.path } }] }
+                }
+                const { relativePath, scopedUss, exports, styleImports, dependencies } = module
+
+                // Problems Unity would only report on import. Positions are in
+                // the compiled stylesheet, which keeps the source's lines unless
+                // @apply expanded
+                const problems = []
+                if (validate) {
+                    const lines = scopedUss.split("\n")
+                    for (const error of validateUss(scopedUss).errors) {
+                        problems.push({
+                            text: error.message,
+                            location: {
+                                file: args.path,
+                                line: error.line,
+                                column: error.column - 1,
+                                length: error.endLine === error.line ? error.endColumn - error.column : 0,
+                                lineText: lines[error.line - 1] ?? "",
+                            },
+                        })
+                    }
+                    if (validate === "error" && problems.length > 0) return { errors: problems }
+                }
 
                 // Generate TypeScript declarations
                 if (generateTypes) {
                     const dtsPath = args.path + ".d.ts"
-                    const dtsContent = generateDts(classMap)
+                    const dtsContent = generateDts(exports)
                     await getFs().promises.writeFile(dtsPath, dtsContent)
                 }
 
@@ -205,14 +508,16 @@ export function ussModulesPlugin(options = {}) {
                     .replace(/\$/g, "\\$")
 
                 // Generate JavaScript module
-                const classMapJson = JSON.stringify(classMap, null, 4)
+                const classMapJson = JSON.stringify(exports, null, 4)
                 // Normalize to forward slashes to avoid \u being
                 // interpreted as a Unicode escape sequence on Windows
                 const safeRelativePath = relativePath.replace(/\\/g, "/")
+                // Composed-from modules must have their stylesheets loaded too
+                const imports = [...styleImports].map((file) => `import ${JSON.stringify(file)}\n`).join("")
 
                 const jsContent = `// USS Module: ${safeRelativePath}
 // Auto-generated: do not edit
-
+${imports}
 const css = \`${escapedUss}\`
 compileStyleSheet(css, "${safeRelativePath}")
 
@@ -222,7 +527,11 @@ export default styles
 
                 return {
                     contents: jsContent,
-                    loader: "js"
+                    loader: "js",
+                    resolveDir: path.dirname(args.path),
+                    // Edits to imported values or composed classes rebuild this module
+                    watchFiles: [...dependencies],
+                    warnings: problems,
                 }
             })
         }
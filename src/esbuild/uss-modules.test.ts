@@ -0,0 +1,219 @@
+import { describe, it, expect, afterEach } from "vitest"
+import * as esbuild from "esbuild"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { ussModulesPlugin } from "./uss-modules.mjs"
+
+const tmpDirs: string[] = []
+
+function makeApp(structure: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "onejs-uss-modules-test-"))
+    tmpDirs.push(root)
+    for (const [rel, content] of Object.entries(structure)) {
+        const full = path.join(root, rel)
+        fs.mkdirSync(path.dirname(full), { recursive: true })
+        fs.writeFileSync(full, content)
+    }
+    return root
+}
+
+afterEach(() => {
+    while (tmpDirs.length) fs.rmSync(tmpDirs.pop()!, { recursive: true, force: true })
+})
+
+async function buildApp(root: string, options: Record<string, unknown> = {}) {
+    return esbuild.build({
+        absWorkingDir: root,
+        entryPoints: ["index.tsx"],
+        bundle: true,
+        write: false,
+        logLevel: "silent",
+        plugins: [ussModulesPlugin({ tailwind: { config: false }, ...options })],
+    })
+}
+
+/** The string a styles map in the bundle exports for `key`. */
+function exported(code: string, key: string): string {
+    return code.match(new RegExp(`"${key}": "([^"]*)"`))![1]
+}
+
+// ============================================================================
+// @value
+// ============================================================================
+
+describe("ussModulesPlugin @value", () => {
+    it("substitutes local and imported values and exports them", async () => {
+        const root = makeApp({
+            "index.tsx": `import styles from "./Button.module.uss"\nexport default styles`,
+            "tokens.module.uss": `@value primary: #ff0000;\n@value gap 8px;\n`,
+            "Button.module.uss": [
+                `@value primary, gap as space from "./tokens.module.uss";`,
+                `@value border: 1px solid primary;`,
+                `.primary-label { color: primary; margin: space; border: border; }`,
+            ].join("\n"),
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).toMatch(/\.primary-label__\w{6} \{ color: #ff0000; margin: 8px; border: 1px solid #ff0000; \}/)
+        expect(code).not.toContain("@value")
+        expect(exported(code, "border")).toBe("1px solid #ff0000")
+
+        const dts = fs.readFileSync(path.join(root, "Button.module.uss.d.ts"), "utf8")
+        expect(dts).toContain(`readonly "border": string`)
+        expect(dts).toContain(`readonly "space": string`)
+    })
+
+    it("reports an unknown imported value", async () => {
+        const root = makeApp({
+            "index.tsx": `import "./Button.module.uss"`,
+            "tokens.module.uss": `@value primary: red;`,
+            "Button.module.uss": `@value accent from "./tokens.module.uss";\n.a { color: accent; }`,
+        })
+
+        await expect(buildApp(root)).rejects.toThrow(/@value "accent" is not defined in ".\/tokens.module.uss"/)
+    })
+})
+
+// ============================================================================
+// composes
+// ============================================================================
+
+describe("ussModulesPlugin composes", () => {
+    it("exports composed classes from this module, another module and global", async () => {
+        const root = makeApp({
+            "index.tsx": `import styles from "./Button.module.uss"\nexport default styles`,
+            "Base.module.uss": `.base { padding: 4px; }\n.outlined { composes: base; border-width: 1px; }`,
+            "Button.module.uss": [
+                `.button { composes: outlined from "./Base.module.uss"; color: red; }`,
+                `.danger { composes: button; composes: focus-ring from global; }`,
+            ].join("\n"),
+        })
+
+        const code = (await buildApp(root)).outputFiles[0].text
+        expect(code).not.toContain("composes")
+        // The composed-from stylesheet is bundled too
+        expect(code).toMatch(/\.outlined__\w{6} \{ border-width: 1px; \}/)
+
+        const [button, outlined, base] = exported(code, "button").split(" ")
+        expect(button).toMatch(/^button__\w{6}$/)
+        expect(outlined).toMatch(/^outlined__\w{6}$/)
+        expect(base).toMatch(/^base__\w{6}$/)
+        expect(exported(code, "danger").split(" ")).toEqual([expect.stringMatching(/^danger__/), button, outlined, base, "focus-ring"])
+    })
+
+    it("rejects composes outside a single-class rule", async () => {
+        const root = makeApp({
+            "index.tsx": `import "./Button.module.uss"`,
+            "Button.module.uss": `.a .b { composes: c; }\n.c { color: red; }`,
+        })
+
+        await expect(buildApp(root)).rejects.toThrow(/composes is only allowed in a rule for a single class/)
+    })
+
+    it("reports unknown classes and import cycles", async () => {
+        const unknown = makeApp({
+            "index.tsx": `import "./Button.module.uss"`,
+            "Button.module.uss": `.a { composes: missing; }`,
+        })
+        await expect(buildApp(unknown)).rejects.toThrow(/class "missing" is not defined in this module/)
+
+        const cycle = makeApp({
+            "index.tsx": `import "./A.module.uss"`,
+            "A.module.uss": `.a { composes: b from "./B.module.uss"; }`,
+            "B.module.uss": `.b { composes: a from "./A.module.uss"; }`,
+        })
+        await expect(buildApp(cycle)).rejects.toThrow(/Circular @value\/composes import/)
+    })
+})
+
+// ============================================================================
+// Scoped names
+// ============================================================================
+
+describe("ussModulesPlugin scoped names", () => {
+    const app = (uss = `.button { color: red; }\n.button-primary { color: blue; }`) => makeApp({
+        "index.tsx": `import styles from "./components/Button.module.uss"\nexport default styles`,
+        "components/Button.module.uss": uss,
+    })
+
+    it("hashes the project-relative path and content, not the machine's path", async () => {
+        const first = (await buildApp(app())).outputFiles![0].text
+        const second = (await buildApp(app())).outputFiles![0].text
+        expect(exported(first, "button")).toMatch(/^button__[0-9a-f]{6}$/)
+        expect(exported(second, "button")).toBe(exported(first, "button"))
+        expect(second).toContain(`compileStyleSheet(css, "components/Button.module.uss")`)
+
+        const edited = (await buildApp(app(`.button { color: green; }`))).outputFiles![0].text
+        expect(exported(edited, "button")).not.toBe(exported(first, "button"))
+    })
+
+    it("follows a generateScopedName pattern or function", async () => {
+        const patterned = (await buildApp(app(), { generateScopedName: "[name]__[local]__[hash:4]" })).outputFiles![0].text
+        expect(exported(patterned, "button")).toMatch(/^Button__button__[0-9a-f]{4}$/)
+        expect(patterned).toMatch(/\.Button__button-primary__[0-9a-f]{4} \{ color: blue; \}/)
+
+        const named = (await buildApp(app(), {
+            generateScopedName: (local: string, relativePath: string) => `${relativePath.split("/")[0]}-${local}`,
+        })).outputFiles![0].text
+        expect(exported(named, "button")).toBe("components-button")
+        expect(named).toContain(".components-button-primary { color: blue; }")
+    })
+
+    it("emits short names in production", async () => {
+        const code = (await buildApp(app(), { production: true })).outputFiles![0].text
+        const button = exported(code, "button")
+        const primary = exported(code, "button-primary")
+        expect(button).toMatch(/^_[0-9a-z]{5}$/)
+        expect(primary).toMatch(/^_[0-9a-z]{5}$/)
+        expect(primary).not.toBe(button)
+        expect(code).toContain(`.${button} { color: red; }`)
+        expect(code).toContain(`.${primary} { color: blue; }`)
+    })
+
+    it("lengthens a production name another module's class already has", async () => {
+        // Both `.x` classes hash to _5mgfs
+        const root = makeApp({
+            "index.tsx": `import a from "./a.module.uss"\nimport b from "./b.module.uss"\nexport default { a, b }`,
+            "a.module.uss": `.x { color: red; } /* 4951 */\n`,
+            "b.module.uss": `.x { color: red; } /* 10359 */\n`,
+        })
+        const code = (await buildApp(root, { production: true })).outputFiles![0].text
+        const names = [...code.matchAll(/"x": "([^"]*)"/g)].map((match) => match[1]).sort()
+        expect(names).toHaveLength(2)
+        expect(names[0]).toBe("_5mgfs")
+        expect(names[1]).toMatch(/^_[0-9a-z]{6}$/)
+    })
+
+    it("rejects a name that isn't a valid class", async () => {
+        await expect(buildApp(app(), { generateScopedName: "[local].[hash:6]" }))
+            .rejects.toThrow(/which is not a valid class name/)
+    })
+})
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe("ussModulesPlugin validate", () => {
+    const app = () => makeApp({
+        "index.tsx": `import styles from "./Card.module.uss"\nexport default styles`,
+        "Card.module.uss": `.card {\n    padding: 4px;\n    gap: 8px;\n}\n.card + .card { margin-top: 4px; }`,
+    })
+
+    it("reports invalid USS as warnings with locations", async () => {
+        const result = await buildApp(app(), { validate: true })
+        expect(result.warnings.map(({ text, location }) => [text, location?.line, location?.column])).toEqual([
+            [`Unknown USS property "gap"`, 3, 4],
+            [`The "+" combinator is not supported in USS`, 5, 14],
+        ])
+    })
+
+    it("fails the build with validate: \"error\"", async () => {
+        await expect(buildApp(app(), { validate: "error" })).rejects.toThrow(/Unknown USS property "gap"/)
+    })
+
+    it("doesn't validate by default", async () => {
+        expect((await buildApp(app())).warnings).toEqual([])
+    })
+})
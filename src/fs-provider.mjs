@@ -27,7 +27,9 @@
  *     promises.readdir(path, opts)
  *
  * readdirSync and promises.readdir are called with { withFileTypes: true }, so
- * entries must carry isDirectory() and isFile().
+ * entries must carry isDirectory() and isFile(). promises.readFile is also
+ * called without an encoding, for the bytes of asset files, and must then
+ * return a Buffer.
  */
 
 let provider = null
@@ -58,3 +60,14 @@ export function getFs() {
     }
     return provider
 }
+
+/**
+ * Write a file through the provider unless it already has this content, so
+ * an unchanged generated .d.ts doesn't wake up the editor's or a watcher's
+ * file events.
+ */
+export async function writeIfChanged(file, content) {
+    const fs = getFs()
+    if (fs.existsSync(file) && await fs.promises.readFile(file, "utf8") === content) return
+    await fs.promises.writeFile(file, content)
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, afterEach } from "vitest"
 import nodeFs from "node:fs"
-import { setFsProvider, getFsProvider, getFs } from "./fs-provider.mjs"
+import { setFsProvider, getFsProvider, getFs, writeIfChanged } from "./fs-provider.mjs"
 
 // test-setup.mjs installs node:fs for the whole suite; restore it after any
 // test that swaps it out.
@@ -26,6 +26,23 @@ describe("fs provider", () => {
         expect(() => getFs()).toThrow(/setFsProvider/)
     })
 
+    it("writes a file only when its content changes", async () => {
+        const files: Record<string, string> = { "/a.d.ts": "same" }
+        const writes: string[] = []
+        setFsProvider({
+            existsSync: (file: string) => file in files,
+            promises: {
+                readFile: async (file: string) => files[file],
+                writeFile: async (file: string, data: string) => { writes.push(file); files[file] = data },
+            },
+        })
+        await writeIfChanged("/a.d.ts", "same")
+        await writeIfChanged("/a.d.ts", "changed")
+        await writeIfChanged("/b.d.ts", "new")
+        expect(writes).toEqual(["/a.d.ts", "/b.d.ts"])
+        expect(files["/a.d.ts"]).toBe("changed")
+    })
+
     it("has no node imports of its own", () => {
         const src = nodeFs.readFileSync(new URL("./fs-provider.mjs", import.meta.url), "utf8")
         expect(src).not.toMatch(/from ["']node:/)
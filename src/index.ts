@@ -7,6 +7,7 @@
  * - "onejs-unity/assets": Asset loading (loadImage, loadFont, etc.)
  * - "onejs-unity/esbuild": Build plugins (tailwindPlugin, ussModulesPlugin, copyAssetsPlugin)
  * - "onejs-unity/postcss": PostCSS plugins for USS transformation
+ * - "onejs-unity/uss": Runtime helpers for the generated USS (animate-* utilities)
  */
 
 export * from "./gpu"
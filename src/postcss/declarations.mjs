@@ -0,0 +1,323 @@
+/**
+ * Declaration rewriting for ussTransform
+ *
+ * USS parses a subset of CSS: no `border` or `inset` shorthands, no
+ * `place-*`, no `em` or viewport units, and only keyword easings. Each rule
+ * here turns one CSS declaration into the USS longhands that mean the same
+ * (`border: 1px solid red` -> `border-width: 1px; border-color: red`), or
+ * reports that it can't, so ussTransform can warn and drop it rather than
+ * leave Unity to log a parse error at import.
+ */
+
+// =============================================================================
+// Values
+// =============================================================================
+
+const BORDER_WIDTHS = { thin: "1px", medium: "3px", thick: "5px" }
+
+const BORDER_STYLES = new Set([
+    "none", "hidden", "solid", "dashed", "dotted", "double", "groove", "ridge", "inset", "outset",
+])
+
+const SIDES = ["top", "right", "bottom", "left"]
+
+// USS alignment keywords for their CSS Box Alignment equivalents
+const ALIGNMENT = {
+    "start": "flex-start",
+    "end": "flex-end",
+    "self-start": "flex-start",
+    "self-end": "flex-end",
+    "left": "flex-start",
+    "right": "flex-end",
+}
+
+// What `normal` means per property: stretch across the cross axis, packed
+// at the start along the main axis
+const NORMAL_ALIGNMENT = {
+    "align-items": "stretch",
+    "align-self": "stretch",
+    "align-content": "stretch",
+    "justify-content": "flex-start",
+}
+
+// The cubic-bezier() curves of the CSS keywords (and Tailwind's defaults)
+const EASINGS = {
+    "0.25,0.1,0.25,1": "ease",
+    "0.42,0,1,1": "ease-in",
+    "0,0,0.58,1": "ease-out",
+    "0.42,0,0.58,1": "ease-in-out",
+    "0,0,1,1": "linear",
+    "0.4,0,0.2,1": "ease-in-out",
+    "0.4,0,1,1": "ease-in",
+    "0,0,0.2,1": "ease-out",
+}
+
+// CSS transition properties USS calls something else, or has no equivalent of
+const TRANSITION_PROPERTIES = {
+    "transform": ["translate", "rotate", "scale"],
+    "fill": [],
+    "stroke": [],
+    "text-decoration-color": [],
+    "box-shadow": [],
+    "filter": [],
+    "backdrop-filter": [],
+    "outline-color": [],
+}
+
+// Properties a viewport unit can become a percentage of the parent for
+const HORIZONTAL = new Set(["width", "min-width", "max-width", "left", "right"])
+const VERTICAL = new Set(["height", "min-height", "max-height", "top", "bottom"])
+
+/**
+ * Split a value on top-level whitespace (or `separator`), keeping function
+ * arguments (`rgba(0, 0, 0, 0.5)`) in one piece.
+ */
+function splitTopLevel(value, separator = /\s/) {
+    const parts = []
+    let depth = 0
+    let current = ""
+    for (const char of value) {
+        if (char === "(") depth++
+        else if (char === ")") depth--
+        if (depth === 0 && separator.test(char)) {
+            if (current.trim()) parts.push(current.trim())
+            current = ""
+            continue
+        }
+        current += char
+    }
+    if (current.trim()) parts.push(current.trim())
+    return parts
+}
+
+/** The four sides of a 1-4 value box shorthand (`8px 16px` -> t r b l). */
+function boxSides(values) {
+    const [top, right = top, bottom = top, left = right] = values
+    return [top, right, bottom, left]
+}
+
+function isLength(token) {
+    return /^-?(?:\d+\.?\d*|\.\d+)[a-z%]*$/i.test(token) || Object.hasOwn(BORDER_WIDTHS, token)
+}
+
+// =============================================================================
+// Units
+// =============================================================================
+
+/**
+ * Convert `em` to px against the base font size, and `vw`/`vh` to px against
+ * `viewport` when given, or to a percentage of the parent where that means
+ * the same (`width: 50vw` on a full-size panel), reported through
+ * `options.warn` since it's only right for such a panel. Null when a
+ * viewport unit is left that USS can't express.
+ */
+function normalizeUnits(prop, value, options = {}) {
+    const { baseFontSize = 16, viewport, warn } = options
+    let converted = value.replace(
+        /(^|[^\w.-])(-?(?:\d+\.?\d*|\.\d+))em\b/g,
+        (_, before, num) => `${before}${round(parseFloat(num) * baseFontSize)}px`
+    )
+
+    if (!/\d(vw|vh|vmin|vmax)\b/.test(converted)) return converted
+
+    let unrepresentable = false
+    let approximated = false
+    converted = converted.replace(/(-?(?:\d+\.?\d*|\.\d+))(vw|vh|vmin|vmax)\b/g, (match, num, unit) => {
+        if (viewport) {
+            const size = {
+                vw: viewport.width,
+                vh: viewport.height,
+                vmin: Math.min(viewport.width, viewport.height),
+                vmax: Math.max(viewport.width, viewport.height),
+            }[unit]
+            return `${round(parseFloat(num) * size / 100)}px`
+        }
+        if ((unit === "vw" && HORIZONTAL.has(prop)) || (unit === "vh" && VERTICAL.has(prop))) {
+            approximated = true
+            return `${num}%`
+        }
+        unrepresentable = true
+        return match
+    })
+    if (unrepresentable) return null
+    if (approximated) {
+        warn?.(`"${prop}: ${value}" became "${prop}: ${converted}", which only matches on a full-size panel; pass viewport to convert it to px`)
+    }
+    return converted
+}
+
+function round(n) {
+    return Math.round(n * 1e4) / 1e4
+}
+
+// =============================================================================
+// Shorthands
+// =============================================================================
+
+/** `border` / `border-top`: width and color longhands; USS borders are always solid. */
+function expandBorder(prefix, value) {
+    const tokens = splitTopLevel(value)
+    let width = null
+    let style = null
+    const color = []
+    for (const token of tokens) {
+        if (width === null && isLength(token)) width = BORDER_WIDTHS[token] ?? token
+        else if (style === null && BORDER_STYLES.has(token)) style = token
+        else color.push(token)
+    }
+    if (color.length > 1) return null
+
+    // Without a style (or with none) CSS draws no border at all
+    if (style === null || style === "none" || style === "hidden") {
+        return [[`${prefix}-width`, "0"]]
+    }
+    // CSS defaults a styled border without a width to medium
+    const declarations = [[`${prefix}-width`, width ?? BORDER_WIDTHS.medium]]
+    if (color.length) declarations.push([`${prefix}-color`, color[0]])
+    return declarations
+}
+
+/** `transition`: one longhand list per part, with easings USS knows. */
+function expandTransition(value) {
+    const properties = []
+    const durations = []
+    const easings = []
+    const delays = []
+    for (const item of splitTopLevel(value, /,/)) {
+        let property = "all"
+        let duration = null
+        let delay = null
+        let easing = "ease"
+        for (const token of splitTopLevel(item)) {
+            if (/^-?[\d.]+m?s$/.test(token)) {
+                if (duration === null) duration = token
+                else delay = token
+            } else if (/^(ease|linear|step|cubic-bezier)/.test(token)) {
+                easing = token
+            } else {
+                property = token
+            }
+        }
+        const mapped = Object.hasOwn(TRANSITION_PROPERTIES, property) ? TRANSITION_PROPERTIES[property] : [property]
+        for (const name of mapped) {
+            properties.push(name)
+            durations.push(duration ?? "0s")
+            easings.push(easing)
+            delays.push(delay ?? "0s")
+        }
+    }
+    if (properties.length === 0) return []
+    const timings = convertEasings(easings.join(", "))
+    if (timings === null) return null
+    return [
+        ["transition-property", properties.join(", ")],
+        ["transition-duration", durations.join(", ")],
+        ["transition-timing-function", timings],
+        ["transition-delay", delays.join(", ")],
+    ]
+}
+
+/** cubic-bezier() curves as the keyword they match. Null for a custom curve or steps(). */
+function convertEasings(value) {
+    let unknown = false
+    const converted = value.replace(/cubic-bezier\(([^)]*)\)/g, (match, args) => {
+        const key = args.split(",").map((n) => String(parseFloat(n))).join(",")
+        if (EASINGS[key]) return EASINGS[key]
+        unknown = true
+        return match
+    })
+    return unknown || /steps?\(|step-(start|end)/.test(converted) ? null : converted
+}
+
+/** `transition-property`: USS names, without the properties it can't animate. */
+function convertTransitionProperty(value) {
+    const names = splitTopLevel(value, /,/)
+        .flatMap((name) => (Object.hasOwn(TRANSITION_PROPERTIES, name) ? TRANSITION_PROPERTIES[name] : [name]))
+    return names.length ? [["transition-property", [...new Set(names)].join(", ")]] : []
+}
+
+function alignment(prop, value) {
+    return value === "normal" ? NORMAL_ALIGNMENT[prop] : ALIGNMENT[value] ?? value
+}
+
+// =============================================================================
+// Entry point
+// =============================================================================
+
+/**
+ * Rewrite one declaration for USS.
+ *
+ * @param {string} prop Property name
+ * @param {string} value Value, after ussTransform's rem and color conversions
+ * @param {Object} [options]
+ * @param {number} [options.baseFontSize] px per em (default: 16)
+ * @param {{ width: number, height: number }} [options.viewport] Panel size, to convert vw/vh to px
+ * @param {(message: string) => void} [options.warn] Called when a value is only approximated (vw/vh without a viewport)
+ * @returns {Array<[string, string]>|null} The USS declarations (the input
+ *   itself when it needs no change, none to drop it), or null when it has no
+ *   USS equivalent
+ */
+export function rewriteDeclaration(prop, value, options = {}) {
+    if (prop.startsWith("--")) return [[prop, value]]
+
+    const normalized = normalizeUnits(prop, value, options)
+    if (normalized === null) return null
+    value = normalized
+
+    switch (prop) {
+        case "border":
+            return expandBorder("border", value)
+        case "border-top":
+        case "border-right":
+        case "border-bottom":
+        case "border-left":
+            return expandBorder(prop, value)
+        case "border-width":
+            return [[prop, splitTopLevel(value).map((v) => BORDER_WIDTHS[v] ?? v).join(" ")]]
+        case "border-style": {
+            // Solid is the only style; `none` is a zero width
+            const styles = splitTopLevel(value)
+            if (styles.every((style) => style === "none" || style === "hidden")) return [["border-width", "0"]]
+            return styles.every((style) => style === "solid") ? [] : null
+        }
+        case "border-radius":
+            // No elliptical corners: keep the horizontal radii
+            return [[prop, value.split("/")[0].trim()]]
+        case "inset": {
+            const sides = boxSides(splitTopLevel(value))
+            return SIDES.map((side, i) => [side, sides[i]])
+        }
+        case "inset-inline": {
+            const [left, right = left] = splitTopLevel(value)
+            return [["left", left], ["right", right]]
+        }
+        case "inset-block": {
+            const [top, bottom = top] = splitTopLevel(value)
+            return [["top", top], ["bottom", bottom]]
+        }
+        case "place-items":
+            // USS has no justify-items; items align on the cross axis only
+            return [["align-items", alignment("align-items", splitTopLevel(value)[0])]]
+        case "place-self":
+            return [["align-self", alignment("align-self", splitTopLevel(value)[0])]]
+        case "place-content": {
+            const [align, justify = align] = splitTopLevel(value)
+            return [["align-content", alignment("align-content", align)], ["justify-content", alignment("justify-content", justify)]]
+        }
+        case "align-items":
+        case "align-self":
+        case "align-content":
+        case "justify-content":
+            return [[prop, alignment(prop, value.trim())]]
+        case "transition":
+            return expandTransition(value)
+        case "transition-property":
+            return convertTransitionProperty(value)
+        case "transition-timing-function": {
+            const timings = convertEasings(value)
+            return timings === null ? null : [[prop, timings]]
+        }
+        default:
+            return [[prop, value]]
+    }
+}
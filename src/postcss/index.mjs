@@ -2,9 +2,12 @@
  * OneJS Unity: PostCSS plugins for USS transformation
  *
  * Usage:
- *   import { ussTransform, ussCleanup, ussUnwrapIs } from "onejs-unity/postcss"
+ *   import { ussTransform, ussCleanup, ussUnwrapIs, ussNotHas, ussApply, ussValidate } from "onejs-unity/postcss"
  */
 
 export { ussTransform } from "./uss-transform.mjs"
 export { ussCleanup } from "./uss-cleanup.mjs"
 export { ussUnwrapIs } from "./uss-unwrap-is.mjs"
+export { ussNotHas } from "./uss-not-has.mjs"
+export { ussApply } from "./uss-apply.mjs"
+export { ussValidate, validateUss } from "./uss-validate.mjs"
@@ -0,0 +1,75 @@
+/**
+ * PostCSS plugin to expand Tailwind `@apply` and unwrap `@layer` in USS
+ *
+ * The PostCSS counterpart of the text-level expansion ussModulesPlugin does
+ * for .module.uss files; both resolve utilities through the OneJS Tailwind
+ * generator, so the design scale is the same everywhere.
+ *
+ * Example:
+ *   .button { @apply p-4 hover:bg-gray-800; }
+ * Becomes:
+ *   .button { padding-top: 16px; ... }
+ *   .button:hover { background-color: #1f2937; }
+ *
+ * Run it before ussCleanup, which removes @layer blocks wholesale.
+ *
+ * @param {Object} [opts]
+ * @param {Object} [opts.config] Resolved Tailwind config (see resolveConfig); default theme otherwise
+ */
+
+import { resolveApply } from "../tailwind/apply.mjs"
+
+export function ussApply(opts = {}) {
+    return {
+        postcssPlugin: "postcss-uss-apply",
+
+        AtRule: {
+            layer(atRule) {
+                // `@layer a, b;` has no body; `@layer components { ... }` is unwrapped
+                if (atRule.nodes && atRule.nodes.length > 0) {
+                    atRule.replaceWith(atRule.nodes)
+                } else {
+                    atRule.remove()
+                }
+            },
+
+            apply(atRule) {
+                const rule = atRule.parent
+                if (!rule || rule.type !== "rule") {
+                    throw atRule.error("@apply must be used inside a rule")
+                }
+
+                const classNames = atRule.params.split(/\s+/).filter(Boolean)
+                let result
+                try {
+                    result = resolveApply(classNames, rule.selectors, opts)
+                } catch (error) {
+                    throw atRule.error(error.message)
+                }
+
+                const toNodes = (declarations) =>
+                    Object.entries(declarations).map(([prop, value]) => ({ prop, value }))
+
+                if (Object.keys(result.declarations).length > 0) {
+                    atRule.replaceWith(...toNodes(result.declarations))
+                } else {
+                    atRule.remove()
+                }
+
+                // Variant rules follow the rule they came from, in @apply order
+                let anchor = rule
+                for (const extra of result.rules) {
+                    const extraRule = rule.clone({ selector: extra.selector })
+                    extraRule.removeAll()
+                    extraRule.raws.before = "\n\n"
+                    extraRule.append(...toNodes(extra.declarations))
+                    anchor.after(extraRule)
+                    anchor = extraRule
+                }
+            },
+        },
+    }
+}
+
+ussApply.postcss = true
+export default ussApply
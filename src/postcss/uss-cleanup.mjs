@@ -8,6 +8,26 @@
  * - @keyframes rules
  * - @font-face rules
  * - @supports rules
+ *
+ * With `variables: "keep"`, custom properties survive instead: USS supports
+ * `--name: value` and plain `var(--name)`, just not fallbacks or calc(). So
+ * declarations and references are kept, and only what USS can't parse is
+ * rewritten from the variables defined in `:root` and in the same rule:
+ *
+ *   :root { --gap: 4px; }
+ *   .dark { --fg: white; }
+ *   .a { color: var(--fg, #fff); border-color: var(--line, #ccc); margin: calc(var(--gap) * 2); }
+ *
+ * becomes `.a { color: var(--fg); border-color: #ccc; margin: 8px; }`. A
+ * fallback is dropped when any rule defines the variable, since a theme class
+ * like `.dark` can set it on an ancestor, and only inlined when nothing does.
+ * A value that still can't be represented, like `calc(100% - 8px)`, is
+ * removed with a warning on the PostCSS result.
+ *
+ * @param {Object} [opts]
+ * @param {boolean} [opts.removeEmpty] Remove rules left empty (default: true)
+ * @param {boolean} [opts.warn] Log the unsupported properties removed (default: false)
+ * @param {"strip"|"keep"} [opts.variables] Remove custom properties and var(), or keep the USS-compatible ones (default: "strip")
  */
 
 // Properties that USS doesn't support
@@ -135,13 +155,188 @@ const WARN_PROPERTIES = new Set([
     "transition", // Supported but limited
 ])
 
+// =============================================================================
+// Variables
+// =============================================================================
+
+// Selectors whose custom properties every rule can see
+const GLOBAL_SCOPES = new Set([":root", "html", "*"])
+
+/**
+ * Split `value` around its top-level `name(...)` calls: plain text segments
+ * and `{ args }` for each call, with the arguments as written.
+ */
+function splitCalls(value, name) {
+    const parts = []
+    const pattern = new RegExp(`(^|[^\\w-])${name}\\(`, "g")
+    let last = 0
+    let match
+    while ((match = pattern.exec(value)) !== null) {
+        const start = match.index + match[1].length
+        let depth = 0
+        let end = -1
+        for (let i = start + name.length; i < value.length; i++) {
+            if (value[i] === "(") depth++
+            else if (value[i] === ")" && --depth === 0) {
+                end = i
+                break
+            }
+        }
+        if (end === -1) break
+        parts.push(value.slice(last, start), { args: value.slice(start + name.length + 1, end) })
+        last = end + 1
+        pattern.lastIndex = last
+    }
+    parts.push(value.slice(last))
+    return parts
+}
+
+/** `--name, fallback` as `{ name, fallback }`; the fallback may contain commas. */
+function parseVar(args) {
+    const comma = args.indexOf(",")
+    if (comma === -1) return { name: args.trim(), fallback: null }
+    return { name: args.slice(0, comma).trim(), fallback: args.slice(comma + 1).trim() }
+}
+
+/**
+ * Evaluate a calc() expression of numbers in a single unit (`8px * 2 + 4px`).
+ * Null when it mixes units or isn't arithmetic, since USS has no calc().
+ */
+function evaluateCalc(expression) {
+    const tokens = expression.replace(/\bcalc\(/g, "(").match(/-?(?:\d+\.?\d*|\.\d+)[a-z%]*|[-+*/()]|\S/gi) ?? []
+    let index = 0
+
+    // Recursive descent; a term is `{ value, unit }`, unit "" for plain numbers
+    const primary = () => {
+        const token = tokens[index++]
+        if (token === "(") {
+            const inner = sum()
+            return tokens[index++] === ")" ? inner : null
+        }
+        const match = token?.match(/^(-?(?:\d+\.?\d*|\.\d+))([a-z%]*)$/i)
+        return match ? { value: parseFloat(match[1]), unit: match[2].toLowerCase() } : null
+    }
+    const product = () => {
+        let left = primary()
+        while (left && (tokens[index] === "*" || tokens[index] === "/")) {
+            const op = tokens[index++]
+            const right = primary()
+            if (!right) return null
+            if (op === "*" && left.unit && right.unit) return null
+            if (op === "/" && (right.unit || right.value === 0)) return null
+            left = {
+                value: op === "*" ? left.value * right.value : left.value / right.value,
+                unit: left.unit || right.unit,
+            }
+        }
+        return left
+    }
+    const sum = () => {
+        let left = product()
+        while (left && (tokens[index] === "+" || tokens[index] === "-")) {
+            const op = tokens[index++]
+            const right = product()
+            if (!right || left.unit !== right.unit) return null
+            left = { value: op === "+" ? left.value + right.value : left.value - right.value, unit: left.unit }
+        }
+        return left
+    }
+
+    const result = sum()
+    if (!result || index !== tokens.length) return null
+    return `${Math.round(result.value * 1e4) / 1e4}${result.unit}`
+}
+
+/**
+ * Rewrite a value for USS: `var(--x)` stays, a fallback is dropped when the
+ * variable is defined and used in its place otherwise, and calc() is
+ * evaluated with its variables substituted. Returns null when the value
+ * can't be represented.
+ *
+ * @param {string} value
+ * @param {Map<string, string>} scope Custom properties visible to the declaration
+ * @param {Set<string>} defined Custom properties any rule of the sheet defines
+ * @param {boolean} [inline] Substitute every variable (inside calc(), or resolving one)
+ * @param {string[]} [resolving] Variables being resolved, to stop cycles
+ */
+function resolveValue(value, scope, defined, inline = false, resolving = []) {
+    const substitute = (text) => {
+        let out = ""
+        for (const part of splitCalls(text, "var")) {
+            if (typeof part === "string") {
+                out += part
+                continue
+            }
+            const { name, fallback } = parseVar(part.args)
+            const cycle = resolving.includes(name)
+            if (!inline && (fallback === null || (defined.has(name) && !cycle))) {
+                out += `var(${name})`
+                continue
+            }
+            const replacement = scope.has(name) && !cycle
+                ? resolveValue(scope.get(name), scope, defined, true, [...resolving, name])
+                : fallback !== null ? resolveValue(fallback, scope, defined, inline, resolving) : null
+            if (replacement === null) return null
+            out += replacement
+        }
+        return out
+    }
+
+    let out = ""
+    for (const part of splitCalls(value, "calc")) {
+        if (typeof part === "string") {
+            const text = substitute(part)
+            if (text === null) return null
+            out += text
+            continue
+        }
+        const expression = resolveValue(part.args, scope, defined, true, resolving)
+        const evaluated = expression === null ? null : evaluateCalc(expression)
+        if (evaluated === null) return null
+        out += evaluated
+    }
+    return out
+}
+
+/** Whether USS can parse the value's var() and calc() usage as written. */
+function isUssCompatible(value) {
+    if (/(^|[^\w-])calc\(/.test(value)) return false
+    return splitCalls(value, "var").every((part) => typeof part === "string" || parseVar(part.args).fallback === null)
+}
+
 export function ussCleanup(opts = {}) {
-    const { removeEmpty = true, warn = false } = opts
+    const { removeEmpty = true, warn = false, variables = "strip" } = opts
     const removedProperties = new Map()
+    const globals = new Map()
+    const defined = new Set()
+
+    /** The custom properties a declaration can see: :root's, then its rule's. */
+    const scopeOf = (decl) => {
+        const scope = new Map(globals)
+        decl.parent?.each?.((node) => {
+            if (node.type === "decl" && node.prop.startsWith("--")) scope.set(node.prop, node.value)
+        })
+        return scope
+    }
 
     return {
         postcssPlugin: "postcss-uss-cleanup",
 
+        // Collect the custom properties before any value is resolved
+        Once(root) {
+            globals.clear()
+            defined.clear()
+            if (variables !== "keep") return
+            root.walkRules((rule) => {
+                const global = rule.selectors.every((selector) => GLOBAL_SCOPES.has(selector.trim()))
+                rule.each((node) => {
+                    if (node.type !== "decl" || !node.prop.startsWith("--")) return
+                    defined.add(node.prop)
+                    if (global) globals.set(node.prop, node.value)
+                })
+            })
+        },
+
         // Remove unsupported at-rules
         AtRule(atRule) {
             const unsupportedAtRules = ["keyframes", "font-face", "supports", "layer", "container"]
@@ -152,23 +347,39 @@ export function ussCleanup(opts = {}) {
         },
 
         // Remove unsupported declarations
-        Declaration(decl) {
-            // Remove CSS custom properties
-            if (decl.prop.startsWith("--")) {
-                decl.remove()
-                return
-            }
+        Declaration(decl, { result }) {
+            // Keep custom properties and var() where USS can parse them
+            if (variables === "keep" && (decl.prop.startsWith("--") || /(^|[^\w-])(var|calc)\(/.test(decl.value))) {
+                if (!isUssCompatible(decl.value)) {
+                    // A property's own name is unresolvable in its value
+                    const resolving = decl.prop.startsWith("--") ? [decl.prop] : []
+                    const resolved = resolveValue(decl.value, scopeOf(decl), defined, false, resolving)
+                    if (resolved === null) {
+                        decl.warn(result, `Cannot represent "${decl.prop}: ${decl.value}" in USS; removed`)
+                        decl.remove()
+                        return
+                    }
+                    decl.value = resolved
+                }
+                if (decl.prop.startsWith("--")) return
+            } else {
+                // Remove CSS custom properties
+                if (decl.prop.startsWith("--")) {
+                    decl.remove()
+                    return
+                }
 
-            // Remove var() references
-            if (decl.value.includes("var(")) {
-                decl.remove()
-                return
-            }
+                // Remove var() references
+                if (decl.value.includes("var(")) {
+                    decl.remove()
+                    return
+                }
 
-            // Remove calc() with var() inside
-            if (decl.value.includes("calc(") && decl.value.includes("var(")) {
-                decl.remove()
-                return
+                // Remove calc() with var() inside
+                if (decl.value.includes("calc(") && decl.value.includes("var(")) {
+                    decl.remove()
+                    return
+                }
             }
 
             // Remove unsupported properties
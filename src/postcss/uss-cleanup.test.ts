@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest"
+import postcss from "postcss"
+import { ussCleanup } from "./uss-cleanup.mjs"
+
+async function cleanup(css: string, options: Record<string, unknown> = {}) {
+    const result = await postcss([ussCleanup(options)]).process(css, { from: undefined })
+    return { css: result.css, warnings: result.warnings().map((w) => w.text) }
+}
+
+describe("ussCleanup variables", () => {
+    it("strips custom properties and var() by default", async () => {
+        const { css } = await cleanup(`:root { --fg: red; }\n.a { color: var(--fg); width: 10px; }`)
+        expect(css).not.toContain("--fg")
+        expect(css).toContain(".a { width: 10px; }")
+    })
+
+    it("keeps what USS supports in keep mode", async () => {
+        const { css, warnings } = await cleanup(
+            `:root { --fg: red; --gap: 4px; }\n.a { color: var(--fg); --local: 2px; }`,
+            { variables: "keep" },
+        )
+        expect(css).toBe(`:root { --fg: red; --gap: 4px; }\n.a { color: var(--fg); --local: 2px; }`)
+        expect(warnings).toEqual([])
+    })
+
+    it("drops fallbacks of defined variables and resolves the rest", async () => {
+        const { css } = await cleanup(
+            `:root { --fg: red; }\n.a { color: var(--fg, blue); border-color: var(--missing, var(--also-missing, #fff)); }`,
+            { variables: "keep" },
+        )
+        expect(css).toContain("color: var(--fg);")
+        expect(css).toContain("border-color: #fff;")
+    })
+
+    it("keeps var() for variables a theme rule defines", async () => {
+        const { css } = await cleanup(
+            `.dark { --fg: white; }\n.text { color: var(--fg, black); background-color: var(--bg, #222); }`,
+            { variables: "keep" },
+        )
+        expect(css).toContain("color: var(--fg);")
+        expect(css).toContain("background-color: #222;")
+    })
+
+    it("evaluates calc() with variables from :root and the rule", async () => {
+        const { css } = await cleanup(
+            `:root { --gap: 4px; }\n.a { --scale: 3; margin: calc(var(--gap) * 2); padding: calc(var(--gap) * var(--scale) + 1px); width: calc(10% / 4); }`,
+            { variables: "keep" },
+        )
+        expect(css).toContain("margin: 8px;")
+        expect(css).toContain("padding: 13px;")
+        expect(css).toContain("width: 2.5%;")
+    })
+
+    it("resolves custom property definitions USS can't parse", async () => {
+        const { css } = await cleanup(
+            `:root { --gap: 4px; --double: calc(var(--gap) * 2); --accent: var(--brand, #ff0000); }`,
+            { variables: "keep" },
+        )
+        expect(css).toContain("--double: 8px;")
+        expect(css).toContain("--accent: #ff0000;")
+    })
+
+    it("warns about and removes values it can't represent", async () => {
+        const { css, warnings } = await cleanup(
+            `.a { width: calc(100% - 8px); height: calc(var(--unknown) * 2); color: red; }`,
+            { variables: "keep" },
+        )
+        expect(css).toBe(`.a { color: red; }`)
+        expect(warnings).toEqual([
+            `Cannot represent "width: calc(100% - 8px)" in USS; removed`,
+            `Cannot represent "height: calc(var(--unknown) * 2)" in USS; removed`,
+        ])
+    })
+})
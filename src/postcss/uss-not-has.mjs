@@ -0,0 +1,218 @@
+/**
+ * PostCSS plugin to rewrite or drop :not() and :has() selectors
+ *
+ * USS has neither, and Unity rejects the whole rule when it meets one. This
+ * rewrites the negations that have an exact USS equivalent, keeping the
+ * selector's specificity, and removes the rest with a warning instead:
+ *
+ * - `:not(:disabled)` / `:not(:enabled)` / `:not(:active)` / `:not(:inactive)`
+ *   become their opposite state (`:enabled`, ...)
+ * - `:not(.x)` becomes the other classes of x's group, when the group is
+ *   known: given in `groups`, or found in the stylesheet as the classes
+ *   compounded with the same selector. With `.btn.primary`, `.btn.secondary`
+ *   and `.btn.danger` in the sheet:
+ *
+ *     .btn:not(.primary) { opacity: 0.8; }
+ *   Becomes:
+ *     .btn.secondary, .btn.danger { opacity: 0.8; }
+ *
+ *   This assumes an element carries one class of the group, as variants do.
+ *   An inferred group may miss a class set only from code, so each rewrite
+ *   that relies on one warns; list the group in `groups` to confirm it.
+ * - Everything else (`:not(:hover)`, `:has(...)`, `:not([hidden])`) drops
+ *   the selector; a rule left with none is removed
+ *
+ * Run it after ussUnwrapIs, so `:not(:is(...))` is already flat.
+ *
+ * @param {Object} [opts]
+ * @param {string[][]} [opts.groups] Classes of which an element carries exactly one (`[["primary", "secondary"]]`)
+ * @param {boolean} [opts.inferGroups] Find groups in the stylesheet (default: true)
+ * @param {boolean} [opts.warn] Warn on the PostCSS result for each dropped selector and inferred rewrite (default: true)
+ */
+
+// State pseudo-classes with an exact USS opposite
+const OPPOSITE_STATES = {
+    disabled: "enabled",
+    enabled: "disabled",
+    active: "inactive",
+    inactive: "active",
+}
+
+/** Split a selector list on top-level commas. */
+function splitList(selector) {
+    const parts = []
+    let depth = 0
+    let current = ""
+    for (const char of selector) {
+        if (char === "(" || char === "[") depth++
+        else if (char === ")" || char === "]") depth--
+        if (char === "," && depth === 0) {
+            parts.push(current.trim())
+            current = ""
+            continue
+        }
+        current += char
+    }
+    if (current.trim()) parts.push(current.trim())
+    return parts
+}
+
+/** The first `:name(` call in `selector`, with its argument and end offset. */
+function findCall(selector, names) {
+    const match = new RegExp(`:(${names.join("|")})\\(`).exec(selector)
+    if (!match) return null
+    let depth = 0
+    for (let i = match.index + match[0].length - 1; i < selector.length; i++) {
+        if (selector[i] === "(") depth++
+        else if (selector[i] === ")" && --depth === 0) {
+            return {
+                name: match[1],
+                start: match.index,
+                end: i + 1,
+                args: splitList(selector.slice(match.index + match[0].length, i)),
+            }
+        }
+    }
+    return null
+}
+
+/** The bounds of the compound selector around `index` (between combinators). */
+function compoundAround(selector, start, end) {
+    let from = start
+    while (from > 0 && !/[\s>]/.test(selector[from - 1])) from--
+    let to = end
+    while (to < selector.length && !/[\s>]/.test(selector[to])) to++
+    return { from, to }
+}
+
+/** The class names of a compound (`Button.btn.primary:hover` -> btn, primary). */
+function classesOf(compound) {
+    return [...compound.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)].map((match) => match[1])
+}
+
+/** Every compound in the stylesheet's selectors, as class sets, for group inference. */
+function collectCompounds(root) {
+    const compounds = []
+    root.walkRules((rule) => {
+        for (const selector of splitList(rule.selector)) {
+            for (const compound of selector.split(/[\s>]+/)) {
+                if (compound.includes(":not(") || compound.includes(":has(")) continue
+                const classes = classesOf(compound)
+                if (classes.length > 0) compounds.push(new Set(classes))
+            }
+        }
+    })
+    return compounds
+}
+
+/**
+ * The group a negated class belongs to: an explicit one, or the classes that
+ * appear compounded with exactly the same other classes (`.btn.x` for base
+ * `.btn`). Null when unknown.
+ */
+function groupOf(className, baseClasses, opts, compounds) {
+    const explicit = opts.groups?.find((group) => group.includes(className))
+    if (explicit) return explicit
+    if (opts.inferGroups === false || baseClasses.length === 0) return null
+
+    const group = new Set()
+    for (const classes of compounds) {
+        if (classes.size !== baseClasses.length + 1) continue
+        if (!baseClasses.every((name) => classes.has(name))) continue
+        for (const name of classes) {
+            if (!baseClasses.includes(name)) group.add(name)
+        }
+    }
+    return group.has(className) && group.size > 1 ? [...group] : null
+}
+
+/**
+ * Rewrite one selector. Returns the selectors it becomes (none when it must
+ * be dropped), the reason for a drop, and the groups it inferred from the
+ * stylesheet (`:not(.primary)` -> "primary, secondary, danger").
+ */
+function rewriteSelector(selector, opts, compounds) {
+    const has = findCall(selector, ["has"])
+    if (has) return { selectors: [], reason: `":has(${has.args.join(", ")})" has no USS equivalent`, inferred: [] }
+
+    const not = findCall(selector, ["not"])
+    if (!not) return { selectors: [selector], inferred: [] }
+
+    const before = selector.slice(0, not.start)
+    const after = selector.slice(not.end)
+    const negation = `:not(${not.args.join(", ")})`
+
+    // :not(:disabled) -> :enabled
+    const states = not.args.map((arg) => arg.match(/^:([\w-]+)$/)?.[1])
+    if (not.args.length === 1 && states[0] && OPPOSITE_STATES[states[0]]) {
+        return rewriteSelector(`${before}:${OPPOSITE_STATES[states[0]]}${after}`, opts, compounds)
+    }
+
+    // :not(.x) or :not(.x, .y) -> the rest of their group
+    const negated = not.args.map((arg) => arg.match(/^\.(-?[_a-zA-Z][\w-]*)$/)?.[1])
+    if (negated.every(Boolean)) {
+        const { from, to } = compoundAround(selector, not.start, not.end)
+        const base = selector.slice(from, not.start) + selector.slice(not.end, to)
+        const group = groupOf(negated[0], classesOf(base), opts, compounds)
+        if (!group || !negated.every((name) => group.includes(name))) {
+            return { selectors: [], reason: `"${negation}" needs the group of classes "${negated.join(", ")}" belongs to (see the groups option)`, inferred: [] }
+        }
+        const rest = group.filter((name) => !negated.includes(name))
+        if (rest.length === 0) {
+            return { selectors: [], reason: `"${negation}" excludes every class of its group`, inferred: [] }
+        }
+        const inferred = opts.groups?.includes(group) ? [] : [group.join(", ")]
+        const results = []
+        for (const name of rest) {
+            const rewritten = rewriteSelector(`${before}.${name}${after}`, opts, compounds)
+            if (rewritten.selectors.length === 0) return rewritten
+            results.push(...rewritten.selectors)
+            inferred.push(...rewritten.inferred)
+        }
+        return { selectors: results, inferred: [...new Set(inferred)] }
+    }
+
+    return { selectors: [], reason: `"${negation}" has no USS equivalent`, inferred: [] }
+}
+
+export function ussNotHas(opts = {}) {
+    const { warn = true } = opts
+
+    return {
+        postcssPlugin: "postcss-uss-not-has",
+
+        OnceExit(root, { result }) {
+            const compounds = collectCompounds(root)
+
+            root.walkRules((rule) => {
+                if (!rule.selector.includes(":not(") && !rule.selector.includes(":has(")) return
+
+                const kept = []
+                for (const selector of splitList(rule.selector)) {
+                    const { selectors, reason, inferred } = rewriteSelector(selector, opts, compounds)
+                    if (reason && warn) {
+                        rule.warn(result, `Dropped selector "${selector}": ${reason}`)
+                    } else if (inferred.length > 0 && warn) {
+                        rule.warn(
+                            result,
+                            `Rewrote selector "${selector}" as "${selectors.join(", ")}" assuming the group ` +
+                                `${inferred.map((group) => `"${group}"`).join(" and ")} from the stylesheet; ` +
+                                "list it in the groups option to confirm it",
+                        )
+                    }
+                    kept.push(...selectors)
+                }
+
+                const unique = [...new Set(kept)]
+                if (unique.length === 0) {
+                    rule.remove()
+                } else {
+                    rule.selector = unique.join(", ")
+                }
+            })
+        },
+    }
+}
+
+ussNotHas.postcss = true
+export default ussNotHas
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest"
+import postcss from "postcss"
+import { ussNotHas } from "./uss-not-has.mjs"
+
+async function rewrite(css: string, options: Record<string, unknown> = {}) {
+    const result = await postcss([ussNotHas(options)]).process(css, { from: undefined })
+    return { css: result.css, warnings: result.warnings().map((w) => w.text) }
+}
+
+describe("ussNotHas", () => {
+    it("turns negated states into their opposite", async () => {
+        const { css, warnings } = await rewrite(`.btn:not(:disabled):hover { opacity: 1; }\n.tab:not(:active) { opacity: 0.5; }`)
+        expect(css).toBe(`.btn:enabled:hover { opacity: 1; }\n.tab:inactive { opacity: 0.5; }`)
+        expect(warnings).toEqual([])
+    })
+
+    it("expands a negated class into the rest of its inferred group", async () => {
+        const { css, warnings } = await rewrite([
+            `.btn.primary { color: blue; }`,
+            `.btn.secondary { color: gray; }`,
+            `.btn.danger { color: red; }`,
+            `.toolbar > .btn:not(.primary):hover .icon { opacity: 0.8; }`,
+        ].join("\n"))
+        expect(css).toContain(`.toolbar > .btn.secondary:hover .icon, .toolbar > .btn.danger:hover .icon { opacity: 0.8; }`)
+        expect(warnings).toEqual([
+            `Rewrote selector ".toolbar > .btn:not(.primary):hover .icon" as ".toolbar > .btn.secondary:hover .icon, ` +
+                `.toolbar > .btn.danger:hover .icon" assuming the group "primary, secondary, danger" from the stylesheet; ` +
+                "list it in the groups option to confirm it",
+        ])
+    })
+
+    it("uses explicit groups", async () => {
+        const { css, warnings } = await rewrite(`.tab:not(.selected, .pinned) { opacity: 0.5; }`, {
+            groups: [["selected", "pinned", "idle", "closed"]],
+        })
+        expect(css).toBe(`.tab.idle, .tab.closed { opacity: 0.5; }`)
+        expect(warnings).toEqual([])
+    })
+
+    it("drops what it can't rewrite, keeping the other selectors", async () => {
+        const { css, warnings } = await rewrite(
+            `.a:not(:hover), .b { color: red; }\n.card:has(.icon) { padding: 4px; }\n.x:not(.y) { color: blue; }`,
+        )
+        expect(css).toBe(`.b { color: red; }`)
+        expect(warnings).toEqual([
+            `Dropped selector ".a:not(:hover)": ":not(:hover)" has no USS equivalent`,
+            `Dropped selector ".card:has(.icon)": ":has(.icon)" has no USS equivalent`,
+            `Dropped selector ".x:not(.y)": ":not(.y)" needs the group of classes "y" belongs to (see the groups option)`,
+        ])
+    })
+
+    it("drops a negation that excludes its whole group", async () => {
+        const { css, warnings } = await rewrite(`.a:not(.b, .c) { color: red; }`, { groups: [["b", "c"]], warn: false })
+        expect(css).toBe("")
+        expect(warnings).toEqual([])
+    })
+})
@@ -0,0 +1,153 @@
+/**
+ * The USS property schema
+ *
+ * Every property UI Toolkit's style sheet importer accepts, with the grammar
+ * of its value, for ussValidate / validateUss. Grammars use a small subset
+ * of the CSS value definition syntax:
+ *
+ *   <length> | auto      one of the alternatives
+ *   <length> {1,4}       one to four space-separated values
+ *   # <time>             a comma-separated list (each item may repeat too)
+ *
+ * Value types are checked by VALUE_TYPES; anything else is a keyword.
+ * `initial` and values containing var() are valid for every property.
+ */
+
+const NUMBER = "-?(?:\\d+\\.?\\d*|\\.\\d+)"
+
+const NAMED_COLOR = /^[a-z]+$/i
+
+/** Checkers for the `<type>`s the grammars use. */
+export const VALUE_TYPES = {
+    // Unitless numbers are read as px
+    length: (token) => new RegExp(`^${NUMBER}(px|%)?$`).test(token),
+    number: (token) => new RegExp(`^${NUMBER}$`).test(token),
+    integer: (token) => /^-?\d+$/.test(token),
+    time: (token) => token === "0" || new RegExp(`^${NUMBER}(s|ms)$`).test(token),
+    angle: (token) => token === "0" || new RegExp(`^${NUMBER}(deg|rad|grad|turn)$`).test(token),
+    color: (token) =>
+        /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(token) ||
+        /^rgba?\(\s*[\d.]+%?\s*(,\s*[\d.]+%?\s*){2,3}\)$/.test(token) ||
+        NAMED_COLOR.test(token),
+    resource: (token) => /^(url|resource)\(.*\)$/.test(token),
+    ident: (token) => /^-?[a-zA-Z_][\w-]*$/.test(token),
+    // Property names are checked against USS_PROPERTIES by the validator
+    property: (token) => /^-?[a-zA-Z_][\w-]*$/.test(token),
+    easing: (token) => EASINGS.has(token),
+}
+
+/** transition-timing-function keywords. USS has no cubic-bezier() or steps(). */
+export const EASINGS = new Set([
+    "ease", "ease-in", "ease-out", "ease-in-out", "linear",
+    ...["sine", "cubic", "circ", "elastic", "back", "bounce"].flatMap((curve) => [
+        `ease-in-${curve}`, `ease-out-${curve}`, `ease-in-out-${curve}`,
+    ]),
+])
+
+/** Pseudo-classes USS matches. Everything else (`:focus-within`, `:not()`) is an error. */
+export const PSEUDO_CLASSES = new Set([
+    "hover", "active", "inactive", "focus", "selected", "disabled", "enabled", "checked", "root",
+])
+
+const ALIGN = "auto | flex-start | flex-end | center | stretch"
+const SIDE_LENGTH = "<length> | auto"
+
+/** Property name -> value grammar. */
+export const USS_PROPERTIES = {
+    "align-content": `${ALIGN} | space-between | space-around`,
+    "align-items": ALIGN,
+    "align-self": ALIGN,
+    "all": "initial",
+    "aspect-ratio": "<number> | auto {1,2}",
+    "background-color": "<color>",
+    "background-image": "<resource> | none",
+    "background-position": "<length> | left | right | top | bottom | center {1,4}",
+    "background-position-x": "<length> | left | right | center {1,2}",
+    "background-position-y": "<length> | top | bottom | center {1,2}",
+    "background-repeat": "repeat | no-repeat | space | round | repeat-x | repeat-y {1,2}",
+    "background-size": "<length> | auto | cover | contain {1,2}",
+    "border-color": "<color> {1,4}",
+    "border-top-color": "<color>",
+    "border-right-color": "<color>",
+    "border-bottom-color": "<color>",
+    "border-left-color": "<color>",
+    "border-radius": "<length> {1,4}",
+    "border-top-left-radius": "<length>",
+    "border-top-right-radius": "<length>",
+    "border-bottom-left-radius": "<length>",
+    "border-bottom-right-radius": "<length>",
+    "border-width": "<length> {1,4}",
+    "border-top-width": "<length>",
+    "border-right-width": "<length>",
+    "border-bottom-width": "<length>",
+    "border-left-width": "<length>",
+    "top": SIDE_LENGTH,
+    "right": SIDE_LENGTH,
+    "bottom": SIDE_LENGTH,
+    "left": SIDE_LENGTH,
+    "color": "<color>",
+    "cursor": "<resource> | <number> | <ident> {1,3}",
+    "display": "flex | none",
+    "flex": "<number> | <length> | auto | none {1,3}",
+    "flex-basis": SIDE_LENGTH,
+    "flex-direction": "row | row-reverse | column | column-reverse",
+    "flex-grow": "<number>",
+    "flex-shrink": "<number>",
+    "flex-wrap": "nowrap | wrap | wrap-reverse",
+    "font-size": "<length>",
+    "height": SIDE_LENGTH,
+    "width": SIDE_LENGTH,
+    "min-height": SIDE_LENGTH,
+    "min-width": SIDE_LENGTH,
+    "max-height": "<length> | none",
+    "max-width": "<length> | none",
+    "justify-content": "flex-start | flex-end | center | space-between | space-around | space-evenly",
+    "letter-spacing": "<length>",
+    "word-spacing": "<length>",
+    "margin": `${SIDE_LENGTH} {1,4}`,
+    "margin-top": SIDE_LENGTH,
+    "margin-right": SIDE_LENGTH,
+    "margin-bottom": SIDE_LENGTH,
+    "margin-left": SIDE_LENGTH,
+    "padding": "<length> {1,4}",
+    "padding-top": "<length>",
+    "padding-right": "<length>",
+    "padding-bottom": "<length>",
+    "padding-left": "<length>",
+    "opacity": "<number>",
+    "overflow": "visible | hidden",
+    "position": "relative | absolute",
+    "rotate": "<angle> | none",
+    "scale": "<number> | none {1,3}",
+    "translate": "<length> | none {1,3}",
+    "transform-origin": "<length> | left | right | top | bottom | center {1,3}",
+    "text-overflow": "clip | ellipsis",
+    "text-shadow": "<length> | <color> {2,4}",
+    "transition": "# <property> | <time> | <easing> {1,4}",
+    "transition-delay": "# <time>",
+    "transition-duration": "# <time>",
+    "transition-property": "# <property>",
+    "transition-timing-function": "# <easing>",
+    "visibility": "visible | hidden",
+    "white-space": "normal | nowrap | pre | pre-wrap",
+    "-unity-background-image-tint-color": "<color>",
+    "-unity-background-scale-mode": "stretch-to-fill | scale-and-crop | scale-to-fit",
+    "-unity-editor-text-rendering-mode": "legacy | distance-field",
+    "-unity-font": "<resource> | none",
+    "-unity-font-definition": "<resource> | none",
+    "-unity-font-style": "normal | italic | bold | bold-and-italic",
+    "-unity-overflow-clip-box": "padding-box | content-box",
+    "-unity-paragraph-spacing": "<length>",
+    "-unity-slice-top": "<integer>",
+    "-unity-slice-right": "<integer>",
+    "-unity-slice-bottom": "<integer>",
+    "-unity-slice-left": "<integer>",
+    "-unity-slice-scale": "<length>",
+    "-unity-slice-type": "sliced | tiled",
+    "-unity-text-align": "upper-left | upper-center | upper-right | middle-left | middle-center | middle-right | lower-left | lower-center | lower-right",
+    "-unity-text-generator": "standard | advanced",
+    "-unity-text-outline": "<length> | <color> {1,2}",
+    "-unity-text-outline-color": "<color>",
+    "-unity-text-outline-width": "<length>",
+    "-unity-text-overflow-position": "start | middle | end",
+}
@@ -6,8 +6,18 @@
  * - Media query conversion to breakpoint class prefixes
  * - rem to px conversion
  * - Modern color syntax to rgba()
+ * - Dropping !important, which USS does not parse
+ * - Shorthands and units USS rejects (`border`, `inset`, `place-*`, `em`,
+ *   `vw`/`vh`, cubic-bezier() transitions) rewritten as USS longhands; see
+ *   declarations.mjs. What has no USS equivalent is removed with a warning.
+ *
+ * @param {Object} [opts]
+ * @param {number} [opts.baseFontSize] px per rem and em (default: 16)
+ * @param {{ width: number, height: number }} [opts.viewport] Panel size for vw/vh; otherwise they become percentages where the axis matches, with a warning
  */
 
+import { rewriteDeclaration } from "./declarations.mjs"
+
 const ESCAPE_MAP = {
     ":": "_c_",
     "/": "_s_",
@@ -24,6 +34,8 @@ const ESCAPE_MAP = {
     "<": "_lt_",
     "*": "_ast_",
     "'": "_sq_",
+    "!": "_ex_",
+    "@": "_at_",
 }
 
 // Breakpoint mappings (Tailwind defaults)
@@ -137,7 +149,7 @@ function transformSelector(selector) {
     // Match class selectors including backslash escapes
     // Captures characters OR backslash+any char, but stops at unescaped : # [ etc.
     return selector.replace(
-        /\.(-?[_a-zA-Z](?:[^\s,.#:\[\]{}()+>~\\]|\\.)*)(?=[:\s,.#\[\]{}()+>~]|$)/g,
+        /\.(-?(?:[_a-zA-Z]|\\!)(?:[^\s,.#:\[\]{}()+>~\\]|\\.)*)(?=[:\s,.#\[\]{}()+>~]|$)/g,
         (match, className) => {
             // Remove any backslash escapes that Tailwind adds
             const unescaped = className.replace(/\\/g, "")
@@ -192,7 +204,7 @@ export function ussTransform(opts = {}) {
         },
 
         // Transform declarations
-        Declaration(decl) {
+        Declaration(decl, { result }) {
             let value = decl.value
 
             // Convert rem to px
@@ -210,9 +222,30 @@ export function ussTransform(opts = {}) {
                 value = hex8ToRgba(value)
             }
 
-            if (value !== decl.value) {
-                decl.value = value
+            // USS has no !important (Tailwind's `!` modifier emits it)
+            if (decl.important) {
+                decl.important = false
+            }
+
+            // Expand shorthands and convert units USS doesn't parse
+            const declarations = rewriteDeclaration(decl.prop, value, {
+                baseFontSize,
+                viewport: opts.viewport,
+                warn: (message) => decl.warn(result, message),
+            })
+            if (declarations === null) {
+                decl.warn(result, `"${decl.prop}: ${decl.value}" has no USS equivalent; removed`)
+                decl.remove()
+                return
+            }
+            const [first] = declarations
+            if (declarations.length === 1 && first[0] === decl.prop) {
+                if (first[1] !== decl.value) {
+                    decl.value = first[1]
+                }
+                return
             }
+            decl.replaceWith(declarations.map(([prop, val]) => decl.clone({ prop, value: val })))
         }
     }
 }
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest"
+import postcss from "postcss"
+import { ussTransform } from "./uss-transform.mjs"
+
+async function transform(css: string, options: Record<string, unknown> = {}) {
+    const result = await postcss([ussTransform(options)]).process(css, { from: undefined })
+    return { css: result.css, warnings: result.warnings().map((w) => w.text) }
+}
+
+// ============================================================================
+// Declarations: CSS in, USS out
+// ============================================================================
+
+// [description, CSS declarations, expected USS declarations]
+const DECLARATIONS: Array<[string, string, string]> = [
+    // Units
+    ["rem to px", "padding: 1.5rem", "padding: 24px"],
+    ["em to px", "margin: 0.5em 2em", "margin: 8px 32px"],
+    ["leaves rem-like names alone", "font-size: 12px", "font-size: 12px"],
+
+    // Colors
+    ["modern rgb()", "color: rgb(255 0 0 / 0.5)", "color: rgba(255, 0, 0, 0.5)"],
+    ["8-digit hex", "color: #ff000080", "color: rgba(255, 0, 0, 0.50)"],
+
+    // Borders
+    ["border shorthand", "border: 1px solid red", "border-width: 1px; border-color: red"],
+    ["border with a function color", "border: 2px dashed rgba(0, 0, 0, 0.5)", "border-width: 2px; border-color: rgba(0, 0, 0, 0.5)"],
+    ["border keyword width", "border: thin solid #fff", "border-width: 1px; border-color: #fff"],
+    ["border without a width", "border: solid blue", "border-width: 3px; border-color: blue"],
+    ["border none", "border: none", "border-width: 0"],
+    ["border without a style", "border: 1px red", "border-width: 0"],
+    ["single side", "border-top: 1px solid #000", "border-top-width: 1px; border-top-color: #000"],
+    ["border-style solid", "border-style: solid", ""],
+    ["border-style none", "border-style: none", "border-width: 0"],
+    ["border-width keywords", "border-width: thin thick", "border-width: 1px 5px"],
+    ["elliptical radius", "border-radius: 10px 5px / 20px", "border-radius: 10px 5px"],
+
+    // Positioning
+    ["inset, one value", "inset: 0", "top: 0; right: 0; bottom: 0; left: 0"],
+    ["inset, two values", "inset: 4px 8px", "top: 4px; right: 8px; bottom: 4px; left: 8px"],
+    ["inset, four values", "inset: 1px 2px 3px 4px", "top: 1px; right: 2px; bottom: 3px; left: 4px"],
+    ["inset-inline", "inset-inline: 0", "left: 0; right: 0"],
+    ["inset-block", "inset-block: 2px 4px", "top: 2px; bottom: 4px"],
+
+    // Alignment
+    ["place-items", "place-items: center", "align-items: center"],
+    ["place-content", "place-content: center space-between", "align-content: center; justify-content: space-between"],
+    ["place-self", "place-self: end", "align-self: flex-end"],
+    ["start/end keywords", "justify-content: start", "justify-content: flex-start"],
+    ["normal on the cross axis", "align-items: normal", "align-items: stretch"],
+    ["normal on the main axis", "justify-content: normal", "justify-content: flex-start"],
+    ["normal in place-content", "place-content: normal", "align-content: stretch; justify-content: flex-start"],
+
+    // Transitions
+    [
+        "transition with all and a Tailwind curve",
+        "transition: all 150ms cubic-bezier(0.4, 0, 0.2, 1)",
+        "transition-property: all; transition-duration: 150ms; transition-timing-function: ease-in-out; transition-delay: 0s",
+    ],
+    [
+        "transition list",
+        "transition: opacity 0.2s ease-in, transform 0.3s linear 0.1s",
+        "transition-property: opacity, translate, rotate, scale; transition-duration: 0.2s, 0.3s, 0.3s, 0.3s; "
+            + "transition-timing-function: ease-in, linear, linear, linear; transition-delay: 0s, 0.1s, 0.1s, 0.1s",
+    ],
+    [
+        "Tailwind's transition-property list",
+        "transition-property: color, background-color, fill, stroke, box-shadow, transform",
+        "transition-property: color, background-color, translate, rotate, scale",
+    ],
+    ["timing function curve", "transition-timing-function: cubic-bezier(0, 0, 0.2, 1)", "transition-timing-function: ease-out"],
+
+    // Passed through
+    ["flex shorthand", "flex: 1 1 0%", "flex: 1 1 0%"],
+    ["custom properties", "--gap: 1em", "--gap: 1em"],
+    ["!important dropped", "color: red !important", "color: red"],
+]
+
+describe("ussTransform declarations", () => {
+    it.each(DECLARATIONS)("%s", async (_, input, expected) => {
+        const { css, warnings } = await transform(`.a { ${input} }`)
+        expect(css).toBe(expected ? `.a { ${expected} }` : `.a { }`)
+        expect(warnings).toEqual([])
+    })
+
+    it("converts viewport units to px against a given viewport", async () => {
+        const { css } = await transform(`.a { margin-top: 10vh; width: 50vw; }`, { viewport: { width: 1920, height: 1080 } })
+        expect(css).toBe(`.a { margin-top: 108px; width: 960px; }`)
+    })
+
+    it("approximates viewport units as percentages without a viewport, with a warning", async () => {
+        const { css, warnings } = await transform(`.a { width: 50vw; max-height: 100vh; }`)
+        expect(css).toBe(`.a { width: 50%; max-height: 100%; }`)
+        expect(warnings).toEqual([
+            `"width: 50vw" became "width: 50%", which only matches on a full-size panel; pass viewport to convert it to px`,
+            `"max-height: 100vh" became "max-height: 100%", which only matches on a full-size panel; pass viewport to convert it to px`,
+        ])
+    })
+
+    it("warns about and removes what USS can't express", async () => {
+        const { css, warnings } = await transform(
+            `.a { margin-top: 10vh; transition: opacity 1s cubic-bezier(0.1, 0.7, 1, 0.1); border-style: dashed; color: red; }`,
+        )
+        expect(css).toBe(`.a { color: red; }`)
+        expect(warnings).toEqual([
+            `"margin-top: 10vh" has no USS equivalent; removed`,
+            `"transition: opacity 1s cubic-bezier(0.1, 0.7, 1, 0.1)" has no USS equivalent; removed`,
+            `"border-style: dashed" has no USS equivalent; removed`,
+        ])
+    })
+})
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+// [description, CSS, expected USS]
+const RULES: Array<[string, string, string]> = [
+    ["escapes variant classes", `.hover\\:bg-red-500:hover { color: red; }`, `.hover_c_bg-red-500:hover { color: red; }`],
+    ["escapes fractions", `.w-1\\/2 { width: 50%; }`, `.w-1_s_2 { width: 50%; }`],
+    ["unwraps min-width media queries", `@media (min-width: 768px) { .md\\:p-4 { padding: 16px; } }`, `.md .md_c_p-4 { padding: 16px; }`],
+    ["expands inside media queries", `@media (min-width: 640px) { .a { inset: 0; } }`, `.sm .a { top: 0; right: 0; bottom: 0; left: 0; }`],
+]
+
+describe("ussTransform rules", () => {
+    it.each(RULES)("%s", async (_, input, expected) => {
+        const { css } = await transform(input)
+        expect(css.replace(/\s+/g, " ").trim()).toBe(expected)
+    })
+})
@@ -0,0 +1,265 @@
+/**
+ * PostCSS plugin and API to validate USS
+ *
+ * Unity reports invalid USS only when it imports the file, and often just by
+ * skipping the rule. This checks a stylesheet against what UI Toolkit's
+ * parser accepts, so the same mistakes fail the build or CI instead:
+ *
+ * - Selectors: attribute selectors, `+` / `~` combinators, pseudo-elements,
+ *   functional pseudo-classes (`:not()`, `:is()`) and pseudo-classes USS
+ *   doesn't match (`:focus-within`), and backslash escapes
+ * - Properties unknown to USS (see uss-schema.mjs)
+ * - Values that don't fit the property's grammar, and `!important`
+ * - At-rules other than `@import`
+ *
+ * Run it last, on the USS the other plugins produce:
+ *
+ *   postcss([ussTransform(), ussCleanup(), ussValidate()])
+ *
+ * Or check a string directly:
+ *
+ *   const { valid, errors } = validateUss(css)
+ *   // errors: [{ message, line, column, endLine, endColumn }]
+ */
+
+import postcss from "postcss"
+import { USS_PROPERTIES, VALUE_TYPES, PSEUDO_CLASSES } from "./uss-schema.mjs"
+
+// =============================================================================
+// Grammar
+// =============================================================================
+
+const grammars = new Map()
+
+/** Parse a schema grammar (`# <time> | auto {1,4}`) once. */
+function parseGrammar(text) {
+    if (grammars.has(text)) return grammars.get(text)
+    let body = text.trim()
+    const list = body.startsWith("#")
+    if (list) body = body.slice(1).trim()
+    let min = 1
+    let max = 1
+    const repeat = body.match(/\{(\d+),(\d+)\}$/)
+    if (repeat) {
+        min = Number(repeat[1])
+        max = Number(repeat[2])
+        body = body.slice(0, repeat.index).trim()
+    }
+    const alternatives = body.split("|").map((alternative) => alternative.trim())
+    const grammar = { list, min, max, alternatives }
+    grammars.set(text, grammar)
+    return grammar
+}
+
+/** Split on top-level `separator`, keeping function arguments whole. */
+function splitTopLevel(value, separator) {
+    const parts = []
+    let depth = 0
+    let current = ""
+    for (const char of value) {
+        if (char === "(") depth++
+        else if (char === ")") depth--
+        if (depth === 0 && separator.test(char)) {
+            if (current.trim()) parts.push(current.trim())
+            current = ""
+            continue
+        }
+        current += char
+    }
+    if (current.trim()) parts.push(current.trim())
+    return parts
+}
+
+function matchesToken(token, alternatives) {
+    return alternatives.some((alternative) => {
+        const type = alternative.match(/^<([\w-]+)>$/)?.[1]
+        if (!type) return token === alternative
+        if (type === "property") {
+            return ["all", "none", "initial"].includes(token) || Object.hasOwn(USS_PROPERTIES, token)
+        }
+        return VALUE_TYPES[type](token)
+    })
+}
+
+/** The first token of `value` the grammar rejects, or "" when the count is wrong; null when valid. */
+function checkValue(value, grammarText) {
+    const grammar = parseGrammar(grammarText)
+    const items = grammar.list ? splitTopLevel(value, /,/) : [value]
+    if (items.length === 0) return ""
+    for (const item of items) {
+        const tokens = splitTopLevel(item, /\s/)
+        for (const token of tokens) {
+            if (!matchesToken(token, grammar.alternatives)) return token
+        }
+        if (tokens.length < grammar.min || tokens.length > grammar.max) return ""
+    }
+    return null
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Problems in a selector, with their offsets: `{ message, index, endIndex }`.
+ */
+function checkSelector(selector) {
+    const problems = []
+    const report = (message, index, endIndex) => problems.push({ message, index, endIndex })
+    for (let i = 0; i < selector.length; i++) {
+        const char = selector[i]
+        if (char === "\\") {
+            report(`Escaped characters ("${selector.slice(i, i + 2)}") are not supported in USS selectors`, i, i + 2)
+            i++
+        } else if (char === "[") {
+            const end = selector.indexOf("]", i)
+            report("Attribute selectors are not supported in USS", i, end === -1 ? selector.length : end + 1)
+            if (end !== -1) i = end
+        } else if (char === "+" || char === "~") {
+            report(`The "${char}" combinator is not supported in USS`, i, i + 1)
+        } else if (char === ":") {
+            const match = selector.slice(i).match(/^(::?)(-?[\w-]+)(\()?/)
+            if (!match) continue
+            const [text, colons, name, call] = match
+            if (colons === "::") {
+                report(`Pseudo-element "::${name}" is not supported in USS`, i, i + text.length)
+            } else if (call) {
+                let depth = 0
+                let end = i + text.length - 1
+                for (; end < selector.length; end++) {
+                    if (selector[end] === "(") depth++
+                    else if (selector[end] === ")" && --depth === 0) break
+                }
+                report(`Pseudo-class ":${name}()" is not supported in USS`, i, end + 1)
+                i = end
+                continue
+            } else if (!PSEUDO_CLASSES.has(name)) {
+                report(`Unknown pseudo-class ":${name}"`, i, i + text.length)
+            }
+            i += text.length - 1
+        }
+    }
+    return problems
+}
+
+/**
+ * Walk a parsed stylesheet and call `report(node, message, { index, endIndex })`
+ * for every problem, the offsets (when given) relative to the node's text.
+ */
+function checkRoot(root, report) {
+    root.walk((node) => {
+        if (node.type === "atrule") {
+            if (node.name !== "import") {
+                report(node, `At-rule "@${node.name}" is not supported in USS`, { index: 0, endIndex: node.name.length + 1 })
+            }
+            return
+        }
+
+        if (node.type === "rule") {
+            // Offsets are into the raw selector, which is where the rule's text starts
+            for (const problem of checkSelector(node.selector)) {
+                report(node, problem.message, { index: problem.index, endIndex: problem.endIndex })
+            }
+            return
+        }
+
+        if (node.type !== "decl") return
+        const valueIndex = node.prop.length + (node.raws.between ?? ":").length
+        const valueRange = { index: valueIndex, endIndex: valueIndex + node.value.length }
+
+        if (node.important) {
+            report(node, "USS does not support !important", valueRange)
+        }
+        if (node.prop.startsWith("--")) return
+
+        const grammar = USS_PROPERTIES[node.prop]
+        if (grammar === undefined) {
+            report(node, `Unknown USS property "${node.prop}"`, { index: 0, endIndex: node.prop.length })
+            return
+        }
+        const value = node.value.trim()
+        if (value === "initial" || value.includes("var(")) return
+
+        const invalid = checkValue(value, grammar)
+        if (invalid === null) return
+        if (invalid === "") {
+            report(node, `Invalid value "${value}" for "${node.prop}" (expected ${grammar})`, valueRange)
+        } else {
+            const offset = valueIndex + node.value.indexOf(invalid)
+            report(node, `Invalid value "${invalid}" for "${node.prop}" (expected ${grammar})`, { index: offset, endIndex: offset + invalid.length })
+        }
+    })
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+/**
+ * Check a USS string.
+ *
+ * @param {string} css USS source
+ * @param {Object} [options]
+ * @param {string} [options.from] File name, for the errors
+ * @returns {{ valid: boolean, errors: Array<{ message: string, line: number, column: number, endLine: number, endColumn: number, file?: string }> }}
+ *   Lines and columns are 1-based, like PostCSS's
+ */
+export function validateUss(css, options = {}) {
+    const errors = []
+    let root
+    try {
+        root = postcss.parse(css, { from: options.from })
+    } catch (error) {
+        if (error.name !== "CssSyntaxError") throw error
+        errors.push({
+            message: error.reason,
+            line: error.line,
+            column: error.column,
+            endLine: error.endLine ?? error.line,
+            endColumn: error.endColumn ?? error.column,
+            ...(options.from && { file: options.from }),
+        })
+        return { valid: false, errors }
+    }
+
+    checkRoot(root, (node, message, { index, endIndex }) => {
+        const start = node.positionInside(index)
+        const end = node.positionInside(endIndex)
+        errors.push({
+            message,
+            line: start.line,
+            column: start.column,
+            endLine: end.line,
+            endColumn: end.column,
+            ...(options.from && { file: options.from }),
+        })
+    })
+    return { valid: errors.length === 0, errors }
+}
+
+/**
+ * The PostCSS plugin: reports problems as warnings on the result, which
+ * carry line and column, or throws on the first one.
+ *
+ * @param {Object} [opts]
+ * @param {boolean} [opts.throwOnError] Throw a CssSyntaxError instead of warning (default: false)
+ */
+export function ussValidate(opts = {}) {
+    const { throwOnError = false } = opts
+
+    return {
+        postcssPlugin: "postcss-uss-validate",
+
+        OnceExit(root, { result }) {
+            checkRoot(root, (node, message, offsets) => {
+                // Nodes another plugin created have no source to point into
+                const range = node.source?.start ? offsets : {}
+                if (throwOnError) throw node.error(message, range)
+                node.warn(result, message, range)
+            })
+        },
+    }
+}
+
+ussValidate.postcss = true
+export default ussValidate
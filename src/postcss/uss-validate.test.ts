@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest"
+import postcss from "postcss"
+import { ussValidate, validateUss } from "./uss-validate.mjs"
+
+const messages = (css: string) => validateUss(css).errors.map((e) => e.message)
+
+describe("validateUss", () => {
+    it("accepts valid USS", () => {
+        const result = validateUss([
+            `@import url("base.uss");`,
+            `:root { --accent: #4f46e5; }`,
+            `Button.primary:hover > .icon, #title * { color: rgba(255, 0, 0, 0.5); margin: 4px auto; }`,
+            `.card { border-width: 1px; border-color: var(--accent); -unity-font-style: bold; transition: opacity 0.2s ease-in-sine, scale 150ms; }`,
+            `.hidden { display: none; translate: 10px 0; rotate: 45deg; width: initial; }`,
+        ].join("\n"))
+        expect(result).toEqual({ valid: true, errors: [] })
+    })
+
+    it("reports selectors USS can't match", () => {
+        expect(messages(`.a + .b, .c ~ .d { color: red; }`)).toEqual([
+            `The "+" combinator is not supported in USS`,
+            `The "~" combinator is not supported in USS`,
+        ])
+        expect(messages(`input[type="text"] { color: red; }`)).toEqual(["Attribute selectors are not supported in USS"])
+        expect(messages(`.a::before { color: red; }`)).toEqual([`Pseudo-element "::before" is not supported in USS`])
+        expect(messages(`.a:not(.b):focus-within { color: red; }`)).toEqual([
+            `Pseudo-class ":not()" is not supported in USS`,
+            `Unknown pseudo-class ":focus-within"`,
+        ])
+        expect(messages(`.hover\\:bg-red { color: red; }`)).toEqual([
+            `Escaped characters ("\\:") are not supported in USS selectors`,
+        ])
+    })
+
+    it("reports unknown properties, invalid values and !important", () => {
+        expect(messages(`.a { gap: 4px; display: grid; margin: 1px 2px 3px 4px 5px; color: red !important; }`)).toEqual([
+            `Unknown USS property "gap"`,
+            `Invalid value "grid" for "display" (expected flex | none)`,
+            `Invalid value "1px 2px 3px 4px 5px" for "margin" (expected <length> | auto {1,4})`,
+            "USS does not support !important",
+        ])
+        expect(messages(`.a { transition-timing-function: cubic-bezier(0.4, 0, 0.2, 1); transition-property: box-shadow; }`)).toEqual([
+            `Invalid value "cubic-bezier(0.4, 0, 0.2, 1)" for "transition-timing-function" (expected # <easing>)`,
+            `Invalid value "box-shadow" for "transition-property" (expected # <property>)`,
+        ])
+    })
+
+    it("reports at-rules other than @import", () => {
+        expect(messages(`@media (min-width: 640px) { .a { color: red; } }`)).toEqual([`At-rule "@media" is not supported in USS`])
+    })
+
+    it("points at the offending text", () => {
+        const { errors } = validateUss(`.a {\n    color: red;\n    width: 10em;\n}\n.b:focus-within { }`, { from: "app.uss" })
+        expect(errors).toEqual([
+            { message: `Invalid value "10em" for "width" (expected <length> | auto)`, line: 3, column: 12, endLine: 3, endColumn: 16, file: "app.uss" },
+            { message: `Unknown pseudo-class ":focus-within"`, line: 5, column: 3, endLine: 5, endColumn: 16, file: "app.uss" },
+        ])
+    })
+
+    it("reports syntax errors", () => {
+        const { valid, errors } = validateUss(`.a { color: red;`)
+        expect(valid).toBe(false)
+        expect(errors).toEqual([expect.objectContaining({ message: "Unclosed block", line: 1, column: 1 })])
+    })
+})
+
+describe("ussValidate", () => {
+    it("warns with positions on the PostCSS result", async () => {
+        const result = await postcss([ussValidate()]).process(`.a {\n    cursor: pointer;\n    gap: 4px;\n}`, { from: undefined })
+        expect(result.warnings().map(({ text, line, column }) => ({ text, line, column }))).toEqual([
+            { text: `Unknown USS property "gap"`, line: 3, column: 5 },
+        ])
+    })
+
+    it("throws on the first problem with throwOnError", async () => {
+        await expect(postcss([ussValidate({ throwOnError: true })]).process(`.a { gap: 4px; }`, { from: undefined }))
+            .rejects.toThrow(/Unknown USS property "gap"/)
+    })
+})
@@ -163,6 +163,7 @@ export type {
     WoodTextureOptions,
     CheckerboardTextureOptions,
     GradientTextureOptions,
+    GradientDirection,
     ColorMap,
     RGBA,
     GPUPatternOptions,
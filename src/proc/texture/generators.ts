@@ -102,14 +102,21 @@ export interface CheckerboardTextureOptions extends TextureGeneratorOptions {
  * Gradient texture options.
  */
 export interface GradientTextureOptions extends TextureGeneratorOptions {
-    /** Gradient direction */
-    direction?: "horizontal" | "vertical" | "diagonal" | "radial"
+    /** Gradient direction ("antidiagonal" runs from (0, height) to (width, 0)) */
+    direction?: GradientDirection
     /** Start color */
     startColor?: RGBA
     /** End color */
     endColor?: RGBA
+    /** Evenly spaced color stops; overrides startColor/endColor when given */
+    stops?: RGBA[]
 }
 
+/**
+ * Gradient directions, in pixel-data coordinates (row 0 first).
+ */
+export type GradientDirection = "horizontal" | "vertical" | "diagonal" | "antidiagonal" | "radial"
+
 // =============================================================================
 // Color Maps
 // =============================================================================
@@ -422,6 +429,8 @@ export function generateGradient(options: GradientTextureOptions): Uint8ClampedA
         startColor = [0, 0, 0, 1],
         endColor = [1, 1, 1, 1]
     } = options
+    const stops = options.stops && options.stops.length >= 2 ? options.stops : [startColor, endColor]
+    const segments = stops.length - 1
 
     const data = new Uint8ClampedArray(width * height * 4)
 
@@ -442,6 +451,9 @@ export function generateGradient(options: GradientTextureOptions): Uint8ClampedA
                 case "diagonal":
                     t = (nx + ny) / 2
                     break
+                case "antidiagonal":
+                    t = (nx + 1 - ny) / 2
+                    break
                 case "radial":
                     const dx = nx - 0.5
                     const dy = ny - 0.5
@@ -449,10 +461,16 @@ export function generateGradient(options: GradientTextureOptions): Uint8ClampedA
                     break
             }
 
-            data[idx++] = (startColor[0] + (endColor[0] - startColor[0]) * t) * 255
-            data[idx++] = (startColor[1] + (endColor[1] - startColor[1]) * t) * 255
-            data[idx++] = (startColor[2] + (endColor[2] - startColor[2]) * t) * 255
-            data[idx++] = (startColor[3] + (endColor[3] - startColor[3]) * t) * 255
+            // Interpolate within the segment t falls in
+            const segment = Math.min(segments - 1, Math.floor(t * segments))
+            const from = stops[segment]
+            const to = stops[segment + 1]
+            const local = t * segments - segment
+
+            data[idx++] = (from[0] + (to[0] - from[0]) * local) * 255
+            data[idx++] = (from[1] + (to[1] - from[1]) * local) * 255
+            data[idx++] = (from[2] + (to[2] - from[2]) * local) * 255
+            data[idx++] = (from[3] + (to[3] - from[3]) * local) * 255
         }
     }
 
@@ -681,10 +699,10 @@ export function checker(options: CheckerOptions): ProceduralTexture {
  * Options for gradient texture.
  */
 export interface SimpleGradientOptions {
-    /** Two colors as hex strings or RGBA tuples */
-    colors: [string | RGBA, string | RGBA]
+    /** Two or more colors as hex strings or RGBA tuples, evenly spaced */
+    colors: [string | RGBA, string | RGBA, ...(string | RGBA)[]]
     /** Gradient direction (default: "horizontal") */
-    direction?: "horizontal" | "vertical" | "diagonal" | "radial"
+    direction?: GradientDirection
     /** Texture size in pixels (default: 256) */
     size?: number
 }
@@ -702,15 +720,12 @@ export interface SimpleGradientOptions {
  */
 export function gradient(options: SimpleGradientOptions): ProceduralTexture {
     const { colors, direction = "horizontal", size = 256 } = options
-    const startColor = parseColor(colors[0])
-    const endColor = parseColor(colors[1])
 
     const data = generateGradient({
         width: size,
         height: size,
         direction,
-        startColor,
-        endColor
+        stops: colors.map(parseColor)
     })
 
     return new ProceduralTexture(data, size, size)
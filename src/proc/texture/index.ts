@@ -61,6 +61,7 @@ import type {
     WoodTextureOptions,
     CheckerboardTextureOptions,
     GradientTextureOptions,
+    GradientDirection,
     ColorMap,
     RGBA,
     FilterMode,
@@ -80,6 +81,7 @@ export type {
     WoodTextureOptions,
     CheckerboardTextureOptions,
     GradientTextureOptions,
+    GradientDirection,
     ColorMap,
     RGBA,
     GPUPatternOptions,
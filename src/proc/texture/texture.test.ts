@@ -387,4 +387,32 @@ describe("generateGradient", () => {
 
         expect(center[0]).toBeLessThan(corner[0])
     })
+
+    it("should produce antidiagonal gradient", () => {
+        const data = generateGradient({
+            width: 100,
+            height: 100,
+            direction: "antidiagonal",
+            startColor: [0, 0, 0, 1],
+            endColor: [1, 1, 1, 1]
+        })
+
+        // Bottom-left should be dark, top-right should be light
+        expect(getPixel(data, 100, 0, 99)[0]).toBe(0)
+        expect(getPixel(data, 100, 99, 0)[0]).toBe(255)
+    })
+
+    it("should interpolate between evenly spaced stops", () => {
+        const data = generateGradient({
+            width: 101,
+            height: 1,
+            direction: "horizontal",
+            stops: [[1, 0, 0, 1], [0, 1, 0, 1], [0, 0, 1, 1]]
+        })
+
+        expect(getPixel(data, 101, 0, 0)).toEqual([255, 0, 0, 255])
+        expect(getPixel(data, 101, 50, 0)).toEqual([0, 255, 0, 255])
+        expect(getPixel(data, 101, 100, 0)).toEqual([0, 0, 255, 255])
+        expect(getPixel(data, 101, 25, 0)[0]).toBeCloseTo(127, -1)
+    })
 })
@@ -0,0 +1,211 @@
+/**
+ * `@apply` and `@layer` for USS files
+ *
+ * Lets hand-written USS (and .module.uss files) reuse the utility scale:
+ *
+ *   .button {
+ *       @apply p-4 bg-gray-900 hover:bg-gray-800 md:p-6;
+ *       border-radius: 4px;
+ *   }
+ *
+ * expands to
+ *
+ *   .button {
+ *       padding-top: 16px; ...
+ *       background-color: #111827;
+ *       border-radius: 4px;
+ *   }
+ *   .button:hover { background-color: #1f2937; }
+ *   .md .button { padding-top: 24px; ... }
+ *
+ * Utilities resolve exactly as in generateUSS (same theme tables, opacity
+ * modifiers and arbitrary values) and variants compose through the same
+ * buildSelector, so component styles and utility classes share one scale.
+ * The `!` modifier is accepted and has no further effect: the declarations
+ * already sit in the component's own rule.
+ * `@layer <name> { ... }` blocks are unwrapped: USS has no cascade layers,
+ * and source order already puts component rules where they were written.
+ */
+
+import { parseClassName, resolveDeclarations, buildSelector } from "./generator.mjs"
+import { defaultConfig } from "./user-config.mjs"
+
+/**
+ * Resolve the classes of one `@apply` against the selectors of its rule.
+ *
+ * Returns `{ declarations, rules }`: the declarations of variant-free
+ * classes, which belong in the rule itself, and one extra rule per distinct
+ * variant/breakpoint combination. Throws on a class that resolves to
+ * nothing, like Tailwind does, since a silently dropped @apply is a style
+ * that never shows up.
+ *
+ * @param {string[]} classNames Classes listed after @apply
+ * @param {string[]} selectors The rule's selectors (a list splits on commas)
+ * @param {Object} [options]
+ * @param {Object} [options.config] Resolved config (default theme otherwise)
+ * @param {boolean} [options.global] Wrap ancestor parts in :global(...) for .module.uss files
+ */
+export function resolveApply(classNames, selectors, options = {}) {
+    const { config = defaultConfig, global = false } = options
+    const declarations = {}
+    const rules = []
+
+    for (const className of classNames) {
+        const parsed = parseClassName(className, config)
+        const resolved = resolveDeclarations(parsed.base, config)
+        if (!resolved) {
+            const reason = parsed.base === null ? `is missing the "${config.prefix}" prefix` : "is not a known utility"
+            throw new Error(`@apply: "${className}" ${reason}`)
+        }
+        if (parsed.variants.some((variant) => variant.startsWith("peer-"))) {
+            throw new Error(`@apply: "${className}" uses a peer-* variant, which needs a sibling combinator USS doesn't have`)
+        }
+
+        if (parsed.variants.length === 0 && !parsed.breakpoint) {
+            Object.assign(declarations, resolved)
+            continue
+        }
+
+        const selector = selectors
+            .map((s) => buildSelector(s, parsed, config, { global }))
+            .join(", ")
+        const existing = rules.find((r) => r.selector === selector)
+        if (existing) {
+            Object.assign(existing.declarations, resolved)
+        } else {
+            rules.push({ selector, declarations: { ...resolved } })
+        }
+    }
+
+    return { declarations, rules }
+}
+
+/**
+ * Expand `@apply` and unwrap `@layer` in USS source text.
+ *
+ * A text-level pass (no PostCSS needed), for the esbuild plugins. Comments
+ * are copied through untouched and never searched for directives. Errors
+ * name the line of the offending @apply.
+ *
+ * @param {string} uss USS source
+ * @param {Object} [options] Same as resolveApply
+ * @returns {string}
+ */
+export function expandApply(uss, options = {}) {
+    if (!uss.includes("@apply") && !uss.includes("@layer")) return uss
+    return expandBlock(uss, 0, uss, options)
+}
+
+/**
+ * Process a run of top-level statements and rules. `offset` is where `text`
+ * starts in `source`, for error line numbers.
+ */
+function expandBlock(text, offset, source, options) {
+    let out = ""
+    let i = 0
+    while (i < text.length) {
+        const next = findNext(text, i, ["{", ";"])
+        if (next === -1) {
+            out += text.slice(i)
+            break
+        }
+
+        const prelude = text.slice(i, next)
+        if (text[next] === ";") {
+            // `@layer a, b;` only orders layers, which USS has no use for
+            if (!/^\s*(?:\/\*[\s\S]*?\*\/\s*)*@layer\b/.test(prelude)) out += text.slice(i, next + 1)
+            i = next + 1
+            continue
+        }
+
+        const close = findClose(text, next)
+        const body = text.slice(next + 1, close)
+        const leading = prelude.match(/^\s*(?:\/\*[\s\S]*?\*\/\s*)*/)[0]
+        const head = prelude.slice(leading.length)
+
+        if (/^@layer\b/.test(head)) {
+            out += leading + expandBlock(body, offset + next + 1, source, options).replace(/^\n/, "")
+        } else if (!head.startsWith("@") && body.includes("@apply")) {
+            out += leading + expandRule(head, body, offset + next + 1, source, options)
+        } else {
+            out += text.slice(i, close + 1)
+        }
+        i = close + 1
+    }
+    return out
+}
+
+/** Expand the @apply directives of one rule into its body and trailing rules. */
+function expandRule(head, body, bodyOffset, source, options) {
+    const selectors = splitSelectors(head.trim())
+    const extraRules = []
+
+    const expandedBody = body.replace(/([ \t]*)@apply\s+([^;}]*);?/g, (match, indent, list, at) => {
+        const classNames = list.trim().split(/\s+/).filter(Boolean)
+        let result
+        try {
+            result = resolveApply(classNames, selectors, options)
+        } catch (error) {
+            const line = source.slice(0, bodyOffset + at).split("\n").length
+            throw new Error(`${error.message} (line ${line})`)
+        }
+        extraRules.push(...result.rules)
+        return Object.entries(result.declarations)
+            .map(([prop, value]) => `${indent}${prop}: ${value};`)
+            .join("\n")
+    })
+
+    let out = `${head}{${expandedBody}}`
+    for (const rule of extraRules) {
+        const decls = Object.entries(rule.declarations)
+            .map(([prop, value]) => `    ${prop}: ${value};`)
+            .join("\n")
+        out += `\n\n${rule.selector} {\n${decls}\n}`
+    }
+    return out
+}
+
+/** Split a selector list on top-level commas. */
+function splitSelectors(selector) {
+    const parts = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < selector.length; i++) {
+        const ch = selector[i]
+        if (ch === "(" || ch === "[") depth++
+        else if ((ch === ")" || ch === "]") && depth > 0) depth--
+        else if (ch === "," && depth === 0) {
+            parts.push(selector.slice(start, i).trim())
+            start = i + 1
+        }
+    }
+    parts.push(selector.slice(start).trim())
+    return parts.filter(Boolean)
+}
+
+/** Index of the first of `chars` at or after `from`, skipping comments. */
+function findNext(text, from, chars) {
+    for (let i = from; i < text.length; i++) {
+        if (text[i] === "/" && text[i + 1] === "*") {
+            const end = text.indexOf("*/", i + 2)
+            if (end === -1) return -1
+            i = end + 1
+            continue
+        }
+        if (chars.includes(text[i])) return i
+    }
+    return -1
+}
+
+/** Index of the `}` matching the `{` at `open` (or the end of the text). */
+function findClose(text, open) {
+    let depth = 0
+    for (let i = open; i < text.length; i++) {
+        const next = findNext(text, i, ["{", "}"])
+        if (next === -1) break
+        i = next
+        if (text[i] === "{") depth++
+        else if (--depth === 0) return i
+    }
+    return text.length
+}
@@ -0,0 +1,155 @@
+/**
+ * TypeScript declarations for the utility classes of a build
+ *
+ * A typo in a className string produces no USS and no error. tailwindPlugin
+ * writes the output of generateClassTypes next to the project so editors
+ * can catch it: the declarations describe the `onejs:tailwind` module,
+ * including a `tw()` helper that accepts only classes the generator knows.
+ *
+ *   import { tw } from "onejs:tailwind"
+ *
+ *   <View className={tw("p-4 hover:bg-gray-800", active && "md:!p-6")} />
+ *   tw("p-44")  // error: not a known utility
+ *
+ * Plain utilities are spelled out as a union (editor completion uses it).
+ * Variants, breakpoints, opacity modifiers, `!` and arbitrary values are
+ * checked piece by piece with template literal types instead, since their
+ * full cross product would be far beyond what the compiler accepts.
+ */
+
+import { defaultConfig } from "./user-config.mjs"
+
+/** Pseudo-classes USS supports, usable as variants and with group-. */
+export const PSEUDO_VARIANTS = ["hover", "active", "inactive", "focus", "disabled", "enabled", "checked", "selected", "root"]
+
+/**
+ * Build the .d.ts content for a resolved config (see resolveConfig).
+ *
+ * @param {Object} [config] Resolved config; the default theme otherwise
+ * @returns {string}
+ */
+export function generateClassTypes(config = defaultConfig) {
+    const prefix = config.prefix ?? ""
+    const names = Object.keys(config.utilities)
+    const opacities = Object.keys(config.theme.opacity ?? {})
+
+    // A color utility is one that exists with every opacity modifier;
+    // `w-1/2` and friends are fractions and stay plain utilities
+    const nameSet = new Set(names)
+    const colorUtilities = names.filter((name) =>
+        !name.includes("/") && opacities.length > 0 && opacities.every((o) => nameSet.has(`${name}/${o}`)))
+    const colorSet = new Set(colorUtilities)
+    const utilities = names.filter((name) => {
+        if (/^animate-.+-phase-\d+$/.test(name)) return false // toggled by the runtime
+        const slash = name.lastIndexOf("/")
+        return slash === -1 || !colorSet.has(name.slice(0, slash))
+    })
+
+    // Gradient stops take any background color (see gradients.mjs)
+    const stopColors = names
+        .filter((name) => name.startsWith("bg-") && !name.includes("/") && config.utilities[name]["background-color"])
+        .map((name) => name.slice("bg-".length))
+
+    const variants = [
+        ...PSEUDO_VARIANTS,
+        ...PSEUDO_VARIANTS.map((v) => `group-${v}`),
+        "*",
+        ...Object.keys(config.scopes),
+    ]
+
+    return `// Generated by onejs-unity tailwindPlugin: do not edit
+declare module "onejs:tailwind" {
+    export type TailwindUtility =
+${unionLines(utilities.map((name) => prefixed(name, prefix)))}
+
+    /** Utilities that take an opacity modifier (\`bg-red-500/50\`). */
+    export type TailwindColorUtility =
+${unionLines(colorUtilities.map((name) => prefixed(name, prefix)))}
+
+    /** Gradient stops (\`from-indigo-500\`), applied at runtime by startGradients. */
+    export type TailwindGradientStop = \`${prefix}\${"from" | "via" | "to"}-\${${literals(stopColors)}}\`
+
+    export type TailwindOpacity = ${literals(opacities)}
+
+    export type TailwindBreakpoint = ${literals(Object.keys(config.theme.breakpoints))}
+
+    export type TailwindVariant = ${literals(variants)}
+
+    /** Container variants: \`@md:\`, or \`@md/sidebar:\` for a named container. */
+    export type TailwindContainerVariant = ${containerVariants(Object.keys(config.theme.containers ?? {}))}
+
+    type ArbitraryUtility = \`${prefix}\${string}-[\${string}]\` | \`-${prefix}\${string}-[\${string}]\`
+
+    type IsUtility<S extends string> =
+        S extends TailwindUtility | TailwindGradientStop | ArbitraryUtility ? true
+        : S extends \`\${infer B}/\${infer O}\`
+            ? B extends TailwindColorUtility | TailwindGradientStop | ArbitraryUtility ? O extends TailwindOpacity | \`[\${string}]\` ? true : false : false
+        : false
+
+    type IsImportant<S extends string> =
+        S extends \`!\${infer U}\` ? IsUtility<U>
+        : S extends \`\${infer U}!\` ? IsUtility<U>
+        : IsUtility<S>
+
+    /** Whether \`S\` is one class: variants, then a utility. */
+    export type IsTailwindClass<S extends string> =
+        S extends \`[\${string}]:\${infer Rest}\` ? IsTailwindClass<Rest>
+        : S extends \`\${infer V}:\${infer Rest}\`
+            ? V extends TailwindVariant | TailwindBreakpoint | TailwindContainerVariant ? IsTailwindClass<Rest> : false
+        : IsImportant<S>
+
+    /** Whether every space-separated class in \`S\` is valid. */
+    export type IsTailwindClassList<S extends string> =
+        S extends \`\${infer A} \${infer B}\`
+            ? IsTailwindClassList<A> extends true ? IsTailwindClassList<B> : false
+        : S extends "" ? true
+        : IsTailwindClass<S>
+
+    type CheckedArg<T> =
+        T extends string
+            ? string extends T ? T : IsTailwindClassList<T> extends true ? T : TailwindUtility
+            : T
+
+    /**
+     * Join class names, skipping falsy ones, escaped as the USS rules are
+     * (\`!p-4\` -> \`_ex_p-4\`). Literal strings are checked against the
+     * utilities this build generates; other strings pass.
+     */
+    export function tw<const T extends readonly (string | false | null | undefined)[]>(
+        ...classes: { [K in keyof T]: CheckedArg<T[K]> }
+    ): string
+
+    /** Breakpoint min widths (px), for applyBreakpoints in onejs-unity/uss. */
+    export const breakpoints: Record<TailwindBreakpoint, number>
+
+    /** Container sizes (px), for observeContainer in onejs-unity/uss. */
+    export const containers: Record<string, number>
+
+    /** Colors of the gradient stop classes in use, for startGradients in onejs-unity/uss. */
+    export const gradientStops: Record<string, string>
+
+    const css: string
+    export default css
+}
+`
+}
+
+function prefixed(name, prefix) {
+    if (!prefix) return name
+    return name.startsWith("-") ? `-${prefix}${name.slice(1)}` : `${prefix}${name}`
+}
+
+function containerVariants(sizes) {
+    if (sizes.length === 0) return "never"
+    const names = literals(sizes)
+    return `\`@\${${names}}\` | \`@\${${names}}/\${string}\``
+}
+
+function literals(values) {
+    return values.length > 0 ? values.map((v) => JSON.stringify(v)).join(" | ") : "never"
+}
+
+function unionLines(values) {
+    if (values.length === 0) return "        never"
+    return values.map((v) => `        | ${JSON.stringify(v)}`).join("\n")
+}
@@ -441,6 +441,25 @@ export const breakpoints = {
     "2xl": 1536,
 }
 
+// Container sizes for `@sm:`-style container variants (Tailwind's, in px).
+// The runtime (onejs-unity/uss) puts `cq-<size>` classes on a container for
+// every size its width reaches, like the breakpoint classes on the root
+export const containers = {
+    "3xs": 256,
+    "2xs": 288,
+    "xs": 320,
+    "sm": 384,
+    "md": 448,
+    "lg": 512,
+    "xl": 576,
+    "2xl": 672,
+    "3xl": 768,
+    "4xl": 896,
+    "5xl": 1024,
+    "6xl": 1152,
+    "7xl": 1280,
+}
+
 // Z-index scale (Note: USS may have limited z-index support)
 export const zIndex = {
     "0": "0",
@@ -503,6 +522,30 @@ export const letterSpacing = {
     "widest": "1.6px",
 }
 
+// Animations: USS has no @keyframes, so each animation is a loop of phases.
+// The runtime in onejs-unity/uss steps an `animate-*` element through them
+// as `animate-<name>-phase-<i>` classes and a UI Toolkit transition tweens
+// into each one. `duration` (ms) is both that transition and how long the
+// phase lasts; 0 snaps back without tweening.
+export const animation = {
+    spin: [
+        { duration: 0, styles: { "rotate": "0deg" } },
+        { duration: 1000, timing: "linear", styles: { "rotate": "360deg" } },
+    ],
+    ping: [
+        { duration: 0, styles: { "scale": "1 1", "opacity": "1" } },
+        { duration: 1000, timing: "ease-out", styles: { "scale": "2 2", "opacity": "0" } },
+    ],
+    pulse: [
+        { duration: 1000, timing: "ease-in-out", styles: { "opacity": "1" } },
+        { duration: 1000, timing: "ease-in-out", styles: { "opacity": "0.5" } },
+    ],
+    bounce: [
+        { duration: 500, timing: "ease-out", styles: { "translate": "0 -25%" } },
+        { duration: 500, timing: "ease-in", styles: { "translate": "0 0" } },
+    ],
+}
+
 export default {
     spacing,
     percentages,
@@ -513,9 +556,11 @@ export default {
     borderWidth,
     opacity,
     breakpoints,
+    containers,
     zIndex,
     transitionDuration,
     rotate,
     scale,
     letterSpacing,
+    animation,
 }
@@ -0,0 +1,144 @@
+/**
+ * Diagnostics for Tailwind classes that generate nothing
+ *
+ * generateUSS drops unknown candidates silently, which is right for the
+ * thousands of strings that were never classes, and wrong for `bg-blu-500`.
+ * This pass, opt-in through tailwindPlugin's `diagnostics` option, picks out
+ * the candidates that look like Tailwind and still produced no rule:
+ *
+ * - utilities USS cannot express (the UNSUPPORTED_FAMILIES catalogue), with
+ *   what to do instead
+ * - candidates with a known utility prefix and a value-shaped rest that
+ *   resolved to nothing (`bg-blu-500`, `p-13`, `text-[12px`)
+ * - known utilities behind a variant USS has no selector for (`hovr:p-4`,
+ *   `first:p-4`), which generate a rule that never matches, and gradient
+ *   stops behind any variant (the runtime reads plain classes only)
+ *
+ * and locates each one in the scanned sources, as esbuild warnings.
+ */
+
+import { parseClassName, parseContainerVariant, resolveDeclarations } from "./generator.mjs"
+import { findUnsupportedFamily } from "./unsupported.mjs"
+import { resolveGradientStop } from "./gradients.mjs"
+import { locateClasses } from "./provenance.mjs"
+import { PSEUDO_VARIANTS } from "./class-types.mjs"
+import { defaultConfig } from "./user-config.mjs"
+
+/**
+ * Prefixes that are only ever Tailwind, so any unresolved value after them is
+ * reported. Shorter or wordier prefixes (`m-`, `top-`, `items-`) also start
+ * ordinary identifiers and need a value-shaped rest (`m-13`, `top-[3px]`).
+ */
+const STRONG_PREFIXES = new Set([
+    "bg", "text", "border", "rounded", "font", "tracking", "opacity", "rotate",
+    "scale", "translate", "duration", "delay", "ease", "basis", "inset", "aspect",
+])
+
+/** Variants buildSelector understands, besides scopes, breakpoints and containers. */
+function isKnownVariant(variant, config) {
+    if (Object.hasOwn(config.scopes, variant) || config.theme.breakpoints[variant] !== undefined) return true
+    if (parseContainerVariant(variant, config)) return true
+    if (variant === "*" || (variant.startsWith("[") && variant.endsWith("]"))) return true
+    const state = variant.replace(/^group-/, "")
+    return PSEUDO_VARIANTS.includes(state)
+}
+
+/** Does an unresolved utility look like a mistyped Tailwind class? */
+function looksLikeUtility(base, prefixes) {
+    const name = base.replace(/^-/, "")
+    const dash = name.indexOf("-")
+    if (dash <= 0) return false
+    const prefix = name.slice(0, dash)
+    const rest = name.slice(dash + 1)
+    if (!prefixes.has(prefix) || !rest) return false
+    if (STRONG_PREFIXES.has(prefix)) return true
+    return /(^|-)\d+(\.\d+)?(\/\d+)?$/.test(rest) || /^\[.*\]?$/.test(rest) || /^\d/.test(rest)
+}
+
+/**
+ * Find the candidates that look like Tailwind but generated nothing useful.
+ *
+ * Returns `[{ className, message, advice }]`, sorted by class name.
+ *
+ * @param {Iterable<string>} classNames Candidates, as scanned
+ * @param {Object} [config] Resolved config (default theme otherwise)
+ */
+export function diagnoseClasses(classNames, config = defaultConfig) {
+    const prefixes = new Set(
+        Object.keys(config.utilities)
+            .map((name) => name.replace(/^-/, ""))
+            .filter((name) => name.includes("-"))
+            .map((name) => name.slice(0, name.indexOf("-"))),
+    )
+    for (const position of ["from", "via", "to"]) prefixes.add(position)
+    const problems = []
+
+    for (const className of classNames) {
+        const { base, variants, breakpoint } = parseClassName(className, config)
+        if (!base) continue // not written with this build's prefix
+
+        if (resolveDeclarations(base, config)) {
+            const unknown = variants.find((variant) => !isKnownVariant(variant, config))
+            if (unknown) {
+                problems.push({
+                    className,
+                    message: `"${className}" uses the variant "${unknown}:", which USS has no selector for`,
+                    advice: unknown.startsWith("peer-")
+                        ? "USS has no sibling combinator, so peer-* generates nothing. Put the state on a shared " +
+                            "parent and use group-* instead, or toggle a class from code."
+                        : `USS pseudo-classes are ${PSEUDO_VARIANTS.join(", ")}; scope variants are ` +
+                            `${Object.keys(config.scopes).join(", ") || "none"}.`,
+                })
+            }
+            continue
+        }
+
+        if (resolveGradientStop(base, config)) {
+            // Stops are read from the element's class list at runtime
+            if (variants.length > 0 || breakpoint) {
+                problems.push({
+                    className,
+                    message: `"${className}" is a gradient stop with a variant, which has no effect`,
+                    advice: "Gradient stops are applied at runtime from plain classes; toggle the class from code instead.",
+                })
+            }
+            continue
+        }
+
+        const family = findUnsupportedFamily(base)
+        if (family) {
+            problems.push({ className, message: `"${className}" is not supported in USS (${family.name})`, advice: family.advice })
+        } else if (looksLikeUtility(base, prefixes)) {
+            problems.push({ className, message: `"${className}" matched no utility and generated nothing`, advice: null })
+        }
+    }
+
+    return problems.sort((a, b) => a.className.localeCompare(b.className))
+}
+
+/**
+ * Turn diagnoseClasses results into esbuild warnings, each located at the
+ * first occurrence of the class in every scanned file that contains it.
+ *
+ * @param {Array<{ className: string, message: string, advice: string | null }>} problems
+ * @param {string[]} files Scanned files (scanContent's `files`)
+ * @param {Map<string, { candidates: Set<string> }>} cache The scan cache, telling which file holds which candidates
+ * @returns {Promise<Object[]>} esbuild PartialMessage objects
+ */
+export async function diagnosticsToWarnings(problems, files, cache) {
+    const located = await locateClasses(problems.map((p) => p.className), files, cache)
+
+    const warnings = []
+    for (const { className, message, advice } of problems) {
+        const notes = advice ? [{ text: advice }] : []
+        const locations = located.get(className)
+        if (locations.length === 0) {
+            warnings.push({ text: `${message} (safelist)`, notes })
+            continue
+        }
+        for (const location of locations) {
+            warnings.push({ text: message, notes, location })
+        }
+    }
+    return warnings
+}
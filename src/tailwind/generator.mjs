@@ -7,14 +7,21 @@
 
 import { getFs } from "../fs-provider.mjs"
 import path from "node:path"
-import { allUtilities } from "./utilities.mjs"
-import { breakpoints } from "./config.mjs"
+import { createHash } from "node:crypto"
+import { defaultConfig } from "./user-config.mjs"
+import { createContentMatcher } from "./glob.mjs"
+import { UNSUPPORTED_FAMILIES } from "./unsupported.mjs"
+import { locateClasses, provenanceComment, relativeSources } from "./provenance.mjs"
 
 // ============================================================================
 // Character escaping for USS class names
 // ============================================================================
 
-const ESCAPE_MAP = {
+/**
+ * Characters USS class names can't contain and what they become. The
+ * onejs:tailwind module's tw() applies the same map at runtime.
+ */
+export const ESCAPE_MAP = {
     ":": "_c_",
     "/": "_s_",
     ".": "_d_",
@@ -30,12 +37,20 @@ const ESCAPE_MAP = {
     "<": "_lt_",
     "*": "_ast_",
     "'": "_sq_",
+    "!": "_ex_",
+    "@": "_at_",
 }
 
 /**
  * Escape special characters in a class name for USS
+ *
+ * With a `prefix` (see the `prefix` config option), an unprefixed utility
+ * gets it added first, so "hover:p-4" and "hover:tw-p-4" both escape to
+ * the USS class generateUSS emits for the prefixed name.
  */
-export function escapeClassName(name) {
+export function escapeClassName(name, { prefix = "" } = {}) {
+    if (prefix) name = applyPrefix(name, prefix)
+
     // Handle numeric prefix (class names can't start with numbers in USS)
     if (/^[0-9]/.test(name)) {
         name = "_" + name
@@ -66,10 +81,20 @@ export function escapeClassName(name) {
  * The scanner walks the source once, skipping // and block comments and
  * regex literals, so quote characters inside them never shift string
  * pairing (a `// don't` comment must not eat the classes after it).
+ *
+ * With a `prefix`, only candidates whose utility carries it are kept
+ * ("tw-p-4", "hover:!tw-p-4", "-tw-m-2"), since nothing else can be one.
  */
-export function extractClassNames(content) {
+export function extractClassNames(content, { prefix = "" } = {}) {
     const classNames = new Set()
     scanCode(content, 0, classNames, false)
+    if (prefix) {
+        for (const candidate of classNames) {
+            if (stripPrefix(splitBase(lastPart(candidate)).name, prefix) === null) {
+                classNames.delete(candidate)
+            }
+        }
+    }
     return classNames
 }
 
@@ -260,83 +285,131 @@ function addCandidates(text, candidates) {
  * Scan multiple files and extract all class names
  */
 export async function scanFiles(patterns, cwd = process.cwd()) {
+    const { classNames } = await scanContent(patterns, { cwd })
+    return classNames
+}
+
+/**
+ * Scan content patterns, reusing a cache across calls.
+ *
+ * `cache` is a Map kept by the caller between builds (tailwindPlugin holds
+ * one per plugin instance). Each entry stores a file's content hash and the
+ * candidates extracted from it, so a watch rebuild only re-extracts the
+ * files whose content changed. The mtime and size are kept too, letting an
+ * untouched file skip the read entirely; providers without stat fall back to
+ * hashing. Entries for files that no longer match are dropped.
+ *
+ * Patterns are globs (see glob.mjs): `!` excludes, and node_modules and
+ * dot-directories are only entered when a pattern names them. `packages`
+ * opts whole node_modules packages in, e.g. a UI kit shipping .tsx sources.
+ *
+ * Returns `{ classNames, files, dirs, scanned, reused }`: the merged
+ * candidates, every file and walked directory (for esbuild's watchFiles and
+ * watchDirs, so added files trigger a rescan), and how many files were
+ * extracted vs. served from the cache.
+ *
+ * @param {string[]} patterns Content patterns, relative to cwd
+ * @param {Object} [options]
+ * @param {string} [options.cwd] Directory patterns are relative to
+ * @param {Map<string, Object>} [options.cache] Per-file cache, reused between calls
+ * @param {Object} [options.config] Resolved config; only its `prefix` matters here
+ * @param {string[]} [options.ignore] Globs to exclude, as if listed with `!`
+ * @param {string[]} [options.packages] node_modules packages to scan (`@acme/ui`)
+ */
+export async function scanContent(patterns, options = {}) {
+    const { cwd = process.cwd(), cache = new Map(), ignore = [], packages = [] } = options
+    const prefix = options.config?.prefix ?? ""
     const classNames = new Set()
+    const files = new Set()
+    const dirs = new Set()
+    let scanned = 0
+    let reused = 0
+
+    async function scanFile(filePath) {
+        if (files.has(filePath)) return
+        files.add(filePath)
+
+        let stat = null
+        try {
+            stat = getFs().statSync(filePath)
+        } catch {
+            // Missing file, or a provider without stat: the read below decides
+        }
+
+        let entry = cache.get(filePath)
+        if (entry && entry.prefix !== prefix) entry = undefined
+        if (!entry || !stat || entry.mtimeMs !== stat.mtimeMs || entry.size !== stat.size) {
+            let content
+            try {
+                content = await getFs().promises.readFile(filePath, "utf8")
+            } catch (err) {
+                // File doesn't exist (yet): still watched, nothing to extract
+                cache.delete(filePath)
+                return
+            }
+            const hash = createHash("sha1").update(content).digest("hex")
+            if (entry && entry.hash === hash) {
+                reused++
+            } else {
+                entry = { hash, prefix, candidates: extractClassNames(content, { prefix }) }
+                scanned++
+            }
+            entry.mtimeMs = stat?.mtimeMs
+            entry.size = stat?.size
+            cache.set(filePath, entry)
+        } else {
+            reused++
+        }
+        entry.candidates.forEach(c => classNames.add(c))
+    }
 
-    // Simple glob implementation for common patterns
-    async function walkDir(dir, pattern) {
+    const matcher = createContentMatcher(
+        [...patterns, ...packages.map(packageContentPattern)],
+        ignore,
+    )
+    const toRelative = (fullPath) => path.relative(cwd, fullPath).split(path.sep).join("/")
+
+    async function walkDir(dir) {
+        if (dirs.has(dir)) return
         const entries = await getFs().promises.readdir(dir, { withFileTypes: true })
+        dirs.add(dir)
 
         for (const entry of entries) {
             const fullPath = path.join(dir, entry.name)
-            const relativePath = path.relative(cwd, fullPath)
+            const relativePath = toRelative(fullPath)
 
             if (entry.isDirectory()) {
-                // Skip node_modules and hidden directories
-                if (entry.name === "node_modules" || entry.name.startsWith(".")) {
-                    continue
-                }
-                await walkDir(fullPath, pattern)
-            } else if (entry.isFile()) {
-                // Check if file matches pattern
-                if (matchesPattern(relativePath, pattern)) {
-                    try {
-                        const content = await getFs().promises.readFile(fullPath, "utf8")
-                        const fileClasses = extractClassNames(content)
-                        fileClasses.forEach(c => classNames.add(c))
-                    } catch (err) {
-                        // Ignore read errors
-                    }
-                }
+                if (!matcher.skipDir(relativePath, entry.name)) await walkDir(fullPath)
+            } else if (entry.isFile() && matcher.matches(relativePath)) {
+                await scanFile(fullPath)
             }
         }
     }
 
-    // Process each pattern
-    for (const pattern of patterns) {
-        // Handle patterns like "./index.tsx" or "./samples/**/*.tsx"
-        if (pattern.includes("**")) {
-            // Glob pattern: walk directory
-            const basePath = pattern.split("**")[0].replace(/^\.\//, "")
-            const startDir = basePath ? path.join(cwd, basePath) : cwd
-            try {
-                await walkDir(startDir, pattern)
-            } catch (err) {
-                // Directory doesn't exist, skip
-            }
-        } else {
-            // Direct file path
-            const filePath = path.join(cwd, pattern.replace(/^\.\//, ""))
-            try {
-                const content = await getFs().promises.readFile(filePath, "utf8")
-                const fileClasses = extractClassNames(content)
-                fileClasses.forEach(c => classNames.add(c))
-            } catch (err) {
-                // File doesn't exist, skip
-            }
-        }
+    // Patterns without wildcards name a file directly
+    for (const file of matcher.files) {
+        await scanFile(path.resolve(cwd, file))
     }
 
-    return classNames
-}
+    for (const base of matcher.bases) {
+        try {
+            await walkDir(path.resolve(cwd, base))
+        } catch (err) {
+            // Directory doesn't exist, skip
+        }
+    }
 
-/**
- * Simple pattern matching for file paths
- */
-function matchesPattern(filePath, pattern) {
-    // Extract extension pattern from glob
-    const extMatch = pattern.match(/\*\.(\{[^}]+\}|\w+)$/)
-    if (!extMatch) return false
-
-    let extensions
-    if (extMatch[1].startsWith("{")) {
-        // {tsx,ts,jsx,js} format
-        extensions = extMatch[1].slice(1, -1).split(",")
-    } else {
-        extensions = [extMatch[1]]
+    // Forget files that were deleted or no longer match
+    for (const filePath of cache.keys()) {
+        if (!files.has(filePath)) cache.delete(filePath)
     }
 
-    const fileExt = path.extname(filePath).slice(1)
-    return extensions.includes(fileExt)
+    return { classNames, files: [...files], dirs: [...dirs], scanned, reused }
+}
+
+/** Source files scanned in a package opted in through `packages`. */
+function packageContentPattern(name) {
+    return `./node_modules/${name}/**/*.{tsx,ts,jsx,js}`
 }
 
 // ============================================================================
@@ -344,43 +417,194 @@ function matchesPattern(filePath, pattern) {
 // ============================================================================
 
 /**
- * Parse a class name into its components
+ * Parse a class name into its components. `config` is a resolved config
+ * (see user-config.mjs); its theme decides which prefixes are breakpoints.
  * Examples:
- *   "p-4" -> { base: "p-4", variant: null, breakpoint: null }
- *   "hover:bg-red-500" -> { base: "bg-red-500", variant: "hover", breakpoint: null }
- *   "sm:p-4" -> { base: "p-4", variant: null, breakpoint: "sm" }
- *   "lg:hover:bg-blue-600" -> { base: "bg-blue-600", variant: "hover", breakpoint: "lg" }
+ *   "p-4" -> { base: "p-4", variants: [], breakpoint: null }
+ *   "hover:bg-red-500" -> { base: "bg-red-500", variants: ["hover"], breakpoint: null }
+ *   "sm:p-4" -> { base: "p-4", variants: [], breakpoint: "sm" }
+ *   "md:hover:focus:bg-x" -> { base: "bg-x", variants: ["hover", "focus"], breakpoint: "md" }
+ *
+ * `important` is set by the `!` modifier, written before the utility
+ * (`md:!p-4`) or after it (`p-4!`). With a config `prefix`, it is stripped
+ * from the base (`tw-p-4` -> `p-4`, `-tw-m-2` -> `-m-2`); a class without
+ * it gets `base: null`, since it is not one of this build's utilities.
  */
-export function parseClassName(className) {
-    const parts = className.split(":")
-    const base = parts[parts.length - 1]
+export function parseClassName(className, config = defaultConfig) {
+    const { breakpoints } = config.theme
+    const parts = splitVariants(className)
+    const { important, negative, name } = splitBase(parts[parts.length - 1])
+    const unprefixed = stripPrefix(name, config.prefix)
+    const base = unprefixed === null ? null : negative + unprefixed
     const prefixes = parts.slice(0, -1) // everything before the base utility
-    let variant = null
+    const variants = []
     let breakpoint = null
 
-    // Classify each prefix independently. `breakpoint` is only ever set to a known
-    // breakpoint token, so downstream `breakpointRules[breakpoint]` is always a real
-    // bucket: an unrecognized prefix (e.g. the leading "active" in
-    // "active:hover:bg-blue-500", an unsupported stacked variant) becomes the variant
-    // rather than a bogus breakpoint that would crash generation. Order-independent:
-    // both "lg:hover:..." and "hover:lg:..." resolve correctly.
+    // Breakpoints are pulled out wherever they appear ("lg:hover:..." and
+    // "hover:lg:..." mean the same thing) and only ever set to a known token, so
+    // downstream `breakpointRules[breakpoint]` is always a real bucket. Stacking
+    // two breakpoints ("sm:md:") is satisfied exactly when the wider one is, so
+    // the wider one wins. Every other prefix is a variant, kept in written order
+    // because buildSelector applies them left to right.
     for (const p of prefixes) {
-        if (breakpoint === null && isBreakpoint(p)) {
-            breakpoint = p
-        } else if (variant === null) {
-            variant = p
+        if (breakpoints[p] !== undefined) {
+            if (breakpoint === null || breakpoints[p] > breakpoints[breakpoint]) breakpoint = p
+        } else {
+            variants.push(p)
         }
-        // Extra prefixes beyond one breakpoint + one variant are ignored: OneJS's
-        // generator models a single variant, so stacked variants degrade gracefully.
     }
 
-    return { base, variant, breakpoint }
+    return { base, variants, breakpoint, important }
 }
 
-// A prefix token is a breakpoint if it's a configured breakpoint or the built-in
-// "2xl" (which is tracked as a separate bucket, not part of the `breakpoints` map).
-function isBreakpoint(token) {
-    return breakpoints[token] !== undefined || token === "2xl"
+/**
+ * Split a class name on its variant separators. Colons inside brackets or
+ * parentheses belong to an arbitrary variant or value (`[&:hover]:p-4`),
+ * not to the variant chain.
+ */
+function splitVariants(className) {
+    const parts = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < className.length; i++) {
+        const ch = className[i]
+        if (ch === "[" || ch === "(") depth++
+        else if ((ch === "]" || ch === ")") && depth > 0) depth--
+        else if (ch === ":" && depth === 0) {
+            parts.push(className.slice(start, i))
+            start = i + 1
+        }
+    }
+    parts.push(className.slice(start))
+    return parts
+}
+
+/** The utility part of a class: everything after the last variant. */
+function lastPart(className) {
+    const parts = splitVariants(className)
+    return parts[parts.length - 1]
+}
+
+/**
+ * Split a utility into its `!` modifier, its negative sign and the rest:
+ * "!-tw-m-2" -> { important: true, negative: "-", name: "tw-m-2" }.
+ */
+function splitBase(base) {
+    let important = false
+    if (base.length > 1 && base.startsWith("!")) {
+        important = true
+        base = base.slice(1)
+    } else if (base.length > 1 && base.endsWith("!")) {
+        important = true
+        base = base.slice(0, -1)
+    }
+    const negative = base.length > 1 && base.startsWith("-") ? "-" : ""
+    return { important, negative, name: base.slice(negative.length) }
+}
+
+/** `name` without `prefix`, or null when the prefix is missing. */
+function stripPrefix(name, prefix) {
+    if (!prefix) return name
+    return name.startsWith(prefix) ? name.slice(prefix.length) : null
+}
+
+/** Add `prefix` to the utility of a class unless it already has it. */
+function applyPrefix(className, prefix) {
+    const parts = splitVariants(className)
+    const { important, negative, name } = splitBase(parts[parts.length - 1])
+    if (stripPrefix(name, prefix) !== null) return className
+    parts[parts.length - 1] = `${important ? "!" : ""}${negative}${prefix}${name}`
+    return parts.join(":")
+}
+
+/**
+ * Parse a container variant: `@md` -> { size: "md", name: null },
+ * `@md/sidebar` -> { size: "md", name: "sidebar" }. Null for anything else,
+ * including sizes the theme's `containers` table doesn't have.
+ */
+export function parseContainerVariant(variant, config = defaultConfig) {
+    const match = variant.match(/^@([\w.-]+?)(?:\/([\w-]+))?$/)
+    if (!match || config.theme.containers?.[match[1]] === undefined) return null
+    return { size: match[1], name: match[2] ?? null }
+}
+
+/** The class the runtime puts on a container whose width reaches `size`. */
+export function containerClass(size, name = null) {
+    return name ? `cq-${name}-${size}` : `cq-${size}`
+}
+
+/**
+ * Build the USS selector for `selector` (the escaped class selector) from a
+ * parsed class name: its breakpoint and its chain of variants, applied left
+ * to right. Each variant refines the current subject, so order matters only
+ * where the subject changes:
+ *
+ *   hover:*:x   children of a hovered element   `.x:hover > *`
+ *   *:hover:x   hovered children                `.x > *:hover`
+ *
+ * `group-<pseudo>:` variants are not real pseudo-classes: they mean "apply
+ * when an ancestor (.group) has the given state". In USS this becomes a
+ * descendant combinator, NOT a pseudo-class on the target element. Naive
+ * `${selector}:${variant}` produced e.g. `.group-focus_c_X:group-focus` which
+ * Unity's USS parser rejects with "Unknown pseudo class 'group-focus'".
+ * Stacked group states all land on the one ancestor: `group-hover:group-focus:`
+ * is `.group:hover:focus`. Tailwind's `peer-<pseudo>:` needs the `~` sibling
+ * combinator, which USS doesn't have, so generateUSS skips those classes and
+ * the diagnostics report them.
+ *
+ * Arbitrary variants wrap a raw selector fragment in square brackets, e.g.
+ * `[&>TextElement]:ml-[6px]`. `&` stands for the subject so far and is
+ * substituted in; the brackets are stripped. Without this, `:${variant}`
+ * produced `.escaped:[&>TextElement]` which is invalid USS.
+ *
+ * Tailwind's `*` variant targets every direct child, not the element itself.
+ * Attaching `:*` as a pseudo-class would be invalid USS: it becomes a
+ * universal-child combinator instead.
+ *
+ * Scope variants (`dark:`, theme names from the config) and the breakpoint
+ * are classes on the root VisualElement, not states of the element: they
+ * become one compound ancestor, `.md.dark .md_c_dark_c_bg-x`, so a single
+ * class toggle on the root switches the palette.
+ *
+ * Container variants (`@md:`, or `@md/sidebar:` for a named container) are
+ * classes on the nearest sized container, which the runtime keeps in sync
+ * with its width: `@md:p-4` becomes `.cq-md ._at_md_c_p-4`. They sit between
+ * the root scopes and the element, since a container lives inside the root.
+ *
+ * Anything else is a pseudo-class on the subject.
+ *
+ * With `global`, each ancestor part is wrapped in `:global(...)` so
+ * ussModulesPlugin leaves `.group` and the scope classes unscoped when the
+ * selector lands in a .module.uss file.
+ */
+export function buildSelector(selector, { variants, breakpoint }, config = defaultConfig, { global = false } = {}) {
+    const wrap = global ? (part) => `:global(${part})` : (part) => part
+    let subject = selector
+    const scopeClasses = breakpoint ? [breakpoint] : []
+    const containerClasses = []
+    const groupStates = []
+
+    for (const variant of variants) {
+        const container = parseContainerVariant(variant, config)
+        if (Object.hasOwn(config.scopes, variant)) {
+            scopeClasses.push(config.scopes[variant])
+        } else if (container) {
+            containerClasses.push(containerClass(container.size, container.name))
+        } else if (variant.startsWith("[") && variant.endsWith("]")) {
+            subject = variant.slice(1, -1).replace(/&/g, subject)
+        } else if (variant === "*") {
+            subject = `${subject} > *`
+        } else if (variant.startsWith("group-")) {
+            groupStates.push(variant.slice("group-".length))
+        } else {
+            subject = `${subject}:${variant}`
+        }
+    }
+
+    if (groupStates.length > 0) subject = `${wrap(`.group:${groupStates.join(":")}`)} ${subject}`
+    if (containerClasses.length > 0) subject = `${wrap(`.${containerClasses.join(".")}`)} ${subject}`
+    if (scopeClasses.length > 0) subject = `${wrap(`.${scopeClasses.join(".")}`)} ${subject}`
+    return subject
 }
 
 /**
@@ -562,127 +786,155 @@ function applyOpacityToDeclarations(decls, opacity) {
 }
 
 /**
- * Generate USS for a set of class names
+ * Resolve a utility (the base of a class name, variants already stripped) to
+ * its USS declarations: a theme utility, an opacity-modified color, or an
+ * arbitrary value. Returns null for anything that isn't a known utility.
  */
+export function resolveDeclarations(base, config = defaultConfig) {
+    const { utilities } = config
+    if (!base) return null
+
+    // Look up the base utility
+    let declarations = utilities[base]
+
+    // Tailwind color/opacity modifier: "<color-utility>/<N>".
+    // Hex colors, built-in or from tailwind.config.js, are already
+    // pre-expanded with opacity by `createUtilities` (8-digit hex), so
+    // this fallback only fires for non-hex theme colors (`rgb(...)`)
+    // and arbitrary hex values like `bg-[#ff5733]/50`.
+    if (!declarations) {
+        const mod = parseOpacityModifier(base)
+        if (mod) {
+            const baseDecls =
+                utilities[mod.base] ?? parseArbitraryValue(mod.base)
+            if (baseDecls) {
+                declarations = applyOpacityToDeclarations(
+                    baseDecls,
+                    mod.opacity,
+                )
+            }
+        }
+    }
+
+    // If still not found, try to parse as arbitrary value
+    if (!declarations) {
+        declarations = parseArbitraryValue(base)
+    }
+
+    return declarations ?? null
+}
+
 /**
- * Tailwind families USS cannot express, and what to do instead.
- *
- * These are not typos, so they never reach the unknown-class path a user would
- * notice: they are real Tailwind classes that compile to nothing here. Silence
- * is the worst outcome, because the layout simply comes out wrong with no
- * indication why, which is exactly how every Wordle tile ended up flush against
- * its neighbour.
- *
- * gap is not polyfillable cleanly. USS supports `> *`, so half-margins on the
- * children are expressible, but cancelling the outer half needs a negative
- * margin on the parent, and that silently clobbers any margin the author put on
- * the same element (`gap-2 mb-3` is a real and common pairing). Saying so beats
- * guessing.
+ * Add the phase classes of every `animate-<name>` class right after it. The
+ * source never names them: the runtime toggles them (onejs-unity/uss).
  */
-const UNSUPPORTED_FAMILIES = [
-    {
-        test: (base) => /^gap(-x|-y)?-/.test(base),
-        name: "gap-*",
-        advice: "UI Toolkit has no gap property. Put a margin on the children instead: " +
-            "half the gap on each child gives the same spacing between them.",
-    },
-]
+function* withAnimationPhases(classNames, config) {
+    const animations = config.theme.animation ?? {}
+    const seen = new Set()
+    for (const className of classNames) {
+        if (seen.has(className)) continue
+        seen.add(className)
+        yield className
+        const { base, variants, breakpoint } = parseClassName(className, config)
+        const name = base?.startsWith("animate-") ? base.slice("animate-".length) : null
+        if (!name || variants.length > 0 || breakpoint || !Object.hasOwn(animations, name)) continue
+        for (let i = 0; i < animations[name].length; i++) {
+            const phase = `${config.prefix ?? ""}animate-${name}-phase-${i}`
+            if (!seen.has(phase)) yield phase
+            seen.add(phase)
+        }
+    }
+}
 
+/**
+ * Generate USS for a set of class names
+ *
+ * @param {Iterable<string>} classNames Candidate class names
+ * @param {Object} [options]
+ * @param {boolean} [options.includeReset] Prepend the margin/padding reset
+ * @param {Object} [options.config] Resolved config from resolveConfig/loadConfig (default theme otherwise)
+ * @param {Function} [options.onUnsupported] Receives the unsupported families that were used
+ * @param {Map<string, Array<{ file: string, line?: number }>>} [options.sources] Where each class was found (see provenance.mjs); when given, every rule gets a comment naming its class and sources
+ * @param {Function} [options.onRule] Called with `{ className, selector }` for every rule generated
+ */
 export function generateUSS(classNames, options = {}) {
-    const { includeReset = false, onUnsupported = defaultUnsupportedWarning } = options
+    const {
+        includeReset = false,
+        config = defaultConfig,
+        onUnsupported = defaultUnsupportedWarning,
+        sources = null,
+        onRule = null,
+    } = options
+    const { breakpoints, containers = {} } = config.theme
     const rules = []
+    const importantRules = { "": [] } // Unscoped, then by breakpoint
     const unsupported = new Map()
     const breakpointRules = {} // Group by breakpoint
+    const containerRules = {} // Group by the widest container variant
 
-    // Initialize breakpoint groups
+    // Initialize breakpoint and container groups (smallest first, so wider ones win)
     for (const bp of Object.keys(breakpoints)) {
         breakpointRules[bp] = []
+        importantRules[bp] = []
+    }
+    for (const size of Object.keys(containers)) {
+        containerRules[size] = []
     }
-    breakpointRules["2xl"] = []
 
-    for (const className of classNames) {
-        const { base, variant, breakpoint } = parseClassName(className)
+    for (const className of withAnimationPhases(classNames, config)) {
+        const { base, variants, breakpoint, important } = parseClassName(className, config)
 
-        // Look up the base utility
-        let declarations = allUtilities[base]
+        const declarations = resolveDeclarations(base, config)
 
-        // Tailwind color/opacity modifier: "<color-utility>/<N>".
-        // Built-in colors are already pre-expanded with opacity in
-        // `utilities.mjs` (8-digit hex), so this fallback only fires for
-        // user-injected colors (via tailwind.config.js extend.colors) and
-        // arbitrary hex values like `bg-[#ff5733]/50`.
         if (!declarations) {
-            const mod = parseOpacityModifier(base)
-            if (mod) {
-                const baseDecls =
-                    allUtilities[mod.base] ?? parseArbitraryValue(mod.base)
-                if (baseDecls) {
-                    declarations = applyOpacityToDeclarations(
-                        baseDecls,
-                        mod.opacity,
-                    )
-                }
-            }
-        }
+            if (!base) continue // missing the configured prefix
 
-        // If still not found, try to parse as arbitrary value
-        if (!declarations) {
-            declarations = parseArbitraryValue(base)
-        }
-
-        if (!declarations) {
             // Unknown utility class. Most are not Tailwind at all (CSS module
             // names, arbitrary strings the scanner picked up), so staying quiet
             // is right, except for the families we know are real Tailwind and
             // silently do nothing here.
+            const plain = variants.length === 0 && !breakpoint
             for (const family of UNSUPPORTED_FAMILIES) {
-                if (!family.test(base)) continue
+                if (!family.test(base) || (plain && family.bare?.test(base))) continue
                 if (!unsupported.has(family.name)) unsupported.set(family.name, { family, used: new Set() })
                 unsupported.get(family.name).used.add(className)
             }
             continue
         }
 
-        // Escape the full class name for USS
+        // `@foo:` with no such container size would become the pseudo-class
+        // `:@foo`, which USS rejects along with the rest of the sheet
+        if (variants.some((v) => v.startsWith("@") && !parseContainerVariant(v, config))) continue
+        // `peer-*:` needs a sibling combinator, which USS doesn't have
+        if (variants.some((v) => v.startsWith("peer-"))) continue
+
+        // Escape the full class name for USS, then build the selector:
+        // variants become pseudo-classes or combinators; breakpoints and
+        // scopes become ancestor classes instead of media queries
+        // (.sm .sm_c_p-4 { ... })
         const escapedClass = escapeClassName(className)
+        // USS has no !important: the `!` modifier doubles the class instead,
+        // and its rules come last, so they win on specificity and order
+        const subject = important ? `.${escapedClass}.${escapedClass}` : `.${escapedClass}`
+        const selector = buildSelector(subject, { variants, breakpoint }, config)
 
-        // Build the selector
-        //
-        // `group-<pseudo>:` and `peer-<pseudo>:` variants are not real pseudo-
-        // classes: they mean "apply when an ancestor (.group) or sibling
-        // (.peer) has the given state". In USS this becomes a descendant or
-        // sibling combinator, NOT a pseudo-class on the target element. Naive
-        // `${selector}:${variant}` produced e.g. `.group-focus_c_X:group-focus`
-        // which Unity's USS parser rejects with "Unknown pseudo class 'group-focus'".
-        //
-        // Arbitrary variants wrap a raw selector fragment in square brackets,
-        // e.g. `[&>TextElement]:ml-[6px]`. `&` stands for the current class
-        // selector and must be substituted in; the brackets are stripped.
-        // Without this, `:${variant}` produced `.escaped:[&>TextElement]`
-        // which is invalid USS.
-        let selector
-        if (variant && variant.startsWith("[") && variant.endsWith("]")) {
-            const rawSelector = variant.slice(1, -1)
-            selector = rawSelector.replace(/&/g, `.${escapedClass}`)
-        } else if (variant === "*") {
-            // Tailwind's `*` variant targets every direct child, not the
-            // element itself. Attaching `:*` as a pseudo-class would be
-            // invalid USS: emit a universal-child combinator instead.
-            selector = `.${escapedClass} > *`
-        } else if (variant && variant.startsWith("group-")) {
-            const pseudo = variant.slice("group-".length)
-            selector = `.group:${pseudo} .${escapedClass}`
-        } else if (variant && variant.startsWith("peer-")) {
-            const pseudo = variant.slice("peer-".length)
-            selector = `.peer:${pseudo} ~ .${escapedClass}`
-        } else if (variant) {
-            selector = `.${escapedClass}:${variant}`
-        } else {
-            selector = `.${escapedClass}`
+        // Generate the rule
+        const comment = sources ? `${provenanceComment(className, sources.get(className))}\n` : ""
+        const rule = `${comment}${selector} {\n${generateDeclarations(declarations)}\n}`
+        onRule?.({ className, selector })
+
+        if (important) {
+            importantRules[breakpointRules[breakpoint] ? breakpoint : ""].push(rule)
+            continue
         }
 
-        // Generate the rule
-        const rule = `${selector} {\n${generateDeclarations(declarations)}\n}`
+        // Container rules come after every breakpoint: a container is
+        // narrower than the screen, so its size is the more specific signal
+        const container = widestContainer(variants, config)
+        if (container) {
+            containerRules[container].push(rule)
+            continue
+        }
 
         // parseClassName only ever yields a known breakpoint, but guard the bucket
         // lookup anyway so an unexpected value degrades to an unscoped rule instead
@@ -718,22 +970,38 @@ export function generateUSS(classNames, options = {}) {
     for (const [bp, bpRules] of Object.entries(breakpointRules)) {
         if (bpRules.length === 0) continue
 
-        uss += `\n\n/* ${bp} breakpoint (${breakpoints[bp] || 1536}px+) */\n`
-        // For USS, we use ancestor selectors instead of media queries
-        // .sm .sm_c_p-4 { ... }
-        for (const rule of bpRules) {
-            // Wrap with breakpoint ancestor selector
-            const wrappedRule = rule.replace(
-                /^(\.[^\s{]+)/,
-                `.${bp} $1`
-            )
-            uss += wrappedRule + "\n\n"
-        }
+        uss += `\n\n/* ${bp} breakpoint (${breakpoints[bp]}px+) */\n`
+        uss += bpRules.join("\n\n")
+    }
+
+    for (const [size, sizeRules] of Object.entries(containerRules)) {
+        if (sizeRules.length === 0) continue
+
+        uss += `\n\n/* @${size} container (${containers[size]}px+) */\n`
+        uss += sizeRules.join("\n\n")
+    }
+
+    const important = Object.values(importantRules).flat()
+    if (important.length > 0) {
+        uss += `\n\n/* Important utilities */\n`
+        uss += important.join("\n\n")
     }
 
     return uss.trim()
 }
 
+/** The largest container size among a class's variants, or null. */
+function widestContainer(variants, config) {
+    let widest = null
+    for (const variant of variants) {
+        const container = parseContainerVariant(variant, config)
+        if (!container) continue
+        const { containers } = config.theme
+        if (widest === null || containers[container.size] > containers[widest]) widest = container.size
+    }
+    return widest
+}
+
 /** Reports unsupported utilities once per build, on stderr. */
 function defaultUnsupportedWarning(families) {
     for (const { name, advice, used } of families) {
@@ -745,9 +1013,17 @@ function defaultUnsupportedWarning(families) {
 
 /**
  * Main function: scan files and generate USS
+ *
+ * `options.cwd` and `options.cache` go to scanContent; `options.onScan`, if
+ * given, receives its result (files, dirs and cache stats) before generation.
+ * With `options.provenance`, each generated class is located in the scanned
+ * files first: the result gets a `sources` map (see provenance.mjs) and every
+ * rule a comment naming its class and where it came from.
  */
 export async function generateFromFiles(contentPatterns, options = {}) {
-    const classNames = await scanFiles(contentPatterns)
+    const cache = options.cache ?? new Map()
+    const scan = await scanContent(contentPatterns, { ...options, cache })
+    const { classNames } = scan
 
     // Merge safelist classes
     const { safelist = [] } = options
@@ -755,13 +1031,25 @@ export async function generateFromFiles(contentPatterns, options = {}) {
         classNames.add(cls)
     }
 
-    return generateUSS(classNames, options)
+    if (options.provenance) {
+        const config = options.config ?? defaultConfig
+        const generated = [...classNames].filter((className) => {
+            const { base } = parseClassName(className, config)
+            return base && resolveDeclarations(base, config)
+        })
+        const located = await locateClasses(generated, scan.files, cache)
+        scan.sources = relativeSources(located, options.cwd ?? process.cwd())
+    }
+
+    options.onScan?.(scan)
+    return generateUSS(classNames, { ...options, sources: scan.sources ?? options.sources })
 }
 
 export default {
     escapeClassName,
     extractClassNames,
     scanFiles,
+    scanContent,
     parseClassName,
     generateUSS,
     generateFromFiles,
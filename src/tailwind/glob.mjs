@@ -0,0 +1,205 @@
+/**
+ * Glob matching for Tailwind `content` patterns
+ *
+ * A small matcher covering what content lists use, without a dependency:
+ *
+ *   **              any number of directories (including none)
+ *   * and ?         any run of characters / one character within a segment
+ *   [abc] [!a-z]    character classes
+ *   {tsx,ts}        brace sets, nestable: {src,lib}/**\/*.{ts,tsx}
+ *   !pattern        exclusion, applied after every inclusion
+ *
+ * Paths are matched relative to the project root, with forward slashes and
+ * no leading "./".
+ *
+ * Wildcards never match dot-files, dot-directories or node_modules: those are
+ * only scanned when the leading part of a pattern names them, as in
+ * `./node_modules/@acme/ui/**\/*.tsx` or `./.storybook/*.tsx`. That keeps
+ * `./**\/*.tsx` from descending into dependencies while still letting a
+ * project opt specific packages in.
+ */
+
+const GLOB_CHARS = /[*?[{]/
+
+/** A wildcard segment may not start a dot-name or match node_modules. */
+const WILD_GUARD = "(?!\\.)(?!node_modules(?:/|$))"
+
+// ============================================================================
+// Brace expansion
+// ============================================================================
+
+/**
+ * Expand brace sets into separate patterns:
+ * `{src,lib}/*.{ts,tsx}` becomes four patterns. Unbalanced braces and sets
+ * without a comma are kept literally.
+ */
+export function expandBraces(pattern) {
+    const open = findBraceSet(pattern)
+    if (!open) return [pattern]
+
+    const { start, end, options } = open
+    const head = pattern.slice(0, start)
+    const tail = pattern.slice(end + 1)
+    return options.flatMap((option) => expandBraces(head + option + tail))
+}
+
+/** The first top-level `{a,b}` set: its bounds and its comma-split options. */
+function findBraceSet(pattern) {
+    for (let start = 0; start < pattern.length; start++) {
+        if (pattern[start] !== "{") continue
+
+        let depth = 0
+        const commas = []
+        for (let i = start; i < pattern.length; i++) {
+            const ch = pattern[i]
+            if (ch === "{") depth++
+            else if (ch === "}" && --depth === 0) {
+                if (commas.length === 0) break
+                const bounds = [start, ...commas, i]
+                const options = bounds.slice(1).map((b, k) => pattern.slice(bounds[k] + 1, b))
+                return { start, end: i, options }
+            } else if (ch === "," && depth === 1) {
+                commas.push(i)
+            }
+        }
+    }
+    return null
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/** Strip "./" and leading slashes so patterns compare to relative paths. */
+function normalizePattern(pattern) {
+    return pattern.trim().replace(/^(\.\/)+/, "").replace(/^\/+/, "")
+}
+
+/** Translate one path segment (no slashes, no braces) into a regex. */
+function segmentToRegex(segment) {
+    let out = GLOB_CHARS.test(segment[0]) ? WILD_GUARD : ""
+    for (let i = 0; i < segment.length; i++) {
+        const ch = segment[i]
+        if (ch === "*") {
+            out += "[^/]*"
+        } else if (ch === "?") {
+            out += "[^/]"
+        } else if (ch === "[") {
+            const close = segment.indexOf("]", i + 2)
+            if (close === -1) {
+                out += "\\["
+                continue
+            }
+            let body = segment.slice(i + 1, close).replace(/\\/g, "\\\\")
+            if (body[0] === "!") body = "^" + body.slice(1)
+            out += `[${body}]`
+            i = close
+        } else {
+            out += ch.replace(/[.+^$()|\\{}\]]/g, "\\$&")
+        }
+    }
+    return out
+}
+
+/**
+ * Compile a single brace-free glob into a RegExp over relative paths.
+ */
+export function compileGlob(pattern) {
+    const segments = normalizePattern(pattern).split("/").filter(Boolean)
+    const anySegment = `${WILD_GUARD}[^/]+`
+    let source = ""
+    segments.forEach((segment, i) => {
+        const last = i === segments.length - 1
+        if (segment === "**") {
+            source += last ? `(?:${anySegment}/)*${anySegment}` : `(?:${anySegment}/)*`
+        } else {
+            source += segmentToRegex(segment) + (last ? "" : "/")
+        }
+    })
+    return new RegExp(`^${source}$`)
+}
+
+/** The leading segments before the first wildcard: where a walk can start. */
+function literalBase(pattern) {
+    const segments = normalizePattern(pattern).split("/")
+    const base = []
+    for (const segment of segments.slice(0, -1)) {
+        if (GLOB_CHARS.test(segment)) break
+        base.push(segment)
+    }
+    return base.join("/")
+}
+
+// ============================================================================
+// Matcher
+// ============================================================================
+
+/**
+ * Build a matcher for a content list.
+ *
+ * Returns:
+ * - `files`: patterns without wildcards, as relative paths (read directly,
+ *   and watched even before they exist)
+ * - `bases`: directories to walk for the wildcard patterns, outermost only
+ * - `matches(relPath)`: whether a file is included and not excluded
+ * - `skipDir(relDir, name)`: whether a walk should not descend into a
+ *   directory: excluded wholesale (`!dist/**`), or a dot-directory or
+ *   node_modules (those are only scanned from a base that names them)
+ *
+ * @param {string[]} patterns Content patterns; `!` marks an exclusion
+ * @param {string[]} [ignore] Additional exclusions
+ */
+export function createContentMatcher(patterns, ignore = []) {
+    const include = []
+    const exclude = [...ignore]
+    for (const pattern of patterns) {
+        if (pattern.startsWith("!")) exclude.push(pattern.slice(1))
+        else include.push(pattern)
+    }
+
+    const expandedInclude = include.flatMap(expandBraces).map(normalizePattern)
+    const expandedExclude = exclude.flatMap(expandBraces).map(normalizePattern)
+
+    const files = []
+    const globs = []
+    for (const pattern of expandedInclude) {
+        if (GLOB_CHARS.test(pattern)) globs.push(pattern)
+        else files.push(pattern)
+    }
+
+    const includeRegexes = globs.map(compileGlob)
+    const excludeRegexes = expandedExclude.map(compileGlob)
+    // `dir/**` excludes the whole directory, so the walk can skip it
+    const excludedDirs = expandedExclude
+        .filter((p) => p.endsWith("/**"))
+        .map((p) => compileGlob(p.slice(0, -3)))
+
+    const bases = [...new Set(globs.map(literalBase))]
+        .sort((a, b) => a.length - b.length)
+        .filter((base, i, all) => !all.slice(0, i).some((outer) => contains(outer, base)))
+
+    const excluded = (relPath) => excludeRegexes.some((re) => re.test(relPath))
+
+    return {
+        files: files.filter((file) => !excluded(file)),
+        bases,
+        matches: (relPath) => includeRegexes.some((re) => re.test(relPath)) && !excluded(relPath),
+        skipDir: (relDir, name) => isHidden(name) || excludedDirs.some((re) => re.test(relDir)),
+    }
+}
+
+/** Directories wildcards never enter; reachable only as part of a base. */
+function isHidden(name) {
+    return name === "node_modules" || name.startsWith(".")
+}
+
+/**
+ * Whether walking `outer` already covers `inner`. A base under node_modules
+ * or a dot-directory is walked on its own, since the outer walk skips those.
+ */
+function contains(outer, inner) {
+    if (inner === outer) return true
+    if (outer !== "" && !inner.startsWith(outer + "/")) return false
+    const rest = outer === "" ? inner : inner.slice(outer.length + 1)
+    return !rest.split("/").some(isHidden)
+}
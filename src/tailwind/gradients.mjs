@@ -0,0 +1,76 @@
+/**
+ * Gradient utilities (`bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500`)
+ *
+ * USS has no CSS gradients, so nothing here becomes a gradient rule. The
+ * direction utilities stretch the background image, and the color stops are
+ * resolved at build time into a table the `onejs:tailwind` module exports.
+ * At runtime, startGradients (onejs-unity/uss) reads an element's direction
+ * and stop classes, renders the combination once with the proc/texture
+ * `gradient()` and sets it as the element's background image.
+ *
+ * Stops resolve like the `bg-*` colors, so palette colors, opacity modifiers
+ * (`from-red-500/50`) and arbitrary colors (`to-[#ff0066]`) all work.
+ */
+
+import { resolveDeclarations } from "./generator.mjs"
+import { defaultConfig } from "./user-config.mjs"
+
+/**
+ * Resolve a stop utility (`from-red-500`, `via-[#ff0066]`, `to-white/50`) to
+ * `{ position, color }`, the color as `#rrggbbaa`. Null for anything else.
+ *
+ * @param {string} base Utility without variants, prefix already stripped
+ * @param {Object} [config] Resolved config
+ */
+export function resolveGradientStop(base, config = defaultConfig) {
+    const match = base.match(/^(from|via|to)-(.+)$/)
+    if (!match) return null
+    const color = resolveDeclarations(`bg-${match[2]}`, config)?.["background-color"]
+    const hex = color ? toHex8(color) : null
+    return hex ? { position: match[1], color: hex } : null
+}
+
+/**
+ * The stop classes among `classNames`, mapped to their colors: the table the
+ * runtime looks stops up in. Only plain classes count, since the runtime
+ * reads an element's class list and has no notion of hover or breakpoints.
+ *
+ * @param {Iterable<string>} classNames Candidates, as scanned
+ * @param {Object} [config] Resolved config
+ * @returns {Record<string, string>}
+ */
+export function collectGradientStops(classNames, config = defaultConfig) {
+    const prefix = config.prefix ?? ""
+    const stops = {}
+    for (const className of classNames) {
+        if (!className.startsWith(prefix) || className.includes(":")) continue
+        const stop = resolveGradientStop(className.slice(prefix.length), config)
+        if (stop) stops[className] = stop.color
+    }
+    return Object.fromEntries(Object.entries(stops).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/** `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`, rgb()/rgba() or `transparent` as `#rrggbbaa`. */
+function toHex8(color) {
+    const value = color.trim().toLowerCase()
+    if (value === "transparent") return "#00000000"
+
+    const hex = value.match(/^#([0-9a-f]{3,8})$/)?.[1]
+    if (hex) {
+        if (hex.length === 3 || hex.length === 4) {
+            return "#" + [...hex].map((c) => c + c).join("").padEnd(8, "f")
+        }
+        if (hex.length === 6 || hex.length === 8) return "#" + hex.padEnd(8, "f")
+        return null
+    }
+
+    const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/)
+    if (rgb) {
+        const alpha = rgb[4] === undefined ? 1
+            : rgb[4].endsWith("%") ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4])
+        return "#" + [rgb[1], rgb[2], rgb[3]].map(Number).concat(Math.round(alpha * 255))
+            .map((n) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, "0"))
+            .join("")
+    }
+    return null
+}
@@ -8,13 +8,17 @@
  *   import { generateUSS, generateFromFiles } from "onejs-unity/tailwind"
  */
 
-export { allUtilities, staticUtilities } from "./utilities.mjs"
+export { allUtilities, staticUtilities, createUtilities } from "./utilities.mjs"
 export { spacing, colors, fontSize, breakpoints } from "./config.mjs"
+export { resolveConfig, loadConfig, findConfigFile, defaultConfig } from "./user-config.mjs"
 export {
     escapeClassName,
     extractClassNames,
     scanFiles,
+    scanContent,
     parseClassName,
     generateUSS,
     generateFromFiles,
 } from "./generator.mjs"
+export { expandApply, resolveApply } from "./apply.mjs"
+export { generateClassTypes } from "./class-types.mjs"
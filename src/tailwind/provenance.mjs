@@ -0,0 +1,115 @@
+/**
+ * Provenance for generated Tailwind USS
+ *
+ * A rule that misbehaves in UI Toolkit shows up under its escaped selector
+ * (`.md_c_hover_c_bg-red-500:hover`), which says little about where the class
+ * came from. This module locates each class in the scanned sources, for
+ * generateUSS's per-rule comments and for a sidecar JSON that maps every
+ * selector back to its class name and the files and lines it appears on:
+ *
+ *   {
+ *     "version": 1,
+ *     "rules": {
+ *       ".md .md_c_p-4": { "className": "md:p-4", "sources": [{ "file": "src/app.tsx", "line": 12, "column": 18 }] }
+ *     }
+ *   }
+ *
+ * Shared with the diagnostics, which point their warnings at the same spots.
+ */
+
+import path from "node:path"
+import { getFs } from "../fs-provider.mjs"
+
+/**
+ * Find where each class appears: the first whole-token occurrence in every
+ * scanned file whose extracted candidates include it.
+ *
+ * @param {Iterable<string>} classNames Classes to locate
+ * @param {string[]} files Scanned files (scanContent's `files`)
+ * @param {Map<string, { candidates: Set<string> }>} cache The scan cache, telling which file holds which candidates
+ * @returns {Promise<Map<string, Array<{ file: string, line?: number, column?: number, length?: number, lineText?: string }>>>}
+ *   Locations by class, with absolute file paths; classes found nowhere (the safelist) map to `[]`
+ */
+export async function locateClasses(classNames, files, cache) {
+    const contents = new Map()
+    const read = async (file) => {
+        if (!contents.has(file)) {
+            contents.set(file, await getFs().promises.readFile(file, "utf8").catch(() => ""))
+        }
+        return contents.get(file)
+    }
+
+    const located = new Map()
+    for (const className of classNames) {
+        const locations = []
+        for (const file of files) {
+            if (!cache.get(file)?.candidates.has(className)) continue
+            locations.push(locate(await read(file), className, file))
+        }
+        located.set(className, locations)
+    }
+    return located
+}
+
+/**
+ * Turn locateClasses results into the `sources` generateUSS takes: paths
+ * relative to `cwd`, with forward slashes, and line/column only.
+ *
+ * @param {Map<string, Array<{ file: string, line?: number, column?: number }>>} located
+ * @param {string} cwd Project root
+ * @returns {Map<string, Array<{ file: string, line?: number, column?: number }>>}
+ */
+export function relativeSources(located, cwd) {
+    const sources = new Map()
+    for (const [className, locations] of located) {
+        sources.set(className, locations.map(({ file, line, column }) => ({
+            file: path.relative(cwd, file).split(path.sep).join("/"),
+            ...(line !== undefined && { line, column }),
+        })))
+    }
+    return sources
+}
+
+/**
+ * Build the sidecar JSON object from the rules generateUSS reported through
+ * `onRule` and the sources of their classes.
+ *
+ * @param {Array<{ className: string, selector: string }>} rules
+ * @param {Map<string, Array<{ file: string, line?: number, column?: number }>>} sources
+ */
+export function buildProvenanceMap(rules, sources) {
+    const map = {}
+    for (const { className, selector } of rules) {
+        map[selector] = { className, sources: sources.get(className) ?? [] }
+    }
+    return { version: 1, rules: map }
+}
+
+/**
+ * The comment generateUSS puts above a rule: the class and where it came
+ * from (`hover:p-4 <- src/app.tsx:12, src/menu.tsx:3`).
+ */
+export function provenanceComment(className, locations = []) {
+    const where = locations
+        .map(({ file, line }) => (line === undefined ? file : `${file}:${line}`))
+        .join(", ")
+    const text = where ? `${className} <- ${where}` : className
+    return `/* ${text.replace(/\*\//g, "* /")} */`
+}
+
+/** Line (1-based), column and line text of the first whole-token occurrence. */
+function locate(content, className, file) {
+    const escaped = className.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    const match = new RegExp(`(^|[\\s"'\`{(,])(${escaped})(?=[\\s"'\`}),]|$)`).exec(content)
+    if (!match) return { file }
+    const index = match.index + match[1].length
+    const lineStart = content.lastIndexOf("\n", index - 1) + 1
+    const lineEnd = content.indexOf("\n", index)
+    return {
+        file,
+        line: content.slice(0, index).split("\n").length,
+        column: index - lineStart,
+        length: className.length,
+        lineText: content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+    }
+}
@@ -1,11 +1,22 @@
-import { readFileSync } from "node:fs"
+import { readFileSync, writeFileSync, mkdtempSync, mkdirSync, rmSync, utimesSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { describe, it, expect } from "vitest"
 import {
     extractClassNames,
     escapeClassName,
     parseClassName,
     generateUSS,
+    generateFromFiles,
+    scanContent,
 } from "./generator.mjs"
+import { resolveConfig } from "./user-config.mjs"
+import { expandApply } from "./apply.mjs"
+import { expandBraces, createContentMatcher } from "./glob.mjs"
+import { generateClassTypes } from "./class-types.mjs"
+import { diagnoseClasses } from "./diagnostics.mjs"
+import { collectGradientStops } from "./gradients.mjs"
+import { buildProvenanceMap } from "./provenance.mjs"
 
 // ============================================================================
 // extractClassNames
@@ -491,39 +502,81 @@ describe("escapeClassName", () => {
 describe("parseClassName", () => {
     it("parses simple utility", () => {
         expect(parseClassName("p-4")).toEqual({
-            base: "p-4", variant: null, breakpoint: null,
+            base: "p-4", variants: [], breakpoint: null, important: false,
         })
     })
 
     it("parses variant prefix", () => {
         expect(parseClassName("hover:bg-red-500")).toEqual({
-            base: "bg-red-500", variant: "hover", breakpoint: null,
+            base: "bg-red-500", variants: ["hover"], breakpoint: null, important: false,
         })
     })
 
     it("parses breakpoint prefix", () => {
         expect(parseClassName("sm:p-4")).toEqual({
-            base: "p-4", variant: null, breakpoint: "sm",
+            base: "p-4", variants: [], breakpoint: "sm", important: false,
         })
     })
 
     it("parses breakpoint + variant", () => {
         expect(parseClassName("lg:hover:bg-blue-600")).toEqual({
-            base: "bg-blue-600", variant: "hover", breakpoint: "lg",
+            base: "bg-blue-600", variants: ["hover"], breakpoint: "lg", important: false,
         })
     })
 
     it("parses focus variant", () => {
         expect(parseClassName("focus:ring-2")).toEqual({
-            base: "ring-2", variant: "focus", breakpoint: null,
+            base: "ring-2", variants: ["focus"], breakpoint: null, important: false,
         })
     })
 
     it("parses 2xl breakpoint", () => {
         expect(parseClassName("2xl:p-8")).toEqual({
-            base: "p-8", variant: null, breakpoint: "2xl",
+            base: "p-8", variants: [], breakpoint: "2xl", important: false,
         })
     })
+
+    it("keeps every stacked variant, in written order", () => {
+        expect(parseClassName("md:hover:focus:bg-x")).toEqual({
+            base: "bg-x", variants: ["hover", "focus"], breakpoint: "md", important: false,
+        })
+        expect(parseClassName("active:hover:bg-blue-500").variants).toEqual(["active", "hover"])
+    })
+
+    it("finds the breakpoint anywhere in the chain", () => {
+        expect(parseClassName("hover:lg:bg-blue-600")).toEqual({
+            base: "bg-blue-600", variants: ["hover"], breakpoint: "lg", important: false,
+        })
+    })
+
+    it("resolves stacked breakpoints to the widest", () => {
+        expect(parseClassName("sm:lg:p-4").breakpoint).toBe("lg")
+        expect(parseClassName("lg:sm:p-4").breakpoint).toBe("lg")
+    })
+
+    it("does not split on colons inside an arbitrary variant", () => {
+        expect(parseClassName("[&:hover>Label]:focus:p-4")).toEqual({
+            base: "p-4", variants: ["[&:hover>Label]", "focus"], breakpoint: null, important: false,
+        })
+    })
+
+    it("reads the ! modifier before or after the utility", () => {
+        expect(parseClassName("md:!p-4")).toEqual({
+            base: "p-4", variants: [], breakpoint: "md", important: true,
+        })
+        expect(parseClassName("hover:p-4!")).toEqual({
+            base: "p-4", variants: ["hover"], breakpoint: null, important: true,
+        })
+        expect(parseClassName("!-m-2").base).toBe("-m-2")
+    })
+
+    it("strips the configured prefix, and rejects classes without it", () => {
+        const config = resolveConfig({ prefix: "tw-" })
+        expect(parseClassName("hover:tw-p-4", config).base).toBe("p-4")
+        expect(parseClassName("-tw-m-2", config).base).toBe("-m-2")
+        expect(parseClassName("!tw-p-4", config)).toMatchObject({ base: "p-4", important: true })
+        expect(parseClassName("p-4", config).base).toBeNull()
+    })
 })
 
 // ============================================================================
@@ -572,10 +625,11 @@ describe("generateUSS", () => {
         expect(uss).not.toContain(":group-focus")
     })
 
-    it("generates USS with peer-<pseudo> as sibling selector", () => {
-        const uss = generateUSS(new Set(["peer-focus:bg-blue-500"]))
-        expect(uss).toContain(".peer:focus ~ .peer-focus_c_bg-blue-500")
-        expect(uss).not.toContain(":peer-focus")
+    it("skips peer-<pseudo>, which needs a sibling combinator USS lacks", () => {
+        const uss = generateUSS(new Set(["peer-focus:bg-blue-500", "group-hover:peer-checked:p-4"]))
+        expect(uss).not.toContain("peer")
+        expect(uss).not.toContain(" ~ ")
+        expect(diagnoseClasses(["peer-focus:bg-blue-500"])[0].advice).toContain("group-*")
     })
 
     it("expands [&>child] arbitrary variant to a descendant selector", () => {
@@ -676,6 +730,619 @@ describe("generateUSS", () => {
     })
 })
 
+// ============================================================================
+// Stacked variants
+// ============================================================================
+
+describe("stacked variants", () => {
+    it("emits one rule carrying every pseudo-class", () => {
+        const uss = generateUSS(new Set(["active:hover:bg-blue-500"]))
+        expect(uss).toContain(".active_c_hover_c_bg-blue-500:active:hover {")
+    })
+
+    it("combines a breakpoint with several pseudo-classes", () => {
+        const uss = generateUSS(new Set(["md:hover:focus:bg-blue-500"]))
+        expect(uss).toContain(".md .md_c_hover_c_focus_c_bg-blue-500:hover:focus {")
+    })
+
+    it("puts a pseudo-class after group-* on the element itself", () => {
+        const uss = generateUSS(new Set(["group-hover:disabled:opacity-50"]))
+        expect(uss).toContain(".group:hover .group-hover_c_disabled_c_opacity-50:disabled {")
+    })
+
+    it("merges stacked group states onto one ancestor", () => {
+        const uss = generateUSS(new Set(["group-hover:group-focus:p-4"]))
+        expect(uss).toContain(".group:hover:focus .group-hover_c_group-focus_c_p-4 {")
+    })
+
+    it("applies pseudo-classes to the element or its children by position around *", () => {
+        const uss = generateUSS(new Set(["hover:*:opacity-50", "*:hover:opacity-50"]))
+        expect(uss).toContain(".hover_c__ast__c_opacity-50:hover > * {")
+        expect(uss).toContain("._ast__c_hover_c_opacity-50 > *:hover {")
+    })
+
+    it("substitutes & with the subject built so far", () => {
+        const uss = generateUSS(new Set(["hover:[&>Label]:p-4", "[&>Label]:hover:p-4"]))
+        expect(uss).toContain(".hover_c__lb__amp__gt_Label_rb__c_p-4:hover>Label {")
+        expect(uss).toContain("._lb__amp__gt_Label_rb__c_hover_c_p-4>Label:hover {")
+    })
+
+    it("scopes a stacked group variant under its breakpoint", () => {
+        const uss = generateUSS(new Set(["lg:group-hover:focus:p-4"]))
+        expect(uss).toContain(".lg .group:hover .lg_c_group-hover_c_focus_c_p-4:focus {")
+    })
+})
+
+// ============================================================================
+// Scope variants (dark: and named themes)
+// ============================================================================
+
+describe("scope variants", () => {
+    it("compiles dark: to a .dark ancestor selector", () => {
+        const uss = generateUSS(new Set(["dark:bg-gray-900"]))
+        expect(uss).toContain(".dark .dark_c_bg-gray-900 {")
+        expect(uss).not.toContain(":dark")
+    })
+
+    it("keeps pseudo-classes and group-* inside the scope", () => {
+        const uss = generateUSS(new Set(["dark:hover:bg-gray-800", "group-hover:dark:p-4"]))
+        expect(uss).toContain(".dark .dark_c_hover_c_bg-gray-800:hover {")
+        expect(uss).toContain(".dark .group:hover .group-hover_c_dark_c_p-4 {")
+    })
+
+    it("compounds a scope with the breakpoint on the same root class list", () => {
+        const uss = generateUSS(new Set(["md:dark:p-4"]))
+        expect(uss).toContain(".md.dark .md_c_dark_c_p-4 {")
+    })
+
+    it("uses the darkMode class from the config", () => {
+        const config = resolveConfig({ darkMode: ["class", ".night"] })
+        expect(generateUSS(new Set(["dark:p-4"]), { config })).toContain(".night .dark_c_p-4 {")
+    })
+
+    it("drops the dark variant when darkMode is false", () => {
+        const config = resolveConfig({ darkMode: false })
+        expect(generateUSS(new Set(["dark:p-4"]), { config })).toContain(".dark_c_p-4:dark {")
+    })
+
+    it("adds named theme variants", () => {
+        const config = resolveConfig({ themes: ["kawaii"] })
+        const uss = generateUSS(new Set(["kawaii:bg-pink-300", "kawaii:dark:bg-pink-900"]), { config })
+        expect(uss).toContain(".kawaii .kawaii_c_bg-pink-300 {")
+        expect(uss).toContain(".kawaii.dark .kawaii_c_dark_c_bg-pink-900 {")
+    })
+
+    it("maps a theme variant to a different class", () => {
+        const config = resolveConfig({ themes: { retro: ".theme-retro" } })
+        expect(generateUSS(new Set(["retro:p-4"]), { config })).toContain(".theme-retro .retro_c_p-4 {")
+    })
+})
+
+// ============================================================================
+// Container variants
+// ============================================================================
+
+describe("container variants", () => {
+    it("compiles @size: to a cq-size ancestor class", () => {
+        const uss = generateUSS(new Set(["@md:flex-row", "@md/sidebar:hover:p-4"]))
+        expect(uss).toContain(".cq-md ._at_md_c_flex-row {")
+        expect(uss).toContain(".cq-sidebar-md ._at_md_s_sidebar_c_hover_c_p-4:hover {")
+    })
+
+    it("puts containers inside root scopes and outside groups", () => {
+        const uss = generateUSS(new Set(["dark:group-hover:@sm:p-4"]))
+        expect(uss).toContain(".dark .cq-sm .group:hover .dark_c_group-hover_c__at_sm_c_p-4 {")
+    })
+
+    it("emits container rules after breakpoints, smallest size first", () => {
+        const uss = generateUSS(new Set(["@lg:p-8", "@sm:p-2", "xl:p-6"]))
+        const order = ["xl breakpoint", "@sm container (384px+)", "@lg container (512px+)"].map((s) => uss.indexOf(s))
+        expect(order.every((index) => index !== -1)).toBe(true)
+        expect([...order].sort((a, b) => a - b)).toEqual(order)
+    })
+
+    it("skips sizes the theme does not have", () => {
+        expect(generateUSS(new Set(["@huge:p-4"]))).not.toContain("p-4")
+    })
+
+    it("reads sizes from theme.containers", () => {
+        const config = resolveConfig({ theme: { extend: { containers: { card: "200px" } } } })
+        expect(generateUSS(new Set(["@card:p-4"]), { config })).toContain("/* @card container (200px+) */")
+        expect(diagnoseClasses(["@card:p-4", "@nope:p-4"], config).map((p) => p.className)).toEqual(["@nope:p-4"])
+    })
+})
+
+// ============================================================================
+// resolveConfig (tailwind.config.js theme)
+// ============================================================================
+
+describe("resolveConfig", () => {
+    it("flattens nested extend.colors into utilities, keeping the defaults", () => {
+        const config = resolveConfig({
+            theme: { extend: { colors: { brand: { DEFAULT: "#112233", 500: "#ff0066" } } } },
+        })
+        const uss = generateUSS(new Set(["bg-brand-500", "text-brand", "bg-blue-500"]), { config })
+        expect(uss).toContain(".bg-brand-500 {\n    background-color: #ff0066;")
+        expect(uss).toContain(".text-brand {\n    color: #112233;")
+        expect(uss).toContain(".bg-blue-500")
+    })
+
+    it("pre-expands opacity steps for user hex colors", () => {
+        const config = resolveConfig({ theme: { extend: { colors: { brand: "#ff0000" } } } })
+        const uss = generateUSS(new Set(["bg-brand/50"]), { config })
+        expect(uss).toContain("background-color: #ff000080")
+    })
+
+    it("replaces a default scale when set outside extend", () => {
+        const config = resolveConfig({ theme: { spacing: { gutter: "20px" } } })
+        const uss = generateUSS(new Set(["p-gutter", "p-4"]), { config })
+        expect(uss).toContain("padding-top: 20px")
+        expect(uss).not.toContain(".p-4")
+    })
+
+    it("converts rem/em lengths and fontSize tuples to px", () => {
+        const config = resolveConfig({
+            theme: {
+                extend: {
+                    spacing: { 18: "4.5rem" },
+                    fontSize: { huge: ["3rem", { lineHeight: "1" }] },
+                    borderRadius: { pill: "2rem" },
+                    letterSpacing: { airy: "0.1em" },
+                },
+            },
+        })
+        const uss = generateUSS(new Set(["m-18", "text-huge", "rounded-pill", "tracking-airy"]), { config })
+        expect(uss).toContain("margin-top: 72px")
+        expect(uss).toContain("font-size: 48px")
+        expect(uss).toContain("border-radius: 32px")
+        expect(uss).toContain("letter-spacing: 1.6px")
+    })
+
+    it("adds custom screens as breakpoints, ordered by width", () => {
+        const config = resolveConfig({ theme: { extend: { screens: { tablet: "900px", xs: { min: "480px" } } } } })
+        expect(Object.keys(config.theme.breakpoints)).toEqual(["xs", "sm", "md", "tablet", "lg", "xl", "2xl"])
+        expect(parseClassName("tablet:p-4", config).breakpoint).toBe("tablet")
+
+        const uss = generateUSS(new Set(["tablet:p-4"]), { config })
+        expect(uss).toContain("/* tablet breakpoint (900px+) */")
+        expect(uss).toContain(".tablet .tablet_c_p-4")
+    })
+
+    it("drops breakpoints a screens override leaves out", () => {
+        const config = resolveConfig({ theme: { screens: { wide: "1200px" } } })
+        expect(parseClassName("sm:p-4", config).breakpoint).toBeNull()
+        expect(parseClassName("wide:p-4", config).breakpoint).toBe("wide")
+    })
+
+    it("calls function-valued sections with a theme accessor", () => {
+        const config = resolveConfig({
+            theme: { extend: { spacing: ({ theme }: any) => ({ gutter: theme("spacing")["4"] }) } },
+        })
+        expect(generateUSS(new Set(["px-gutter"]), { config })).toContain("padding-left: 16px")
+    })
+})
+
+// ============================================================================
+// expandApply (@apply / @layer in USS files)
+// ============================================================================
+
+describe("expandApply", () => {
+    it("inlines variant-free utilities where the @apply was", () => {
+        const uss = expandApply(`.card {\n    @apply p-4 bg-gray-900;\n    border-radius: 4px;\n}`)
+        expect(uss).toBe(
+            ".card {\n" +
+            "    padding-top: 16px;\n    padding-right: 16px;\n    padding-bottom: 16px;\n    padding-left: 16px;\n" +
+            "    background-color: #111827;\n" +
+            "    border-radius: 4px;\n}",
+        )
+    })
+
+    it("emits variant and breakpoint rules after the rule", () => {
+        const uss = expandApply(`.btn { @apply bg-gray-900 hover:bg-gray-800 md:p-6; }`)
+        expect(uss).toContain(".btn { background-color: #111827; }")
+        expect(uss).toContain(".btn:hover {\n    background-color: #1f2937;\n}")
+        expect(uss).toContain(".md .btn {\n    padding-top: 24px;")
+        expect(uss.indexOf(".btn:hover")).toBeGreaterThan(uss.indexOf(".btn {"))
+    })
+
+    it("applies variants to every selector in a list", () => {
+        const uss = expandApply(`.a, .b > Label { @apply hover:opacity-50; }`)
+        expect(uss).toContain(".a:hover, .b > Label:hover {")
+    })
+
+    it("resolves arbitrary values and opacity modifiers like generateUSS", () => {
+        const uss = expandApply(`.x { @apply w-[200] bg-[#ff5733]/50; }`)
+        expect(uss).toContain("width: 200px;")
+        expect(uss).toMatch(/background-color: rgba\(255, 87, 51, 0\.5\)/)
+    })
+
+    it("uses the resolved config's theme", () => {
+        const config = resolveConfig({ theme: { extend: { colors: { brand: "#ff0066" } } } })
+        expect(expandApply(`.x { @apply bg-brand dark:bg-brand/50; }`, { config }))
+            .toContain(".dark .x {\n    background-color: #ff006680;")
+    })
+
+    it("wraps ancestor parts in :global() for .module.uss files", () => {
+        const uss = expandApply(`.x { @apply group-hover:p-4 md:dark:p-2; }`, { global: true })
+        expect(uss).toContain(":global(.group:hover) .x {")
+        expect(uss).toContain(":global(.md.dark) .x {")
+    })
+
+    it("unwraps @layer blocks and drops @layer ordering statements", () => {
+        const uss = expandApply(`@layer base, components;\n@layer components {\n.btn { @apply p-1; }\n}\n.after { color: red; }`)
+        expect(uss).not.toContain("@layer")
+        expect(uss).toContain(".btn { padding-top: 4px;")
+        expect(uss).toContain(".after { color: red; }")
+    })
+
+    it("leaves comments and rules without @apply untouched", () => {
+        const source = `/* @apply p-4; in a comment */\n.plain { color: red; }`
+        expect(expandApply(source + "\n.x { @apply p-1; }")).toContain(source)
+    })
+
+    it("throws with the line of an unknown utility", () => {
+        expect(() => expandApply(`.a { color: red; }\n.b {\n    @apply p-4 not-a-utility;\n}`))
+            .toThrow(/"not-a-utility" is not a known utility \(line 3\)/)
+    })
+
+    it("throws on peer-* variants, which USS has no selector for", () => {
+        expect(() => expandApply(`.a { @apply peer-focus:p-4; }`)).toThrow(/"peer-focus:p-4" uses a peer-\* variant/)
+    })
+})
+
+// ============================================================================
+// scanContent (cached scanning)
+// ============================================================================
+
+describe("scanContent", () => {
+    function withProject(run: (root: string) => Promise<void>) {
+        const root = mkdtempSync(join(tmpdir(), "onejs-scan-test-"))
+        mkdirSync(join(root, "ui"))
+        writeFileSync(join(root, "index.tsx"), `<View className="p-4" />`)
+        writeFileSync(join(root, "ui/a.tsx"), `<View className="m-2" />`)
+        writeFileSync(join(root, "ui/b.tsx"), `<View className="flex" />`)
+        return run(root).finally(() => rmSync(root, { recursive: true, force: true }))
+    }
+
+    const patterns = ["./index.tsx", "./ui/**/*.tsx"]
+
+    it("reuses unchanged files and re-extracts only edited ones", () => withProject(async (root) => {
+        const cache = new Map()
+        const first = await scanContent(patterns, { cwd: root, cache })
+        expect(first.scanned).toBe(3)
+        expect(first.reused).toBe(0)
+
+        const second = await scanContent(patterns, { cwd: root, cache })
+        expect(second.scanned).toBe(0)
+        expect(second.reused).toBe(3)
+        expect([...second.classNames]).toEqual(expect.arrayContaining(["p-4", "m-2", "flex"]))
+
+        writeFileSync(join(root, "ui/a.tsx"), `<View className="m-8" />`)
+        utimesSync(join(root, "ui/a.tsx"), new Date(), new Date(Date.now() + 5000))
+        const third = await scanContent(patterns, { cwd: root, cache })
+        expect(third.scanned).toBe(1)
+        expect(third.reused).toBe(2)
+        expect(third.classNames.has("m-8")).toBe(true)
+        expect(third.classNames.has("m-2")).toBe(false)
+    }))
+
+    it("reuses a touched file whose content hash is unchanged", () => withProject(async (root) => {
+        const cache = new Map()
+        await scanContent(patterns, { cwd: root, cache })
+        utimesSync(join(root, "index.tsx"), new Date(), new Date(Date.now() + 5000))
+
+        const result = await scanContent(patterns, { cwd: root, cache })
+        expect(result.scanned).toBe(0)
+        expect(result.reused).toBe(3)
+    }))
+
+    it("reports scanned files and walked directories, and drops deleted files", () => withProject(async (root) => {
+        const cache = new Map()
+        const first = await scanContent(patterns, { cwd: root, cache })
+        expect(first.files).toContain(join(root, "ui/b.tsx"))
+        expect(first.dirs).toContain(join(root, "ui"))
+
+        rmSync(join(root, "ui/b.tsx"))
+        const second = await scanContent(patterns, { cwd: root, cache })
+        expect(second.classNames.has("flex")).toBe(false)
+        expect(cache.has(join(root, "ui/b.tsx"))).toBe(false)
+    }))
+})
+
+describe("provenance", () => {
+    it("comments each rule with its class and sources", () => {
+        const sources = new Map([["hover:p-4", [{ file: "src/app.tsx", line: 12 }, { file: "src/menu.tsx", line: 3 }]]])
+        const uss = generateUSS(new Set(["hover:p-4", "m-2"]), { sources })
+        expect(uss).toContain("/* hover:p-4 <- src/app.tsx:12, src/menu.tsx:3 */\n.hover_c_p-4:hover {")
+        expect(uss).toContain("/* m-2 */\n.m-2 {")
+    })
+
+    it("reports every rule's selector", () => {
+        const rules: Array<{ className: string, selector: string }> = []
+        generateUSS(new Set(["md:p-4", "!m-2", "nope"]), { onRule: (rule: { className: string, selector: string }) => rules.push(rule) })
+        expect(rules).toEqual([
+            { className: "md:p-4", selector: ".md .md_c_p-4" },
+            { className: "!m-2", selector: "._ex_m-2._ex_m-2" },
+        ])
+    })
+
+    it("locates generated classes in the scanned files", async () => {
+        const root = mkdtempSync(join(tmpdir(), "onejs-provenance-test-"))
+        try {
+            writeFileSync(join(root, "index.tsx"), `const a = 1\nexport const c = <View className="p-4 hover:m-2 not-a-class" />`)
+            const rules: Array<{ className: string, selector: string }> = []
+            let sources: Map<string, Array<{ file: string, line?: number, column?: number }>> | undefined
+            const uss = await generateFromFiles(["./index.tsx"], {
+                cwd: root,
+                safelist: ["flex"],
+                provenance: true,
+                onScan: (scan: { sources: typeof sources }) => { sources = scan.sources },
+                onRule: (rule: { className: string, selector: string }) => rules.push(rule),
+            })
+
+            expect(uss).toContain("/* hover:m-2 <- index.tsx:2 */")
+            expect(sources!.has("not-a-class")).toBe(false)
+            expect(buildProvenanceMap(rules, sources!).rules).toEqual({
+                ".p-4": { className: "p-4", sources: [{ file: "index.tsx", line: 2, column: 34 }] },
+                ".hover_c_m-2:hover": { className: "hover:m-2", sources: [{ file: "index.tsx", line: 2, column: 38 }] },
+                ".flex": { className: "flex", sources: [] },
+            })
+        } finally {
+            rmSync(root, { recursive: true, force: true })
+        }
+    })
+})
+
+// ============================================================================
+// Important modifier and prefix
+// ============================================================================
+
+describe("important modifier", () => {
+    it("doubles the class and emits it after every other rule", () => {
+        const uss = generateUSS(["!p-4", "p-2", "md:p-6"])
+        expect(uss).toContain("._ex_p-4._ex_p-4 {")
+        expect(uss.indexOf("._ex_p-4._ex_p-4")).toBeGreaterThan(uss.indexOf(".md .md_c_p-6"))
+        expect(uss).not.toContain("!important")
+    })
+
+    it("keeps variants and breakpoints, narrowest breakpoint first", () => {
+        const uss = generateUSS(["lg:!p-2", "md:!p-4", "hover:p-4!"])
+        expect(uss).toContain(".hover_c_p-4_ex_.hover_c_p-4_ex_:hover {")
+        expect(uss).toContain(".md .md_c__ex_p-4.md_c__ex_p-4 {")
+        expect(uss.indexOf(".md .md_c__ex_p-4")).toBeLessThan(uss.indexOf(".lg .lg_c__ex_p-2"))
+    })
+})
+
+describe("prefix option", () => {
+    const config = resolveConfig({ prefix: "tw-" })
+
+    it("only generates prefixed utilities", () => {
+        const uss = generateUSS(["tw-p-4", "hover:tw-bg-red-500", "-tw-m-2", "p-4"], { config })
+        expect(uss).toContain(".tw-p-4 {")
+        expect(uss).toContain(".hover_c_tw-bg-red-500:hover {")
+        expect(uss).toContain(".-tw-m-2 {")
+        expect(uss).not.toContain(".p-4 {")
+    })
+
+    it("keeps only prefixed candidates when extracting", () => {
+        const classes = extractClassNames(`<View className="tw-p-4 md:!tw-m-2 flex card" />`, { prefix: "tw-" })
+        expect([...classes].sort()).toEqual(["md:!tw-m-2", "tw-p-4"])
+    })
+
+    it("escapes prefixed and unprefixed names to the same class", () => {
+        expect(escapeClassName("hover:p-4", { prefix: "tw-" })).toBe("hover_c_tw-p-4")
+        expect(escapeClassName("hover:tw-p-4", { prefix: "tw-" })).toBe("hover_c_tw-p-4")
+        expect(escapeClassName("!-m-2", { prefix: "tw-" })).toBe("_ex_-tw-m-2")
+    })
+
+    it("requires the prefix in @apply", () => {
+        expect(expandApply(`.a { @apply tw-p-4; }`, { config })).toContain("padding-top: 16px")
+        expect(() => expandApply(`.a { @apply p-4; }`, { config })).toThrow(/missing the "tw-" prefix/)
+    })
+})
+
+// ============================================================================
+// Animations
+// ============================================================================
+
+describe("animate utilities", () => {
+    it("emits the phase classes the runtime toggles", () => {
+        const uss = generateUSS(["animate-spin"])
+        expect(uss).toContain(".animate-spin {\n    transition-property: rotate;")
+        expect(uss).toMatch(/\.animate-spin-phase-0 \{[^}]*rotate: 0deg;[^}]*transition-duration: 0ms;/)
+        expect(uss).toMatch(/\.animate-spin-phase-1 \{[^}]*rotate: 360deg;[^}]*transition-duration: 1000ms;[^}]*linear/)
+    })
+
+    it("covers pulse, ping and bounce", () => {
+        const uss = generateUSS(["animate-pulse", "animate-ping", "animate-bounce"])
+        expect(uss).toMatch(/\.animate-pulse-phase-1 \{[^}]*opacity: 0\.5;/)
+        expect(uss).toMatch(/\.animate-ping-phase-1 \{[^}]*scale: 2 2;[^}]*opacity: 0;/)
+        expect(uss).toMatch(/\.animate-bounce-phase-0 \{[^}]*translate: 0 -25%;/)
+    })
+
+    it("adds phases only for plain animate classes", () => {
+        expect(generateUSS(["hover:animate-spin"])).not.toContain("phase-0")
+        const prefixed = generateUSS(["tw-animate-spin"], { config: resolveConfig({ prefix: "tw-" }) })
+        expect(prefixed).toContain(".tw-animate-spin-phase-1 {")
+    })
+})
+
+// ============================================================================
+// Gradients
+// ============================================================================
+
+describe("gradient utilities", () => {
+    it("stretches the background for bg-gradient-to-*", () => {
+        expect(generateUSS(new Set(["bg-gradient-to-br"]))).toContain(
+            ".bg-gradient-to-br {\n    -unity-background-scale-mode: stretch-to-fill;\n}",
+        )
+    })
+
+    it("resolves stops like background colors", () => {
+        expect(collectGradientStops(["from-red-500", "via-[#f06]", "to-white/50", "to-transparent", "from-nope", "hover:to-red-500"]))
+            .toEqual({
+                "from-red-500": "#ef4444ff",
+                "to-transparent": "#00000000",
+                "to-white/50": "#ffffff80",
+                "via-[#f06]": "#ff0066ff",
+            })
+    })
+
+    it("uses the theme and the prefix", () => {
+        const config = resolveConfig({ prefix: "tw-", theme: { extend: { colors: { brand: "#4f46e5" } } } })
+        expect(collectGradientStops(["tw-from-brand", "from-brand"], config)).toEqual({ "tw-from-brand": "#4f46e5ff" })
+    })
+
+    it("generates no rules for stops, and diagnoses stops behind variants", () => {
+        expect(generateUSS(new Set(["from-red-500"]))).not.toContain("from-red-500")
+        expect(diagnoseClasses(["from-red-500", "hover:from-red-500", "to-blu-500"]).map((p) => p.className))
+            .toEqual(["hover:from-red-500", "to-blu-500"])
+    })
+})
+
+// ============================================================================
+// Class name types
+// ============================================================================
+
+describe("generateClassTypes", () => {
+    const dts = generateClassTypes()
+
+    it("lists utilities, with opacity forms folded into color utilities", () => {
+        expect(dts).toContain(`        | "p-4"`)
+        expect(dts).toContain(`        | "w-1/2"`)
+        expect(dts).not.toContain(`"bg-red-500/50"`)
+        expect(dts).toMatch(/TailwindColorUtility =[^;]*\| "bg-red-500"/)
+        expect(dts).not.toContain("phase-0")
+    })
+
+    it("lists breakpoints, pseudo-class and scope variants", () => {
+        expect(dts).toContain(`export type TailwindBreakpoint = "sm" | "md" | "lg" | "xl" | "2xl"`)
+        expect(dts).toMatch(/TailwindVariant = [^\n]*"hover"[^\n]*"group-hover"[^\n]*"dark"/)
+        expect(dts).toMatch(/TailwindContainerVariant = `@\$\{"3xs" \| [^`]*"7xl"\}`/)
+        expect(dts).toMatch(/TailwindGradientStop = `\$\{"from" \| "via" \| "to"\}-\$\{"transparent" \| [^`]*"red-500"/)
+    })
+
+    it("writes prefixed names for a prefixed config", () => {
+        const prefixed = generateClassTypes(resolveConfig({ prefix: "tw-" }))
+        expect(prefixed).toContain(`| "tw-p-4"`)
+        expect(prefixed).toContain(`| "-tw-m-2"`)
+        expect(prefixed).not.toContain(`| "p-4"`)
+    })
+})
+
+// ============================================================================
+// Diagnostics
+// ============================================================================
+
+describe("diagnoseClasses", () => {
+    const names = (classes: string[]) => diagnoseClasses(classes).map((p) => p.className)
+
+    it("reports Tailwind-looking candidates that resolved to nothing", () => {
+        expect(names(["bg-blu-500", "p-13", "hover:text-gren-400", "top-[3px"])).toEqual([
+            "bg-blu-500", "hover:text-gren-400", "p-13", "top-[3px",
+        ])
+    })
+
+    it("ignores ordinary strings and valid classes", () => {
+        expect(names(["my-button", "items-list", "p-4", "hover:bg-red-500", "hello", "md:dark:p-2"])).toEqual([])
+    })
+
+    it("reports unsupported families with advice", () => {
+        const problems = diagnoseClasses(["shadow-lg", "grid-cols-3", "z-10", "blur-sm", "md:grid"])
+        expect(problems.map((p) => p.className)).toEqual(["blur-sm", "grid-cols-3", "md:grid", "shadow-lg", "z-10"])
+        expect(problems.find((p) => p.className === "z-10")!.advice).toMatch(/hierarchy order/)
+    })
+
+    it("reports variants USS has no selector for", () => {
+        const [problem] = diagnoseClasses(["hovr:p-4", "group-hover:p-4", "[&>Label]:p-4"])
+        expect(problem.className).toBe("hovr:p-4")
+        expect(problem.message).toMatch(/"hovr:"/)
+    })
+
+    it("keeps the once-per-build warning quiet for bare words", () => {
+        const reported: string[] = []
+        generateUSS(["grid", "fixed", "md:grid", "shadow-md"], {
+            onUnsupported: (families: Array<{ used: string[] }>) => families.forEach((f) => reported.push(...f.used)),
+        })
+        expect(reported.sort()).toEqual(["md:grid", "shadow-md"])
+    })
+})
+
+// ============================================================================
+// Content globs
+// ============================================================================
+
+describe("content globs", () => {
+    it("expands nested brace sets", () => {
+        expect(expandBraces("{src,lib}/*.{ts,tsx}")).toEqual([
+            "src/*.ts", "src/*.tsx", "lib/*.ts", "lib/*.tsx",
+        ])
+        expect(expandBraces("a/{b,{c,d}}.ts")).toEqual(["a/b.ts", "a/c.ts", "a/d.ts"])
+        expect(expandBraces("a/{b}.ts")).toEqual(["a/{b}.ts"])
+    })
+
+    it("matches ** across any depth, including none", () => {
+        const m = createContentMatcher(["./**/*.{tsx,ts}"])
+        expect(m.matches("index.tsx")).toBe(true)
+        expect(m.matches("ui/deep/button.ts")).toBe(true)
+        expect(m.matches("ui/button.js")).toBe(false)
+    })
+
+    it("matches mid-path wildcards segment by segment", () => {
+        const m = createContentMatcher(["src/*/ui/**/*.tsx", "screens/?.tsx", "lib/[ab]*.tsx"])
+        expect(m.matches("src/game/ui/hud/bar.tsx")).toBe(true)
+        expect(m.matches("src/game/ui/bar.tsx")).toBe(true)
+        expect(m.matches("src/game/extra/ui/bar.tsx")).toBe(false)
+        expect(m.matches("screens/a.tsx")).toBe(true)
+        expect(m.matches("screens/ab.tsx")).toBe(false)
+        expect(m.matches("lib/alpha.tsx")).toBe(true)
+        expect(m.matches("lib/gamma.tsx")).toBe(false)
+    })
+
+    it("applies ! patterns and the ignore list after inclusions", () => {
+        const m = createContentMatcher(["./**/*.tsx", "!**/*.test.tsx"], ["dist/**"])
+        expect(m.matches("ui/button.tsx")).toBe(true)
+        expect(m.matches("ui/button.test.tsx")).toBe(false)
+        expect(m.matches("dist/bundle.tsx")).toBe(false)
+        expect(m.skipDir("dist", "dist")).toBe(true)
+    })
+
+    it("keeps wildcards out of node_modules and dot-directories", () => {
+        const m = createContentMatcher(["./**/*.tsx", "./node_modules/@acme/ui/**/*.tsx"])
+        expect(m.matches("node_modules/react/index.tsx")).toBe(false)
+        expect(m.matches(".cache/x.tsx")).toBe(false)
+        expect(m.matches("node_modules/@acme/ui/src/button.tsx")).toBe(true)
+        expect(m.bases).toEqual(["", "node_modules/@acme/ui"])
+    })
+
+    it("reads literal patterns directly, minus exclusions", () => {
+        const m = createContentMatcher(["./index.tsx", "./legacy.tsx", "!legacy.tsx"])
+        expect(m.files).toEqual(["index.tsx"])
+        expect(m.bases).toEqual([])
+    })
+
+    it("scans opted-in packages from node_modules", async () => {
+        const root = mkdtempSync(join(tmpdir(), "onejs-glob-test-"))
+        try {
+            mkdirSync(join(root, "node_modules/@acme/ui/src"), { recursive: true })
+            mkdirSync(join(root, "node_modules/other"), { recursive: true })
+            writeFileSync(join(root, "index.tsx"), `<View className="p-4" />`)
+            writeFileSync(join(root, "node_modules/@acme/ui/src/button.tsx"), `<View className="m-2" />`)
+            writeFileSync(join(root, "node_modules/other/index.tsx"), `<View className="flex" />`)
+
+            const plain = await scanContent(["./**/*.tsx"], { cwd: root })
+            expect([...plain.classNames]).toContain("p-4")
+            expect(plain.classNames.has("m-2")).toBe(false)
+
+            const opted = await scanContent(["./**/*.tsx"], { cwd: root, packages: ["@acme/ui"] })
+            expect(opted.classNames.has("m-2")).toBe(true)
+            expect(opted.classNames.has("flex")).toBe(false)
+        } finally {
+            rmSync(root, { recursive: true, force: true })
+        }
+    })
+})
+
 // ============================================================================
 // End-to-end: extraction -> USS generation
 // ============================================================================
@@ -0,0 +1,109 @@
+/**
+ * Tailwind utilities with no USS equivalent
+ *
+ * Shared by generateUSS, which warns once per build about the families that
+ * were used, and by the diagnostics mode of tailwindPlugin, which reports
+ * each occurrence with its location.
+ */
+
+/**
+ * Tailwind families USS cannot express, and what to do instead.
+ *
+ * These are not typos, so they never reach the unknown-class path a user would
+ * notice: they are real Tailwind classes that compile to nothing here. Silence
+ * is the worst outcome, because the layout simply comes out wrong with no
+ * indication why, which is exactly how every Wordle tile ended up flush against
+ * its neighbour.
+ *
+ * gap is not polyfillable cleanly. USS supports `> *`, so half-margins on the
+ * children are expressible, but cancelling the outer half needs a negative
+ * margin on the parent, and that silently clobbers any margin the author put on
+ * the same element (`gap-2 mb-3` is a real and common pairing). Saying so beats
+ * guessing.
+ *
+ * `bare` marks the matches that are also everyday words ("grid", "fixed",
+ * "table"): any string literal in the source is a candidate, so the
+ * once-per-build warning skips them unless a variant shows they are classes
+ * (`md:grid`), and only diagnostics mode, which shows where each one was
+ * found, reports them alone.
+ */
+export const UNSUPPORTED_FAMILIES = [
+    {
+        test: (base) => /^gap(-x|-y)?-/.test(base),
+        name: "gap-*",
+        advice: "UI Toolkit has no gap property. Put a margin on the children instead: " +
+            "half the gap on each child gives the same spacing between them.",
+    },
+    {
+        test: (base) => /^-?space-(x|y)-/.test(base),
+        name: "space-x-* / space-y-*",
+        advice: "USS has no sibling combinator to reach every child but the first. " +
+            "Put the margin on the children (ml-4 on each one after the first).",
+    },
+    {
+        test: (base) => /^divide-/.test(base),
+        name: "divide-*",
+        advice: "USS has no sibling combinator. Put border-t or border-l on the children instead.",
+    },
+    {
+        test: (base) => /^(inline-)?grid$|^grid-(cols|rows|flow)-|^(col|row)-(span|start|end|auto)|^auto-(cols|rows)-|^place-(content|items|self)-/.test(base),
+        bare: /^grid$/,
+        name: "grid",
+        advice: "UI Toolkit lays out with flexbox only. Use flex-row flex-wrap with a basis on the " +
+            "children (basis-1/3) for a grid.",
+    },
+    {
+        test: (base) => /^(shadow|drop-shadow|ring|ring-offset)(-|$)/.test(base),
+        name: "shadow-* / ring-*",
+        advice: "USS has no box-shadow. Use a border for rings, and a 9-sliced background image or " +
+            "a translucent element behind for shadows.",
+    },
+    {
+        test: (base) => /^backdrop-|^(blur|brightness|contrast|grayscale|invert|saturate|sepia|hue-rotate)(-|$)/.test(base),
+        bare: /^(blur|grayscale|invert|sepia)$/,
+        name: "blur-* / filters",
+        advice: "USS has no filter or backdrop-filter. Bake the effect into the texture, or use a UI shader.",
+    },
+    {
+        test: (base) => /^-?z-(\d+|auto|\[)/.test(base),
+        name: "z-*",
+        advice: "USS has no z-index: elements draw in hierarchy order. Reorder them instead " +
+            "(later siblings draw on top; BringToFront / PlaceInFront at runtime).",
+    },
+    {
+        test: (base) => /^(fixed|sticky)$/.test(base),
+        bare: /^(fixed|sticky)$/,
+        name: "fixed / sticky",
+        advice: "USS positions are relative or absolute. Use absolute on an element under the root.",
+    },
+    {
+        test: (base) => /^(inline|inline-block|inline-flex|table(-.+)?|inline-table|contents|list-item|flow-root)$/.test(base),
+        bare: /^(inline|table|contents)$/,
+        name: "display (inline, table, contents...)",
+        advice: "USS display is flex or none (flex and hidden).",
+    },
+    {
+        test: (base) => /^(float|clear)-/.test(base),
+        name: "float-* / clear-*",
+        advice: "USS has no floats. Use flex-row with justify-* or absolute positioning.",
+    },
+    {
+        test: (base) => /^(uppercase|lowercase|capitalize|normal-case|underline|overline|line-through|no-underline)$/.test(base),
+        bare: /^(uppercase|lowercase|capitalize|underline|overline)$/,
+        name: "text transform / decoration",
+        advice: "USS has no text-transform or text-decoration. Change the string, or use rich text " +
+            "tags (<u>, <s>) in the label.",
+    },
+    {
+        test: (base) => /^leading-/.test(base),
+        name: "leading-*",
+        advice: "USS has no line-height. -unity-paragraph-spacing covers spacing between paragraphs.",
+    },
+]
+
+/**
+ * The unsupported family a utility belongs to, or null.
+ */
+export function findUnsupportedFamily(base) {
+    return UNSUPPORTED_FAMILIES.find((family) => family.test(base)) ?? null
+}
@@ -0,0 +1,277 @@
+/**
+ * Project configuration for OneJS Tailwind
+ *
+ * Loads a project's tailwind.config.{js,mjs,cjs} (or takes the same object
+ * inline) and merges its `theme` into the defaults from config.mjs, so brand
+ * colors, custom spacing and custom breakpoints generate real utilities
+ * instead of falling through generateUSS as unknown classes.
+ *
+ * Supported theme sections, both as overrides (`theme.colors` replaces the
+ * default palette) and as additions (`theme.extend.colors` merges into it):
+ *
+ *   colors, spacing, fontSize, borderRadius, letterSpacing,
+ *   screens (alias: breakpoints), containers, plus the remaining config.mjs scales
+ *   (borderWidth, opacity, rotate, scale, transitionDuration, zIndex,
+ *   percentages).
+ *
+ * Values are normalized to what USS accepts: nested color objects flatten
+ * to `brand-500` / `brand` (for DEFAULT), rem and em lengths convert to px
+ * (16px base, USS has neither unit), fontSize tuples keep only the size, and
+ * screens become plain pixel widths sorted smallest first.
+ *
+ * Scope variants (`dark:`, and named theme variants such as `kawaii:`) come
+ * from `darkMode` and `themes`. Each maps a variant to the class that turns
+ * it on when present on the root VisualElement.
+ */
+
+import { getFs } from "../fs-provider.mjs"
+import path from "node:path"
+import { pathToFileURL } from "node:url"
+import defaultTheme from "./config.mjs"
+import { createUtilities, allUtilities } from "./utilities.mjs"
+
+/** File names probed, in order, when no explicit config is given. */
+export const CONFIG_FILES = ["tailwind.config.js", "tailwind.config.mjs", "tailwind.config.cjs"]
+
+// ============================================================================
+// Value normalization
+// ============================================================================
+
+const BASE_FONT_SIZE = 16
+
+/**
+ * Convert a theme length to a USS-legal value. Numbers are px; rem and em
+ * are resolved against a 16px base; anything else passes through.
+ */
+function normalizeLength(value) {
+    if (Array.isArray(value)) value = value[0] // fontSize: ["14px", { lineHeight }]
+    if (typeof value === "number") return value === 0 ? "0" : `${value}px`
+    if (typeof value !== "string") return null
+    const match = value.trim().match(/^(-?[\d.]+)(rem|em)$/)
+    if (match) return `${+(parseFloat(match[1]) * BASE_FONT_SIZE).toFixed(3)}px`
+    return value.trim()
+}
+
+/** Pass strings and numbers through as strings, drop everything else. */
+function normalizeScalar(value) {
+    if (typeof value === "number") return String(value)
+    return typeof value === "string" ? value.trim() : null
+}
+
+/**
+ * Flatten Tailwind's nested color objects: `{ brand: { 500: "#f00", DEFAULT: "#e00" } }`
+ * becomes `{ "brand-500": "#f00", "brand": "#e00" }`.
+ */
+function flattenColors(colors, prefix = "", out = {}) {
+    for (const [key, value] of Object.entries(colors)) {
+        const name = key === "DEFAULT" ? prefix : prefix ? `${prefix}-${key}` : key
+        if (value && typeof value === "object") {
+            flattenColors(value, name, out)
+        } else if (typeof value === "string" && name) {
+            out[name] = value.trim()
+        }
+    }
+    return out
+}
+
+/**
+ * A screen is a width (`"640px"`, `640`) or `{ min: "640px" }`. Max-width
+ * and raw media screens have no ancestor-class equivalent and are skipped.
+ */
+function normalizeScreen(value) {
+    if (value && typeof value === "object" && !Array.isArray(value)) value = value.min
+    if (typeof value === "number") return value
+    if (typeof value !== "string") return null
+    const px = value.trim().match(/^([\d.]+)px$/)
+    if (px) return parseFloat(px[1])
+    const rem = value.trim().match(/^([\d.]+)(rem|em)$/)
+    if (rem) return parseFloat(rem[1]) * BASE_FONT_SIZE
+    return null
+}
+
+function normalizeTable(table, normalize) {
+    const result = {}
+    for (const [key, value] of Object.entries(table)) {
+        const normalized = normalize(value)
+        if (normalized !== null && normalized !== undefined) result[key] = normalized
+    }
+    return result
+}
+
+function sortScreens(screens) {
+    return Object.fromEntries(Object.entries(screens).sort((a, b) => a[1] - b[1]))
+}
+
+/**
+ * Theme sections understood by resolveConfig, keyed by the name used in
+ * tailwind.config.js, with the config.mjs table each one feeds.
+ */
+const THEME_SECTIONS = {
+    colors: { table: "colors", normalize: (colors) => flattenColors(colors) },
+    spacing: { table: "spacing", normalize: (t) => normalizeTable(t, normalizeLength) },
+    fontSize: { table: "fontSize", normalize: (t) => normalizeTable(t, normalizeLength) },
+    borderRadius: { table: "borderRadius", normalize: (t) => normalizeTable(t, normalizeLength) },
+    borderWidth: { table: "borderWidth", normalize: (t) => normalizeTable(t, normalizeLength) },
+    letterSpacing: { table: "letterSpacing", normalize: (t) => normalizeTable(t, normalizeLength) },
+    screens: { table: "breakpoints", normalize: (t) => normalizeTable(t, normalizeScreen) },
+    breakpoints: { table: "breakpoints", normalize: (t) => normalizeTable(t, normalizeScreen) },
+    containers: { table: "containers", normalize: (t) => normalizeTable(t, normalizeScreen) },
+    opacity: { table: "opacity", normalize: (t) => normalizeTable(t, normalizeScalar) },
+    rotate: { table: "rotate", normalize: (t) => normalizeTable(t, normalizeScalar) },
+    scale: { table: "scale", normalize: (t) => normalizeTable(t, normalizeScalar) },
+    transitionDuration: { table: "transitionDuration", normalize: (t) => normalizeTable(t, normalizeScalar) },
+    zIndex: { table: "zIndex", normalize: (t) => normalizeTable(t, normalizeScalar) },
+    percentages: { table: "percentages", normalize: (t) => normalizeTable(t, normalizeScalar) },
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * @typedef {Object} ResolvedConfig
+ * @property {Record<string, any>} theme Scale tables shaped like config.mjs's default export
+ * @property {Record<string, Record<string, string>>} utilities Class name to USS declarations
+ * @property {Record<string, string>} scopes Scope variant to the ancestor class enabling it
+ * @property {string} prefix Prefix every utility is written with ("" for none)
+ */
+
+/**
+ * The resolved configuration generateUSS uses when none is passed.
+ * @type {Readonly<ResolvedConfig>}
+ */
+export const defaultConfig = Object.freeze({
+    theme: defaultTheme,
+    utilities: allUtilities,
+    scopes: Object.freeze({ dark: "dark" }),
+    prefix: "",
+})
+
+/**
+ * Map scope variants to the ancestor class that enables them.
+ *
+ * `darkMode` follows Tailwind: "class" (the default) and "media" both use a
+ * `.dark` class, since USS has no prefers-color-scheme; `["class", ".night"]`
+ * (or "selector") picks another class; false removes the variant.
+ *
+ * `themes` adds named variants, as an array of names (`["kawaii"]` makes
+ * `kawaii:` apply under `.kawaii`) or an object of name to class.
+ */
+function resolveScopes(darkMode = "class", themes = []) {
+    const scopes = {}
+    if (darkMode !== false) {
+        const selector = Array.isArray(darkMode) ? darkMode[1] : null
+        scopes.dark = typeof selector === "string" ? selector.trim().replace(/^\./, "") : "dark"
+    }
+    const entries = Array.isArray(themes)
+        ? themes.map((name) => [name, name])
+        : Object.entries(themes || {})
+    for (const [name, className] of entries) {
+        if (typeof className === "string" && className) scopes[name] = className.replace(/^\./, "")
+    }
+    return scopes
+}
+
+/**
+ * Merge a tailwind.config.js-shaped object into the default theme.
+ *
+ * Returns `{ theme, utilities, scopes, prefix }`: the merged scale tables,
+ * the utility lookup table built from them, the scope variants, and the
+ * `prefix` utilities are written with (`tw-` makes `tw-p-4`). Pass the
+ * result to generateUSS as `options.config`.
+ *
+ * Section values may also be functions, called as Tailwind does with a
+ * `theme(section)` accessor that returns the merged table so far, e.g.
+ * `extend: { spacing: ({ theme }) => ({ gutter: theme("spacing")["4"] }) }`.
+ *
+ * @param {Record<string, any>} [userConfig]
+ * @returns {ResolvedConfig}
+ */
+export function resolveConfig(userConfig = {}) {
+    const userTheme = userConfig.theme || {}
+    const theme = { ...defaultTheme }
+    const accessor = { theme: (section) => theme[THEME_SECTIONS[section]?.table ?? section] }
+
+    const read = (value) => (typeof value === "function" ? value(accessor) : value)
+
+    for (const [key, section] of Object.entries(THEME_SECTIONS)) {
+        const override = read(userTheme[key])
+        if (override && typeof override === "object") {
+            theme[section.table] = section.normalize(override)
+        }
+    }
+    for (const [key, section] of Object.entries(THEME_SECTIONS)) {
+        const extension = read(userTheme.extend?.[key])
+        if (extension && typeof extension === "object") {
+            theme[section.table] = { ...theme[section.table], ...section.normalize(extension) }
+        }
+    }
+    theme.breakpoints = sortScreens(theme.breakpoints)
+    theme.containers = sortScreens(theme.containers)
+
+    return {
+        theme,
+        utilities: createUtilities(theme).allUtilities,
+        scopes: resolveScopes(userConfig.darkMode, userConfig.themes),
+        prefix: typeof userConfig.prefix === "string" ? userConfig.prefix.trim() : "",
+    }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Find the project's tailwind config in `cwd`. Returns its absolute path, or
+ * null when the project has none.
+ */
+export function findConfigFile(cwd = process.cwd()) {
+    for (const name of CONFIG_FILES) {
+        const file = path.join(cwd, name)
+        if (getFs().existsSync(file)) return file
+    }
+    return null
+}
+
+/**
+ * Import a config file. The modification time is appended to the URL so a
+ * watch-mode rebuild picks up edits instead of Node's cached module.
+ */
+export async function loadConfigFile(file) {
+    let version = ""
+    try {
+        version = `?v=${getFs().statSync(file).mtimeMs}`
+    } catch {
+        // No stat in this provider: load once, without cache-busting
+    }
+    const mod = await import(pathToFileURL(file).href + version)
+    return mod.default ?? mod
+}
+
+/**
+ * Resolve the configuration for a build.
+ *
+ * `config` may be an inline config object, a path (relative to `cwd`) to a
+ * config file, or undefined to discover one of CONFIG_FILES in `cwd`.
+ * Pass `false` to skip discovery and use the defaults. `overrides` are
+ * top-level keys (e.g. `themes`) layered over whatever config was found, or
+ * a function from the found config to those keys.
+ *
+ * Returns `{ config, file, userConfig }`: the resolved configuration, the
+ * file it came from (null for inline or default), and the raw user object.
+ */
+export async function loadConfig(config, cwd = process.cwd(), overrides = {}) {
+    let file = null
+    let userConfig = {}
+    if (config && typeof config === "object") {
+        userConfig = config
+    } else if (config !== false) {
+        file = typeof config === "string" ? path.resolve(cwd, config) : findConfigFile(cwd)
+        if (file) userConfig = await loadConfigFile(file)
+    }
+
+    const extra = typeof overrides === "function" ? overrides(userConfig) : overrides
+    const merged = { ...userConfig, ...extra }
+    const resolved = Object.keys(merged).length > 0 ? resolveConfig(merged) : defaultConfig
+    return { config: resolved, file, userConfig }
+}
@@ -3,23 +3,13 @@
  *
  * Each utility is a function that takes a value and returns USS declarations.
  * Static utilities are pre-computed, dynamic utilities use patterns.
+ *
+ * Dynamic utilities are built from a theme (the scales in config.mjs, or a
+ * project theme resolved by user-config.mjs) through createUtilities(). The
+ * named exports below are the default-theme tables.
  */
 
-import {
-    spacing,
-    percentages,
-    colors,
-    fontSize,
-    fontWeight,
-    borderRadius,
-    borderWidth,
-    opacity,
-    zIndex,
-    transitionDuration,
-    rotate,
-    scale,
-    letterSpacing,
-} from "./config.mjs"
+import defaultTheme from "./config.mjs"
 
 // ============================================================================
 // Helper functions
@@ -28,7 +18,7 @@ import {
 /**
  * Generate spacing utilities for a property
  */
-function spacingUtilities(prefix, properties) {
+function spacingUtilities(spacing, prefix, properties) {
     const result = {}
     for (const [key, value] of Object.entries(spacing)) {
         const className = key === "0" ? `${prefix}-0` : `${prefix}-${key}`
@@ -42,7 +32,7 @@ function spacingUtilities(prefix, properties) {
 /**
  * Generate negative spacing utilities
  */
-function negativeSpacingUtilities(prefix, properties) {
+function negativeSpacingUtilities(spacing, prefix, properties) {
     const result = {}
     for (const [key, value] of Object.entries(spacing)) {
         if (key === "0" || key === "px") continue
@@ -57,7 +47,7 @@ function negativeSpacingUtilities(prefix, properties) {
 /**
  * Generate color utilities for a property
  */
-function colorUtilities(prefix, property) {
+function colorUtilities(colors, opacity, prefix, property) {
     const result = {}
     for (const [colorKey, colorValue] of Object.entries(colors)) {
         result[`${prefix}-${colorKey}`] = { [property]: colorValue }
@@ -215,6 +205,12 @@ export const staticUtilities = {
     "bg-transparent": { "background-color": "transparent" },
     // NOTE: USS does not support currentColor, use explicit colors instead
 
+    // Gradients: the texture is set at runtime from the from-/via-/to- stops
+    // (see gradients.mjs); the direction class only stretches it
+    ...Object.fromEntries(["t", "tr", "r", "br", "b", "bl", "l", "tl"].map((direction) => [
+        `bg-gradient-to-${direction}`, { "-unity-background-scale-mode": "stretch-to-fill" },
+    ])),
+
     // Text colors
     "text-transparent": { "color": "transparent" },
     // NOTE: USS does not support currentColor, use explicit colors instead
@@ -225,483 +221,587 @@ export const staticUtilities = {
 }
 
 // ============================================================================
-// Dynamic utilities (generated from config values)
+// Theme-driven utilities
 // ============================================================================
 
-// Padding utilities
-export const paddingUtilities = {
-    ...spacingUtilities("p", ["padding-top", "padding-right", "padding-bottom", "padding-left"]),
-    ...spacingUtilities("px", ["padding-left", "padding-right"]),
-    ...spacingUtilities("py", ["padding-top", "padding-bottom"]),
-    ...spacingUtilities("pt", ["padding-top"]),
-    ...spacingUtilities("pr", ["padding-right"]),
-    ...spacingUtilities("pb", ["padding-bottom"]),
-    ...spacingUtilities("pl", ["padding-left"]),
-}
+/**
+ * Build every theme-dependent utility family from a theme object shaped like
+ * config.mjs's default export. Returns the families by name plus the combined
+ * `allUtilities` lookup table that generateUSS resolves class names against.
+ */
+export function createUtilities(theme = defaultTheme) {
+    const {
+        spacing,
+        percentages,
+        colors,
+        fontSize,
+        borderRadius,
+        borderWidth,
+        opacity,
+        zIndex,
+        transitionDuration,
+        rotate,
+        scale,
+        letterSpacing,
+        animation = {},
+    } = theme
+
+    // ============================================================================
+    // Dynamic utilities (generated from config values)
+    // ============================================================================
+
+    // Padding utilities
+    const paddingUtilities = {
+        ...spacingUtilities(spacing, "p", ["padding-top", "padding-right", "padding-bottom", "padding-left"]),
+        ...spacingUtilities(spacing, "px", ["padding-left", "padding-right"]),
+        ...spacingUtilities(spacing, "py", ["padding-top", "padding-bottom"]),
+        ...spacingUtilities(spacing, "pt", ["padding-top"]),
+        ...spacingUtilities(spacing, "pr", ["padding-right"]),
+        ...spacingUtilities(spacing, "pb", ["padding-bottom"]),
+        ...spacingUtilities(spacing, "pl", ["padding-left"]),
+    }
 
-// Margin utilities
-export const marginUtilities = {
-    ...spacingUtilities("m", ["margin-top", "margin-right", "margin-bottom", "margin-left"]),
-    ...spacingUtilities("mx", ["margin-left", "margin-right"]),
-    ...spacingUtilities("my", ["margin-top", "margin-bottom"]),
-    ...spacingUtilities("mt", ["margin-top"]),
-    ...spacingUtilities("mr", ["margin-right"]),
-    ...spacingUtilities("mb", ["margin-bottom"]),
-    ...spacingUtilities("ml", ["margin-left"]),
-    // Negative margins
-    ...negativeSpacingUtilities("m", ["margin-top", "margin-right", "margin-bottom", "margin-left"]),
-    ...negativeSpacingUtilities("mx", ["margin-left", "margin-right"]),
-    ...negativeSpacingUtilities("my", ["margin-top", "margin-bottom"]),
-    ...negativeSpacingUtilities("mt", ["margin-top"]),
-    ...negativeSpacingUtilities("mr", ["margin-right"]),
-    ...negativeSpacingUtilities("mb", ["margin-bottom"]),
-    ...negativeSpacingUtilities("ml", ["margin-left"]),
-    // Auto margins
-    "m-auto": { "margin-top": "auto", "margin-right": "auto", "margin-bottom": "auto", "margin-left": "auto" },
-    "mx-auto": { "margin-left": "auto", "margin-right": "auto" },
-    "my-auto": { "margin-top": "auto", "margin-bottom": "auto" },
-    "mt-auto": { "margin-top": "auto" },
-    "mr-auto": { "margin-right": "auto" },
-    "mb-auto": { "margin-bottom": "auto" },
-    "ml-auto": { "margin-left": "auto" },
-}
+    // Margin utilities
+    const marginUtilities = {
+        ...spacingUtilities(spacing, "m", ["margin-top", "margin-right", "margin-bottom", "margin-left"]),
+        ...spacingUtilities(spacing, "mx", ["margin-left", "margin-right"]),
+        ...spacingUtilities(spacing, "my", ["margin-top", "margin-bottom"]),
+        ...spacingUtilities(spacing, "mt", ["margin-top"]),
+        ...spacingUtilities(spacing, "mr", ["margin-right"]),
+        ...spacingUtilities(spacing, "mb", ["margin-bottom"]),
+        ...spacingUtilities(spacing, "ml", ["margin-left"]),
+        // Negative margins
+        ...negativeSpacingUtilities(spacing, "m", ["margin-top", "margin-right", "margin-bottom", "margin-left"]),
+        ...negativeSpacingUtilities(spacing, "mx", ["margin-left", "margin-right"]),
+        ...negativeSpacingUtilities(spacing, "my", ["margin-top", "margin-bottom"]),
+        ...negativeSpacingUtilities(spacing, "mt", ["margin-top"]),
+        ...negativeSpacingUtilities(spacing, "mr", ["margin-right"]),
+        ...negativeSpacingUtilities(spacing, "mb", ["margin-bottom"]),
+        ...negativeSpacingUtilities(spacing, "ml", ["margin-left"]),
+        // Auto margins
+        "m-auto": { "margin-top": "auto", "margin-right": "auto", "margin-bottom": "auto", "margin-left": "auto" },
+        "mx-auto": { "margin-left": "auto", "margin-right": "auto" },
+        "my-auto": { "margin-top": "auto", "margin-bottom": "auto" },
+        "mt-auto": { "margin-top": "auto" },
+        "mr-auto": { "margin-right": "auto" },
+        "mb-auto": { "margin-bottom": "auto" },
+        "ml-auto": { "margin-left": "auto" },
+    }
 
-// Gap utilities: NOTE: USS does NOT support the gap property!
-// These are kept for API compatibility but will have no effect.
-// Use margin/padding on child elements instead.
-export const gapUtilities = {
-    // Intentionally empty: gap is not supported in USS
-    // Users should use margins on children as a workaround
-}
+    // Gap utilities: NOTE: USS does NOT support the gap property!
+    // These are kept for API compatibility but will have no effect.
+    // Use margin/padding on child elements instead.
+    const gapUtilities = {
+        // Intentionally empty: gap is not supported in USS
+        // Users should use margins on children as a workaround
+    }
 
-// Width utilities
-export const widthUtilities = {
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`w-${key}`, { "width": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`w-${key}`, { "width": value }])
-    ),
-}
+    // Width utilities
+    const widthUtilities = {
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`w-${key}`, { "width": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`w-${key}`, { "width": value }])
+        ),
+    }
 
-// Height utilities
-export const heightUtilities = {
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`h-${key}`, { "height": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`h-${key}`, { "height": value }])
-    ),
-}
+    // Height utilities
+    const heightUtilities = {
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`h-${key}`, { "height": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`h-${key}`, { "height": value }])
+        ),
+    }
 
-// Min/Max width utilities
-export const minMaxWidthUtilities = {
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`min-w-${key}`, { "min-width": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`min-w-${key}`, { "min-width": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`max-w-${key}`, { "max-width": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`max-w-${key}`, { "max-width": value }])
-    ),
-}
+    // Min/Max width utilities
+    const minMaxWidthUtilities = {
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`min-w-${key}`, { "min-width": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`min-w-${key}`, { "min-width": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`max-w-${key}`, { "max-width": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`max-w-${key}`, { "max-width": value }])
+        ),
+    }
 
-// Min/Max height utilities
-export const minMaxHeightUtilities = {
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`min-h-${key}`, { "min-height": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`min-h-${key}`, { "min-height": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`max-h-${key}`, { "max-height": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`max-h-${key}`, { "max-height": value }])
-    ),
-}
+    // Min/Max height utilities
+    const minMaxHeightUtilities = {
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`min-h-${key}`, { "min-height": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`min-h-${key}`, { "min-height": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`max-h-${key}`, { "max-height": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`max-h-${key}`, { "max-height": value }])
+        ),
+    }
 
-// Background color utilities
-export const backgroundColorUtilities = colorUtilities("bg", "background-color")
-
-// Text color utilities
-export const textColorUtilities = colorUtilities("text", "color")
-
-// Border color utilities
-export const borderColorUtilities = colorUtilities("border", "border-color")
-
-// Font size utilities
-export const fontSizeUtilities = Object.fromEntries(
-    Object.entries(fontSize).map(([key, value]) => [`text-${key}`, { "font-size": value }])
-)
-
-// Font weight utilities
-// NOTE: USS only supports -unity-font-style with values: normal, bold, italic, bold-and-italic
-// Standard CSS font-weight (100-900) is NOT supported in USS
-// We map font-bold to -unity-font-style: bold, others to normal
-export const fontWeightUtilities = {
-    // Only bold has a meaningful mapping in USS
-    "font-thin": { "-unity-font-style": "normal" },
-    "font-extralight": { "-unity-font-style": "normal" },
-    "font-light": { "-unity-font-style": "normal" },
-    "font-normal": { "-unity-font-style": "normal" },
-    "font-medium": { "-unity-font-style": "normal" },
-    "font-semibold": { "-unity-font-style": "bold" },
-    "font-bold": { "-unity-font-style": "bold" },
-    "font-extrabold": { "-unity-font-style": "bold" },
-    "font-black": { "-unity-font-style": "bold" },
-}
+    // Background color utilities
+    const backgroundColorUtilities = colorUtilities(colors, opacity, "bg", "background-color")
+
+    // Text color utilities
+    const textColorUtilities = colorUtilities(colors, opacity, "text", "color")
+
+    // Border color utilities
+    const borderColorUtilities = colorUtilities(colors, opacity, "border", "border-color")
+
+    // Font size utilities
+    const fontSizeUtilities = Object.fromEntries(
+        Object.entries(fontSize).map(([key, value]) => [`text-${key}`, { "font-size": value }])
+    )
+
+    // Font weight utilities
+    // NOTE: USS only supports -unity-font-style with values: normal, bold, italic, bold-and-italic
+    // Standard CSS font-weight (100-900) is NOT supported in USS
+    // We map font-bold to -unity-font-style: bold, others to normal
+    const fontWeightUtilities = {
+        // Only bold has a meaningful mapping in USS
+        "font-thin": { "-unity-font-style": "normal" },
+        "font-extralight": { "-unity-font-style": "normal" },
+        "font-light": { "-unity-font-style": "normal" },
+        "font-normal": { "-unity-font-style": "normal" },
+        "font-medium": { "-unity-font-style": "normal" },
+        "font-semibold": { "-unity-font-style": "bold" },
+        "font-bold": { "-unity-font-style": "bold" },
+        "font-extrabold": { "-unity-font-style": "bold" },
+        "font-black": { "-unity-font-style": "bold" },
+    }
 
-// Border radius utilities
-export const borderRadiusUtilities = {
-    ...Object.fromEntries(
-        Object.entries(borderRadius).map(([key, value]) => {
-            const className = key === "" ? "rounded" : `rounded-${key}`
-            return [className, { "border-radius": value }]
-        })
-    ),
-    // Individual corners
-    ...Object.fromEntries(
-        Object.entries(borderRadius).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`rounded-t${suffix}`, { "border-top-left-radius": value, "border-top-right-radius": value }]
-        })
-    ),
-    ...Object.fromEntries(
-        Object.entries(borderRadius).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`rounded-r${suffix}`, { "border-top-right-radius": value, "border-bottom-right-radius": value }]
-        })
-    ),
-    ...Object.fromEntries(
-        Object.entries(borderRadius).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`rounded-b${suffix}`, { "border-bottom-left-radius": value, "border-bottom-right-radius": value }]
-        })
-    ),
-    ...Object.fromEntries(
-        Object.entries(borderRadius).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`rounded-l${suffix}`, { "border-top-left-radius": value, "border-bottom-left-radius": value }]
-        })
-    ),
-}
+    // Border radius utilities
+    const borderRadiusUtilities = {
+        ...Object.fromEntries(
+            Object.entries(borderRadius).map(([key, value]) => {
+                const className = key === "" ? "rounded" : `rounded-${key}`
+                return [className, { "border-radius": value }]
+            })
+        ),
+        // Individual corners
+        ...Object.fromEntries(
+            Object.entries(borderRadius).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`rounded-t${suffix}`, { "border-top-left-radius": value, "border-top-right-radius": value }]
+            })
+        ),
+        ...Object.fromEntries(
+            Object.entries(borderRadius).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`rounded-r${suffix}`, { "border-top-right-radius": value, "border-bottom-right-radius": value }]
+            })
+        ),
+        ...Object.fromEntries(
+            Object.entries(borderRadius).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`rounded-b${suffix}`, { "border-bottom-left-radius": value, "border-bottom-right-radius": value }]
+            })
+        ),
+        ...Object.fromEntries(
+            Object.entries(borderRadius).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`rounded-l${suffix}`, { "border-top-left-radius": value, "border-bottom-left-radius": value }]
+            })
+        ),
+    }
 
-// Border width utilities
-export const borderWidthUtilities = {
-    ...Object.fromEntries(
-        Object.entries(borderWidth).map(([key, value]) => {
-            const className = key === "" ? "border" : `border-${key}`
-            return [className, { "border-width": value }]
-        })
-    ),
-    // Individual sides
-    ...Object.fromEntries(
-        Object.entries(borderWidth).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`border-t${suffix}`, { "border-top-width": value }]
-        })
-    ),
-    ...Object.fromEntries(
-        Object.entries(borderWidth).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`border-r${suffix}`, { "border-right-width": value }]
-        })
-    ),
-    ...Object.fromEntries(
-        Object.entries(borderWidth).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`border-b${suffix}`, { "border-bottom-width": value }]
-        })
-    ),
-    ...Object.fromEntries(
-        Object.entries(borderWidth).map(([key, value]) => {
-            const suffix = key === "" ? "" : `-${key}`
-            return [`border-l${suffix}`, { "border-left-width": value }]
-        })
-    ),
-}
+    // Border width utilities
+    const borderWidthUtilities = {
+        ...Object.fromEntries(
+            Object.entries(borderWidth).map(([key, value]) => {
+                const className = key === "" ? "border" : `border-${key}`
+                return [className, { "border-width": value }]
+            })
+        ),
+        // Individual sides
+        ...Object.fromEntries(
+            Object.entries(borderWidth).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`border-t${suffix}`, { "border-top-width": value }]
+            })
+        ),
+        ...Object.fromEntries(
+            Object.entries(borderWidth).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`border-r${suffix}`, { "border-right-width": value }]
+            })
+        ),
+        ...Object.fromEntries(
+            Object.entries(borderWidth).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`border-b${suffix}`, { "border-bottom-width": value }]
+            })
+        ),
+        ...Object.fromEntries(
+            Object.entries(borderWidth).map(([key, value]) => {
+                const suffix = key === "" ? "" : `-${key}`
+                return [`border-l${suffix}`, { "border-left-width": value }]
+            })
+        ),
+    }
 
-// Opacity utilities
-export const opacityUtilities = Object.fromEntries(
-    Object.entries(opacity).map(([key, value]) => [`opacity-${key}`, { "opacity": value }])
-)
-
-// Z-index utilities
-// NOTE: USS does NOT support z-index property, element order is determined by hierarchy position
-// These utilities are intentionally omitted from allUtilities
-export const zIndexUtilities = Object.fromEntries(
-    Object.entries(zIndex).map(([key, value]) => [`z-${key}`, { "z-index": value }])
-)
-
-// Position utilities (top, right, bottom, left with spacing and percentage values)
-export const positionUtilities = {
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`top-${key}`, { "top": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`top-${key}`, { "top": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`right-${key}`, { "right": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`right-${key}`, { "right": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`bottom-${key}`, { "bottom": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`bottom-${key}`, { "bottom": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`left-${key}`, { "left": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`left-${key}`, { "left": value }])
-    ),
-    // Negative positions
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-top-${key}`, { "top": `-${value}` }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-right-${key}`, { "right": `-${value}` }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-bottom-${key}`, { "bottom": `-${value}` }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-left-${key}`, { "left": `-${value}` }])
-    ),
-}
+    // Opacity utilities
+    const opacityUtilities = Object.fromEntries(
+        Object.entries(opacity).map(([key, value]) => [`opacity-${key}`, { "opacity": value }])
+    )
+
+    // Z-index utilities
+    // NOTE: USS does NOT support z-index property, element order is determined by hierarchy position
+    // These utilities are intentionally omitted from allUtilities
+    const zIndexUtilities = Object.fromEntries(
+        Object.entries(zIndex).map(([key, value]) => [`z-${key}`, { "z-index": value }])
+    )
+
+    // Position utilities (top, right, bottom, left with spacing and percentage values)
+    const positionUtilities = {
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`top-${key}`, { "top": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`top-${key}`, { "top": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`right-${key}`, { "right": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`right-${key}`, { "right": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`bottom-${key}`, { "bottom": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`bottom-${key}`, { "bottom": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`left-${key}`, { "left": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`left-${key}`, { "left": value }])
+        ),
+        // Negative positions
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-top-${key}`, { "top": `-${value}` }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-right-${key}`, { "right": `-${value}` }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-bottom-${key}`, { "bottom": `-${value}` }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-left-${key}`, { "left": `-${value}` }])
+        ),
+    }
 
-// Flex basis utilities
-export const flexBasisUtilities = {
-    "basis-auto": { "flex-basis": "auto" },
-    "basis-0": { "flex-basis": "0" },
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [`basis-${key}`, { "flex-basis": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`basis-${key}`, { "flex-basis": value }])
-    ),
-}
+    // Flex basis utilities
+    const flexBasisUtilities = {
+        "basis-auto": { "flex-basis": "auto" },
+        "basis-0": { "flex-basis": "0" },
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [`basis-${key}`, { "flex-basis": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`basis-${key}`, { "flex-basis": value }])
+        ),
+    }
 
-// Inset utilities (all sides, x-axis, y-axis)
-export const insetUtilities = {
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [
-            `inset-${key}`, { "top": value, "right": value, "bottom": value, "left": value }
-        ])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [
-            `inset-${key}`, { "top": value, "right": value, "bottom": value, "left": value }
-        ])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [
-            `inset-x-${key}`, { "left": value, "right": value }
-        ])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [
-            `inset-x-${key}`, { "left": value, "right": value }
-        ])
-    ),
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [
-            `inset-y-${key}`, { "top": value, "bottom": value }
-        ])
-    ),
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [
-            `inset-y-${key}`, { "top": value, "bottom": value }
-        ])
-    ),
-}
+    // Inset utilities (all sides, x-axis, y-axis)
+    const insetUtilities = {
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [
+                `inset-${key}`, { "top": value, "right": value, "bottom": value, "left": value }
+            ])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [
+                `inset-${key}`, { "top": value, "right": value, "bottom": value, "left": value }
+            ])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [
+                `inset-x-${key}`, { "left": value, "right": value }
+            ])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [
+                `inset-x-${key}`, { "left": value, "right": value }
+            ])
+        ),
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0").map(([key, value]) => [
+                `inset-y-${key}`, { "top": value, "bottom": value }
+            ])
+        ),
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [
+                `inset-y-${key}`, { "top": value, "bottom": value }
+            ])
+        ),
+    }
 
-// Border side color utilities
-export const borderSideColorUtilities = {
-    ...Object.fromEntries(
-        Object.entries(colors).map(([key, value]) => [`border-t-${key}`, { "border-top-color": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(colors).map(([key, value]) => [`border-r-${key}`, { "border-right-color": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(colors).map(([key, value]) => [`border-b-${key}`, { "border-bottom-color": value }])
-    ),
-    ...Object.fromEntries(
-        Object.entries(colors).map(([key, value]) => [`border-l-${key}`, { "border-left-color": value }])
-    ),
-}
+    // Border side color utilities
+    const borderSideColorUtilities = {
+        ...Object.fromEntries(
+            Object.entries(colors).map(([key, value]) => [`border-t-${key}`, { "border-top-color": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(colors).map(([key, value]) => [`border-r-${key}`, { "border-right-color": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(colors).map(([key, value]) => [`border-b-${key}`, { "border-bottom-color": value }])
+        ),
+        ...Object.fromEntries(
+            Object.entries(colors).map(([key, value]) => [`border-l-${key}`, { "border-left-color": value }])
+        ),
+    }
 
-// Transform utilities
-export const transformUtilities = {
-    // Rotate
-    ...Object.fromEntries(
-        Object.entries(rotate).map(([key, value]) => [`rotate-${key}`, { "rotate": value }])
-    ),
-    // Negative rotate
-    ...Object.fromEntries(
-        Object.entries(rotate).filter(([k]) => k !== "0").map(([key, value]) => [`-rotate-${key}`, { "rotate": `-${value.replace("deg", "")}deg` }])
-    ),
-    // Scale (uniform)
-    ...Object.fromEntries(
-        Object.entries(scale).map(([key, value]) => [`scale-${key}`, { "--tw-scale-x": value, "--tw-scale-y": value, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
-    ),
-    // Scale X
-    ...Object.fromEntries(
-        Object.entries(scale).map(([key, value]) => [`scale-x-${key}`, { "--tw-scale-x": value, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
-    ),
-    // Scale Y
-    ...Object.fromEntries(
-        Object.entries(scale).map(([key, value]) => [`scale-y-${key}`, { "--tw-scale-y": value, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
-    ),
-    // Negative scale (uniform)
-    ...Object.fromEntries(
-        Object.entries(scale).filter(([k]) => k !== "0").map(([key, value]) => [`-scale-${key}`, { "--tw-scale-x": `-${value}`, "--tw-scale-y": `-${value}`, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
-    ),
-    // Negative scale X
-    ...Object.fromEntries(
-        Object.entries(scale).filter(([k]) => k !== "0").map(([key, value]) => [`-scale-x-${key}`, { "--tw-scale-x": `-${value}`, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
-    ),
-    // Negative scale Y
-    ...Object.fromEntries(
-        Object.entries(scale).filter(([k]) => k !== "0").map(([key, value]) => [`-scale-y-${key}`, { "--tw-scale-y": `-${value}`, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
-    ),
-    // Translate (uniform, using spacing values)
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`translate-${key}`, { "--tw-translate-x": value, "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Translate X (using spacing values)
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`translate-x-${key}`, { "--tw-translate-x": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Translate Y (using spacing values)
-    ...Object.fromEntries(
-        Object.entries(spacing).map(([key, value]) => [`translate-y-${key}`, { "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Translate (uniform, using percentage values)
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`translate-${key}`, { "--tw-translate-x": value, "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Translate X (using percentage values)
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`translate-x-${key}`, { "--tw-translate-x": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Translate Y (using percentage values)
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`translate-y-${key}`, { "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Negative translate (uniform, using spacing values)
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-translate-${key}`, { "--tw-translate-x": `-${value}`, "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Negative translate X (using spacing values)
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-translate-x-${key}`, { "--tw-translate-x": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Negative translate Y (using spacing values)
-    ...Object.fromEntries(
-        Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-translate-y-${key}`, { "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Negative translate (uniform, using percentage values)
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`-translate-${key}`, { "--tw-translate-x": `-${value}`, "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Negative translate X (using percentage values)
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`-translate-x-${key}`, { "--tw-translate-x": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Negative translate Y (using percentage values)
-    ...Object.fromEntries(
-        Object.entries(percentages).map(([key, value]) => [`-translate-y-${key}`, { "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
-    ),
-    // Transform origin
-    "origin-center": { "transform-origin": "center" },
-    "origin-top": { "transform-origin": "top" },
-    "origin-top-right": { "transform-origin": "top right" },
-    "origin-right": { "transform-origin": "right" },
-    "origin-bottom-right": { "transform-origin": "bottom right" },
-    "origin-bottom": { "transform-origin": "bottom" },
-    "origin-bottom-left": { "transform-origin": "bottom left" },
-    "origin-left": { "transform-origin": "left" },
-    "origin-top-left": { "transform-origin": "top left" },
-}
+    // Transform utilities
+    const transformUtilities = {
+        // Rotate
+        ...Object.fromEntries(
+            Object.entries(rotate).map(([key, value]) => [`rotate-${key}`, { "rotate": value }])
+        ),
+        // Negative rotate
+        ...Object.fromEntries(
+            Object.entries(rotate).filter(([k]) => k !== "0").map(([key, value]) => [`-rotate-${key}`, { "rotate": `-${value.replace("deg", "")}deg` }])
+        ),
+        // Scale (uniform)
+        ...Object.fromEntries(
+            Object.entries(scale).map(([key, value]) => [`scale-${key}`, { "--tw-scale-x": value, "--tw-scale-y": value, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
+        ),
+        // Scale X
+        ...Object.fromEntries(
+            Object.entries(scale).map(([key, value]) => [`scale-x-${key}`, { "--tw-scale-x": value, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
+        ),
+        // Scale Y
+        ...Object.fromEntries(
+            Object.entries(scale).map(([key, value]) => [`scale-y-${key}`, { "--tw-scale-y": value, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
+        ),
+        // Negative scale (uniform)
+        ...Object.fromEntries(
+            Object.entries(scale).filter(([k]) => k !== "0").map(([key, value]) => [`-scale-${key}`, { "--tw-scale-x": `-${value}`, "--tw-scale-y": `-${value}`, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
+        ),
+        // Negative scale X
+        ...Object.fromEntries(
+            Object.entries(scale).filter(([k]) => k !== "0").map(([key, value]) => [`-scale-x-${key}`, { "--tw-scale-x": `-${value}`, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
+        ),
+        // Negative scale Y
+        ...Object.fromEntries(
+            Object.entries(scale).filter(([k]) => k !== "0").map(([key, value]) => [`-scale-y-${key}`, { "--tw-scale-y": `-${value}`, "scale": "var(--tw-scale-x) var(--tw-scale-y)" }])
+        ),
+        // Translate (uniform, using spacing values)
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`translate-${key}`, { "--tw-translate-x": value, "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Translate X (using spacing values)
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`translate-x-${key}`, { "--tw-translate-x": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Translate Y (using spacing values)
+        ...Object.fromEntries(
+            Object.entries(spacing).map(([key, value]) => [`translate-y-${key}`, { "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Translate (uniform, using percentage values)
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`translate-${key}`, { "--tw-translate-x": value, "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Translate X (using percentage values)
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`translate-x-${key}`, { "--tw-translate-x": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Translate Y (using percentage values)
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`translate-y-${key}`, { "--tw-translate-y": value, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Negative translate (uniform, using spacing values)
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-translate-${key}`, { "--tw-translate-x": `-${value}`, "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Negative translate X (using spacing values)
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-translate-x-${key}`, { "--tw-translate-x": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Negative translate Y (using spacing values)
+        ...Object.fromEntries(
+            Object.entries(spacing).filter(([k]) => k !== "0" && k !== "px").map(([key, value]) => [`-translate-y-${key}`, { "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Negative translate (uniform, using percentage values)
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`-translate-${key}`, { "--tw-translate-x": `-${value}`, "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Negative translate X (using percentage values)
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`-translate-x-${key}`, { "--tw-translate-x": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Negative translate Y (using percentage values)
+        ...Object.fromEntries(
+            Object.entries(percentages).map(([key, value]) => [`-translate-y-${key}`, { "--tw-translate-y": `-${value}`, "translate": "var(--tw-translate-x) var(--tw-translate-y)" }])
+        ),
+        // Transform origin
+        "origin-center": { "transform-origin": "center" },
+        "origin-top": { "transform-origin": "top" },
+        "origin-top-right": { "transform-origin": "top right" },
+        "origin-right": { "transform-origin": "right" },
+        "origin-bottom-right": { "transform-origin": "bottom right" },
+        "origin-bottom": { "transform-origin": "bottom" },
+        "origin-bottom-left": { "transform-origin": "bottom left" },
+        "origin-left": { "transform-origin": "left" },
+        "origin-top-left": { "transform-origin": "top left" },
+    }
 
-// Transition utilities
-export const transitionUtilities = {
-    // Base transitions
-    "transition": { "transition-property": "all", "transition-duration": "150ms", "transition-timing-function": "ease" },
-    "transition-none": { "transition-property": "none" },
-    "transition-all": { "transition-property": "all", "transition-duration": "150ms", "transition-timing-function": "ease" },
-    "transition-colors": { "transition-property": "background-color, border-color, color", "transition-duration": "150ms", "transition-timing-function": "ease" },
-    "transition-opacity": { "transition-property": "opacity", "transition-duration": "150ms", "transition-timing-function": "ease" },
-    "transition-transform": { "transition-property": "rotate, scale, translate", "transition-duration": "150ms", "transition-timing-function": "ease" },
-    // Duration
-    ...Object.fromEntries(
-        Object.entries(transitionDuration).map(([key, value]) => [`duration-${key}`, { "transition-duration": value }])
-    ),
-    // Timing functions
-    "ease-linear": { "transition-timing-function": "linear" },
-    "ease-in": { "transition-timing-function": "ease-in" },
-    "ease-out": { "transition-timing-function": "ease-out" },
-    "ease-in-out": { "transition-timing-function": "ease-in-out" },
-    // Delay
-    ...Object.fromEntries(
-        Object.entries(transitionDuration).map(([key, value]) => [`delay-${key}`, { "transition-delay": value }])
-    ),
-}
+    // Transition utilities
+    const transitionUtilities = {
+        // Base transitions
+        "transition": { "transition-property": "all", "transition-duration": "150ms", "transition-timing-function": "ease" },
+        "transition-none": { "transition-property": "none" },
+        "transition-all": { "transition-property": "all", "transition-duration": "150ms", "transition-timing-function": "ease" },
+        "transition-colors": { "transition-property": "background-color, border-color, color", "transition-duration": "150ms", "transition-timing-function": "ease" },
+        "transition-opacity": { "transition-property": "opacity", "transition-duration": "150ms", "transition-timing-function": "ease" },
+        "transition-transform": { "transition-property": "rotate, scale, translate", "transition-duration": "150ms", "transition-timing-function": "ease" },
+        // Duration
+        ...Object.fromEntries(
+            Object.entries(transitionDuration).map(([key, value]) => [`duration-${key}`, { "transition-duration": value }])
+        ),
+        // Timing functions
+        "ease-linear": { "transition-timing-function": "linear" },
+        "ease-in": { "transition-timing-function": "ease-in" },
+        "ease-out": { "transition-timing-function": "ease-out" },
+        "ease-in-out": { "transition-timing-function": "ease-in-out" },
+        // Delay
+        ...Object.fromEntries(
+            Object.entries(transitionDuration).map(([key, value]) => [`delay-${key}`, { "transition-delay": value }])
+        ),
+    }
 
-// Aspect ratio utilities (USS expects a decimal value, not a fraction)
-export const aspectRatioUtilities = {
-    "aspect-auto": { "aspect-ratio": "auto" },
-    "aspect-square": { "aspect-ratio": "1" },
-    "aspect-video": { "aspect-ratio": `${16 / 9}` },
-}
+    // Animation utilities: `animate-<name>` marks the element for the runtime,
+    // which cycles the phase classes (see `animation` in config.mjs)
+    const animationUtilities = {}
+    for (const [name, phases] of Object.entries(animation)) {
+        const properties = [...new Set(phases.flatMap((phase) => Object.keys(phase.styles)))]
+        animationUtilities[`animate-${name}`] = { "transition-property": properties.join(", ") }
+        phases.forEach((phase, i) => {
+            animationUtilities[`animate-${name}-phase-${i}`] = {
+                ...phase.styles,
+                "transition-property": properties.join(", "),
+                "transition-duration": `${phase.duration}ms`,
+                "transition-timing-function": phase.timing ?? "ease",
+            }
+        })
+    }
 
-// Letter spacing (tracking)
-export const letterSpacingUtilities = Object.fromEntries(
-    Object.entries(letterSpacing).map(([key, value]) => [`tracking-${key}`, { "letter-spacing": value }])
-)
+    // Aspect ratio utilities (USS expects a decimal value, not a fraction)
+    const aspectRatioUtilities = {
+        "aspect-auto": { "aspect-ratio": "auto" },
+        "aspect-square": { "aspect-ratio": "1" },
+        "aspect-video": { "aspect-ratio": `${16 / 9}` },
+    }
 
-// ============================================================================
-// Combine all utilities
-// ============================================================================
+    // Letter spacing (tracking)
+    const letterSpacingUtilities = Object.fromEntries(
+        Object.entries(letterSpacing).map(([key, value]) => [`tracking-${key}`, { "letter-spacing": value }])
+    )
+
+    // ============================================================================
+    // Combine all utilities
+    // ============================================================================
+
+    const allUtilities = {
+        ...staticUtilities,
+        ...paddingUtilities,
+        ...marginUtilities,
+        ...gapUtilities,
+        ...widthUtilities,
+        ...heightUtilities,
+        ...minMaxWidthUtilities,
+        ...minMaxHeightUtilities,
+        ...backgroundColorUtilities,
+        ...textColorUtilities,
+        ...borderColorUtilities,
+        ...fontSizeUtilities,
+        ...fontWeightUtilities,
+        ...borderRadiusUtilities,
+        ...borderWidthUtilities,
+        ...opacityUtilities,
+        // NOTE: zIndexUtilities intentionally omitted. USS doesn't support z-index
+        ...positionUtilities,
+        ...flexBasisUtilities,
+        ...insetUtilities,
+        ...borderSideColorUtilities,
+        ...transformUtilities,
+        ...transitionUtilities,
+        ...animationUtilities,
+        ...aspectRatioUtilities,
+        ...letterSpacingUtilities,
+    }
 
-export const allUtilities = {
-    ...staticUtilities,
-    ...paddingUtilities,
-    ...marginUtilities,
-    ...gapUtilities,
-    ...widthUtilities,
-    ...heightUtilities,
-    ...minMaxWidthUtilities,
-    ...minMaxHeightUtilities,
-    ...backgroundColorUtilities,
-    ...textColorUtilities,
-    ...borderColorUtilities,
-    ...fontSizeUtilities,
-    ...fontWeightUtilities,
-    ...borderRadiusUtilities,
-    ...borderWidthUtilities,
-    ...opacityUtilities,
-    // NOTE: zIndexUtilities intentionally omitted. USS doesn't support z-index
-    ...positionUtilities,
-    ...flexBasisUtilities,
-    ...insetUtilities,
-    ...borderSideColorUtilities,
-    ...transformUtilities,
-    ...transitionUtilities,
-    ...aspectRatioUtilities,
-    ...letterSpacingUtilities,
+    return {
+        paddingUtilities,
+        marginUtilities,
+        gapUtilities,
+        widthUtilities,
+        heightUtilities,
+        minMaxWidthUtilities,
+        minMaxHeightUtilities,
+        backgroundColorUtilities,
+        textColorUtilities,
+        borderColorUtilities,
+        fontSizeUtilities,
+        fontWeightUtilities,
+        borderRadiusUtilities,
+        borderWidthUtilities,
+        opacityUtilities,
+        zIndexUtilities,
+        positionUtilities,
+        flexBasisUtilities,
+        insetUtilities,
+        borderSideColorUtilities,
+        transformUtilities,
+        transitionUtilities,
+        animationUtilities,
+        aspectRatioUtilities,
+        letterSpacingUtilities,
+        allUtilities,
+    }
 }
 
+const defaultUtilities = createUtilities(defaultTheme)
+
+export const {
+    paddingUtilities,
+    marginUtilities,
+    gapUtilities,
+    widthUtilities,
+    heightUtilities,
+    minMaxWidthUtilities,
+    minMaxHeightUtilities,
+    backgroundColorUtilities,
+    textColorUtilities,
+    borderColorUtilities,
+    fontSizeUtilities,
+    fontWeightUtilities,
+    borderRadiusUtilities,
+    borderWidthUtilities,
+    opacityUtilities,
+    zIndexUtilities,
+    positionUtilities,
+    flexBasisUtilities,
+    insetUtilities,
+    borderSideColorUtilities,
+    transformUtilities,
+    transitionUtilities,
+    animationUtilities,
+    aspectRatioUtilities,
+    letterSpacingUtilities,
+    allUtilities,
+} = defaultUtilities
+
 export default allUtilities
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { animate, startAnimations } from "./animate"
+import { FakeElement, runFrame, stubAnimationFrames } from "./test-helpers"
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    stubAnimationFrames()
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+})
+
+describe("animate", () => {
+    it("cycles the phase classes by their durations", () => {
+        const el = new FakeElement("animate-spin")
+        const stop = animate(el, "spin")
+        expect(el.classes.has("animate-spin-phase-0")).toBe(true)
+
+        // Phase 0 of spin lasts 0ms: the next frame moves on
+        runFrame()
+        expect(el.classes.has("animate-spin-phase-0")).toBe(false)
+        expect(el.classes.has("animate-spin-phase-1")).toBe(true)
+
+        vi.advanceTimersByTime(500)
+        runFrame()
+        expect(el.classes.has("animate-spin-phase-1")).toBe(true)
+
+        vi.advanceTimersByTime(500)
+        runFrame()
+        expect(el.classes.has("animate-spin-phase-0")).toBe(true)
+
+        stop()
+        expect([...el.classes]).toEqual(["animate-spin"])
+    })
+
+    it("uses the prefix for phase classes", () => {
+        const el = new FakeElement()
+        const stop = animate(el, "pulse", { prefix: "tw-" })
+        expect(el.classes.has("tw-animate-pulse-phase-0")).toBe(true)
+        stop()
+    })
+
+    it("throws on an unknown animation", () => {
+        expect(() => animate(new FakeElement(), "wiggle")).toThrow(/unknown animation "wiggle"/)
+    })
+})
+
+describe("startAnimations", () => {
+    it("animates marked elements and follows class changes", () => {
+        const spinner = new FakeElement("animate-spin")
+        const label = new FakeElement()
+        const root = new FakeElement()
+        root.children.push(spinner, label)
+
+        const stop = startAnimations(root, { interval: 100 })
+        expect(spinner.classes.has("animate-spin-phase-0")).toBe(true)
+        expect(label.classes.size).toBe(0)
+
+        label.AddToClassList("animate-pulse")
+        spinner.RemoveFromClassList("animate-spin")
+        vi.advanceTimersByTime(100)
+        expect(label.classes.has("animate-pulse-phase-0")).toBe(true)
+        expect([...spinner.classes]).toEqual([])
+
+        stop()
+        expect([...label.classes]).toEqual(["animate-pulse"])
+    })
+})
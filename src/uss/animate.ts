@@ -0,0 +1,177 @@
+/**
+ * Runtime for the Tailwind `animate-*` utilities.
+ *
+ * USS has no @keyframes, so the generator turns each animation into a loop
+ * of phase classes (`animate-spin-phase-0`, `animate-spin-phase-1`, ...),
+ * each carrying the styles of one step and the transition that tweens into
+ * it. This module steps elements through those classes on a shared
+ * requestAnimationFrame loop; UI Toolkit does the interpolation.
+ *
+ * @example
+ * // Once, at the root of the app: every `animate-*` element below animates
+ * const stop = startAnimations(root)
+ *
+ * // Or drive a single element
+ * const stop = animate(spinner, "spin")
+ */
+
+import { animation } from "../tailwind/config.mjs"
+import type { ClassListElement } from "./types"
+
+/**
+ * One step of an animation, as listed under `animation` in the Tailwind
+ * config: how long it lasts (ms) and the transition easing into it.
+ */
+export interface AnimationPhase {
+    duration: number
+    timing?: string
+    styles: Record<string, string>
+}
+
+/**
+ * Options shared by animate and startAnimations.
+ */
+export interface AnimateOptions {
+    /**
+     * The Tailwind `prefix` the utilities were generated with.
+     * @default ""
+     */
+    prefix?: string
+}
+
+/**
+ * Options for startAnimations.
+ */
+export interface StartAnimationsOptions extends AnimateOptions {
+    /**
+     * How often (ms) the hierarchy is rescanned for elements that gained or
+     * lost an `animate-*` class.
+     * @default 500
+     */
+    interval?: number
+}
+
+/** The built-in animations, by name (spin, ping, pulse, bounce). */
+export const animations: Record<string, AnimationPhase[]> = animation
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+interface Driver {
+    element: ClassListElement
+    classes: string[]
+    phases: AnimationPhase[]
+    index: number
+    nextAt: number
+}
+
+const drivers = new Set<Driver>()
+let frameId: number | null = null
+
+function tick(): void {
+    frameId = null
+    const now = Date.now()
+    for (const driver of drivers) {
+        if (now < driver.nextAt) continue
+        driver.element.RemoveFromClassList(driver.classes[driver.index])
+        driver.index = (driver.index + 1) % driver.phases.length
+        driver.element.AddToClassList(driver.classes[driver.index])
+        driver.nextAt = now + driver.phases[driver.index].duration
+    }
+    schedule()
+}
+
+function schedule(): void {
+    if (frameId === null && drivers.size > 0) {
+        frameId = requestAnimationFrame(tick)
+    }
+}
+
+/**
+ * Run a named animation on one element until the returned function is
+ * called, which also removes the current phase class.
+ *
+ * Throws for an animation that is not in the table, since a typo would
+ * otherwise just leave the element still.
+ */
+export function animate(element: ClassListElement, name: string, options: AnimateOptions = {}): () => void {
+    const phases = animations[name]
+    if (!phases) {
+        throw new Error(`[onejs-unity] unknown animation "${name}" (known: ${Object.keys(animations).join(", ")})`)
+    }
+    const prefix = options.prefix ?? ""
+    const driver: Driver = {
+        element,
+        classes: phases.map((_, i) => `${prefix}animate-${name}-phase-${i}`),
+        phases,
+        index: 0,
+        nextAt: Date.now() + phases[0].duration,
+    }
+    element.AddToClassList(driver.classes[0])
+    drivers.add(driver)
+    schedule()
+
+    return () => {
+        if (!drivers.delete(driver)) return
+        element.RemoveFromClassList(driver.classes[driver.index])
+        if (drivers.size === 0 && frameId !== null) {
+            cancelAnimationFrame(frameId)
+            frameId = null
+        }
+    }
+}
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+/**
+ * Animate every element under `root` (inclusive) that carries an
+ * `animate-*` class, now and as classes change: the hierarchy is rescanned
+ * every `interval` ms. Returns a function that stops everything.
+ */
+export function startAnimations(root: ClassListElement, options: StartAnimationsOptions = {}): () => void {
+    const prefix = options.prefix ?? ""
+    const running = new Map<ClassListElement, { name: string, stop: () => void }>()
+
+    const scan = () => {
+        const found = new Map<ClassListElement, string>()
+        visit(root, (element) => {
+            for (const name of Object.keys(animations)) {
+                if (element.ClassListContains(`${prefix}animate-${name}`)) {
+                    found.set(element, name)
+                    break
+                }
+            }
+        })
+
+        for (const [element, entry] of running) {
+            if (found.get(element) !== entry.name) {
+                entry.stop()
+                running.delete(element)
+            }
+        }
+        for (const [element, name] of found) {
+            if (!running.has(element)) {
+                running.set(element, { name, stop: animate(element, name, { prefix }) })
+            }
+        }
+    }
+
+    scan()
+    const timer = setInterval(scan, options.interval ?? 500)
+
+    return () => {
+        clearInterval(timer)
+        for (const entry of running.values()) entry.stop()
+        running.clear()
+    }
+}
+
+function visit(element: ClassListElement, fn: (element: ClassListElement) => void): void {
+    fn(element)
+    for (let i = 0; i < element.childCount; i++) {
+        visit(element.ElementAt(i), fn)
+    }
+}
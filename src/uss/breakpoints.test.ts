@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { applyBreakpoints, activeBreakpoints } from "./breakpoints"
+import { FakeElement, runFrame, stubAnimationFrames } from "./test-helpers"
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    stubAnimationFrames()
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+})
+
+describe("activeBreakpoints", () => {
+    it("lists every breakpoint a width reaches, smallest first", () => {
+        expect(activeBreakpoints(900)).toEqual(["sm", "md"])
+        expect(activeBreakpoints(2000)).toEqual(["sm", "md", "lg", "xl", "2xl"])
+        expect(activeBreakpoints(NaN)).toEqual([])
+        expect(activeBreakpoints(950, { wide: 1200, tablet: 900 })).toEqual(["tablet"])
+    })
+})
+
+describe("applyBreakpoints", () => {
+    it("applies the classes at once when the width is known", () => {
+        const root = new FakeElement()
+        root.resolvedStyle.width = 1100
+        const stop = applyBreakpoints(root)
+        expect([...root.classes]).toEqual(["sm", "md", "lg"])
+
+        stop()
+        expect(root.classes.size).toBe(0)
+    })
+
+    it("applies the first layout without waiting", () => {
+        const root = new FakeElement()
+        const stop = applyBreakpoints(root)
+        expect(root.classes.size).toBe(0)
+
+        root.resolvedStyle.width = 700
+        runFrame()
+        expect([...root.classes]).toEqual(["sm"])
+        stop()
+    })
+
+    it("debounces resizes", () => {
+        const root = new FakeElement()
+        root.resolvedStyle.width = 700
+        const onChange = vi.fn()
+        const stop = applyBreakpoints(root, { debounce: 100, onChange })
+        expect(onChange).toHaveBeenCalledWith(["sm"])
+
+        root.resolvedStyle.width = 1100
+        runFrame()
+        vi.advanceTimersByTime(60)
+        root.resolvedStyle.width = 1300
+        runFrame()
+        vi.advanceTimersByTime(60)
+        expect([...root.classes]).toEqual(["sm"]) // still settling
+
+        vi.advanceTimersByTime(40)
+        expect([...root.classes]).toEqual(["sm", "md", "lg", "xl"])
+        expect(onChange).toHaveBeenCalledTimes(2)
+
+        root.resolvedStyle.width = 500
+        runFrame()
+        vi.advanceTimersByTime(100)
+        expect(root.classes.size).toBe(0)
+        expect(onChange).toHaveBeenLastCalledWith([])
+        stop()
+    })
+
+    it("uses a custom table and measure", () => {
+        const root = new FakeElement()
+        const stop = applyBreakpoints(root, { breakpoints: { tablet: 900 }, width: () => 1000 })
+        expect([...root.classes]).toEqual(["tablet"])
+        stop()
+    })
+})
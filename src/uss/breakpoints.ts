@@ -0,0 +1,149 @@
+/**
+ * Runtime for the Tailwind breakpoint variants (`sm:`, `md:`, ...).
+ *
+ * USS has no media queries, so generateUSS and ussTransform scope responsive
+ * rules under an ancestor class instead: `md:p-4` becomes `.md .md_c_p-4`.
+ * This module puts those classes on the root element, cumulatively like
+ * min-width queries (a 900px panel carries `sm` and `md`), and keeps them in
+ * sync as the panel resizes. Widths are read every frame; the class list is
+ * only updated once the width has settled for `debounce` ms, so dragging a
+ * window edge doesn't restyle the whole tree on every frame.
+ *
+ * @example
+ * // Once, on the root of the app
+ * const stop = applyBreakpoints(root)
+ *
+ * // With the theme's own screens (tailwind.config.js)
+ * import { breakpoints } from "onejs:tailwind"
+ * applyBreakpoints(root, { breakpoints })
+ */
+
+import { breakpoints as defaultBreakpoints } from "../tailwind/config.mjs"
+import type { LayoutElement } from "./types"
+
+/**
+ * Options for applyBreakpoints.
+ */
+export interface BreakpointOptions {
+    /**
+     * Breakpoint min widths in px, by name. Pass `breakpoints` from
+     * `onejs:tailwind` when the Tailwind config sets `screens`.
+     * @default the default theme's breakpoints (sm 640 ... 2xl 1536)
+     */
+    breakpoints?: Record<string, number>
+    /**
+     * How long (ms) the width must stay unchanged before the classes follow.
+     * @default 100
+     */
+    debounce?: number
+    /**
+     * What to measure. Defaults to the root's resolved width, which is the
+     * panel width for the root of a UI Document.
+     */
+    width?: () => number
+    /**
+     * Called with the active breakpoints, smallest first, whenever they change.
+     */
+    onChange?: (active: string[]) => void
+}
+
+/**
+ * The breakpoints a width reaches, smallest first. NaN (before the first
+ * layout pass) reaches none.
+ */
+export function activeBreakpoints(width: number, breakpoints: Record<string, number> = defaultBreakpoints): string[] {
+    return Object.entries(breakpoints)
+        .filter(([, minWidth]) => width >= minWidth)
+        .sort((a, b) => a[1] - b[1])
+        .map(([name]) => name)
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+interface Watcher {
+    measure: () => number
+    width: number
+    resized: (width: number) => void
+}
+
+const watchers = new Set<Watcher>()
+let frameId: number | null = null
+
+function tick(): void {
+    frameId = null
+    for (const watcher of watchers) {
+        const width = watcher.measure()
+        if (Object.is(width, watcher.width)) continue
+        watcher.width = width
+        watcher.resized(width)
+    }
+    schedule()
+}
+
+function schedule(): void {
+    if (frameId === null && watchers.size > 0) {
+        frameId = requestAnimationFrame(tick)
+    }
+}
+
+/**
+ * Keep the breakpoint classes on `root` in sync with its width. The classes
+ * are applied right away when the width is already known (and on the first
+ * layout otherwise), then follow resizes after the debounce. Returns a
+ * function that stops watching and removes them.
+ */
+export function applyBreakpoints(root: LayoutElement, options: BreakpointOptions = {}): () => void {
+    const table = options.breakpoints ?? (defaultBreakpoints as Record<string, number>)
+    const debounce = options.debounce ?? 100
+    let active: string[] = []
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const apply = (width: number) => {
+        timer = null
+        const next = activeBreakpoints(width, table)
+        if (next.length === active.length && next.every((name, i) => name === active[i])) return
+        for (const name of active) {
+            if (!next.includes(name)) root.RemoveFromClassList(name)
+        }
+        for (const name of next) {
+            if (!active.includes(name)) root.AddToClassList(name)
+        }
+        active = next
+        options.onChange?.(next)
+    }
+
+    const measure = options.width ?? (() => root.resolvedStyle.width)
+    const initial = measure()
+    let laidOut = !Number.isNaN(initial)
+    const watcher: Watcher = {
+        measure,
+        width: initial,
+        resized: (width) => {
+            if (timer !== null) clearTimeout(timer)
+            // The first layout applies at once, so the first frame isn't
+            // drawn with the narrowest styles
+            if (!laidOut && !Number.isNaN(width)) {
+                laidOut = true
+                apply(width)
+                return
+            }
+            timer = setTimeout(() => apply(width), debounce)
+        },
+    }
+    apply(initial)
+    watchers.add(watcher)
+    schedule()
+
+    return () => {
+        if (!watchers.delete(watcher)) return
+        if (timer !== null) clearTimeout(timer)
+        for (const name of active) root.RemoveFromClassList(name)
+        active = []
+        if (watchers.size === 0 && frameId !== null) {
+            cancelAnimationFrame(frameId)
+            frameId = null
+        }
+    }
+}
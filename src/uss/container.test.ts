@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { observeContainer } from "./container"
+import { FakeElement, runFrame, stubAnimationFrames } from "./test-helpers"
+
+beforeEach(() => {
+    stubAnimationFrames()
+})
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe("observeContainer", () => {
+    const sizes = { sm: 384, md: 448, lg: 512 }
+
+    it("adds a class for every size the width reaches and follows resizes", () => {
+        const el = new FakeElement()
+        const stop = observeContainer(el, { sizes })
+        expect(el.classes.size).toBe(0) // not laid out yet
+
+        el.resolvedStyle.width = 460
+        runFrame()
+        expect([...el.classes].sort()).toEqual(["cq-md", "cq-sm"])
+
+        el.resolvedStyle.width = 400
+        runFrame()
+        expect([...el.classes]).toEqual(["cq-sm"])
+
+        stop()
+        expect(el.classes.size).toBe(0)
+    })
+
+    it("only touches the class list when the sizes change", () => {
+        const el = new FakeElement()
+        el.resolvedStyle.width = 500
+        const add = vi.spyOn(el, "AddToClassList")
+        const stop = observeContainer(el, { sizes })
+        expect(add).toHaveBeenCalledTimes(2)
+
+        el.resolvedStyle.width = 510
+        runFrame()
+        expect(add).toHaveBeenCalledTimes(2)
+        stop()
+    })
+
+    it("names the classes after a named container", () => {
+        const el = new FakeElement()
+        el.resolvedStyle.width = 1000
+        const stop = observeContainer(el, { name: "sidebar", sizes })
+        expect([...el.classes].sort()).toEqual(["cq-sidebar-lg", "cq-sidebar-md", "cq-sidebar-sm"])
+        stop()
+    })
+
+    it("uses the default container sizes", () => {
+        const el = new FakeElement()
+        el.resolvedStyle.width = 300
+        const stop = observeContainer(el)
+        expect([...el.classes].sort()).toEqual(["cq-2xs", "cq-3xs"])
+        stop()
+    })
+})
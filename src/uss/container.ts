@@ -0,0 +1,110 @@
+/**
+ * Runtime for the Tailwind container variants (`@sm:`, `@md/sidebar:`).
+ *
+ * USS has no container queries, so the generator scopes `@md:p-4` under a
+ * class on the container instead: `.cq-md ._at_md_c_p-4`. This module keeps
+ * those classes in sync with the container's resolved width, cumulatively
+ * like the breakpoint classes: a 500px container carries `cq-3xs` through
+ * `cq-lg`. Widths are read on a shared requestAnimationFrame loop and the
+ * class list is only touched when the set of matching sizes changes.
+ *
+ * Unlike CSS container queries, the rule matches under any marked ancestor,
+ * not just the nearest one. Nested unnamed containers should be named
+ * (`@md/card:`) when the outer one is the wider.
+ *
+ * The elements inside write their classes through `tw()` from
+ * onejs:tailwind: the JSX runtime doesn't escape `@`, tw() does.
+ *
+ * @example
+ * const stop = observeContainer(sidebar, { name: "sidebar" })
+ * // <View className={tw("@md/sidebar:flex-row")} /> inside it
+ */
+
+import { containers } from "../tailwind/config.mjs"
+import type { LayoutElement } from "./types"
+
+/**
+ * Options for observeContainer.
+ */
+export interface ContainerOptions {
+    /**
+     * Name for `@size/name:` variants; the classes become `cq-name-size`.
+     * Unnamed containers get `cq-size`.
+     */
+    name?: string
+    /**
+     * Container sizes (min widths in px), by name. Pass the theme's
+     * `containers` table when the Tailwind config extends it.
+     * @default the default theme's containers
+     */
+    sizes?: Record<string, number>
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+interface Watcher {
+    element: LayoutElement
+    sizes: Array<[className: string, minWidth: number]>
+    active: Set<string>
+}
+
+const watchers = new Set<Watcher>()
+let frameId: number | null = null
+
+function tick(): void {
+    frameId = null
+    for (const watcher of watchers) update(watcher)
+    schedule()
+}
+
+function schedule(): void {
+    if (frameId === null && watchers.size > 0) {
+        frameId = requestAnimationFrame(tick)
+    }
+}
+
+function update(watcher: Watcher): void {
+    const width = watcher.element.resolvedStyle.width
+    // NaN until the first layout pass: no size matches yet
+    for (const [className, minWidth] of watcher.sizes) {
+        const matches = width >= minWidth
+        if (matches === watcher.active.has(className)) continue
+        if (matches) {
+            watcher.element.AddToClassList(className)
+            watcher.active.add(className)
+        } else {
+            watcher.element.RemoveFromClassList(className)
+            watcher.active.delete(className)
+        }
+    }
+}
+
+/**
+ * Mark `element` as a size container: it carries a `cq-*` class for every
+ * container size its width reaches, updated as it resizes. Returns a
+ * function that stops observing and removes the classes.
+ */
+export function observeContainer(element: LayoutElement, options: ContainerOptions = {}): () => void {
+    const stem = options.name ? `cq-${options.name}-` : "cq-"
+    const watcher: Watcher = {
+        element,
+        sizes: Object.entries(options.sizes ?? (containers as Record<string, number>))
+            .map(([size, minWidth]): [string, number] => [stem + size, minWidth]),
+        active: new Set(),
+    }
+    update(watcher)
+    watchers.add(watcher)
+    schedule()
+
+    return () => {
+        if (!watchers.delete(watcher)) return
+        for (const className of watcher.active) element.RemoveFromClassList(className)
+        watcher.active.clear()
+        if (watchers.size === 0 && frameId !== null) {
+            cancelAnimationFrame(frameId)
+            frameId = null
+        }
+    }
+}
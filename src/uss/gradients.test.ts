@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { startGradients, gradientTexture, gradientColors, clearGradientCache } from "./gradients"
+import { FakeElement } from "./test-helpers"
+
+// A stand-in for the Unity types the textures and styles are created with
+class FakeTexture2D {
+    pixels: Array<{ r: number, g: number, b: number, a: number }> = []
+    constructor(public width: number, public height: number) {}
+    SetPixels(pixels: FakeTexture2D["pixels"]) { this.pixels = pixels }
+    Apply() {}
+}
+class FakeStyleBackground {
+    constructor(public value: unknown) {}
+}
+
+const stops = {
+    "from-red-500": "#ef4444ff",
+    "via-white": "#ffffffff",
+    "to-blue-500": "#3b82f6ff",
+}
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal("CS", {
+        UnityEngine: {
+            Texture2D: FakeTexture2D,
+            TextureFormat: { RGBA32: 4 },
+            Object: { Destroy: () => {} },
+            UIElements: { StyleBackground: FakeStyleBackground, StyleKeyword: { Null: "null" } },
+        },
+    })
+})
+
+afterEach(() => {
+    clearGradientCache()
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+})
+
+describe("gradientColors", () => {
+    it("fills in missing stops with transparent ones", () => {
+        expect(gradientColors({ from: "#ef4444ff" })).toEqual(["#ef4444ff", "#ef444400"])
+        expect(gradientColors({ to: "#3b82f6ff" })).toEqual(["#3b82f600", "#3b82f6ff"])
+        expect(gradientColors({ from: "#ef4444ff", via: "#ffffffff", to: "#3b82f6ff" }))
+            .toEqual(["#ef4444ff", "#ffffffff", "#3b82f6ff"])
+        expect(gradientColors({})).toBeNull()
+    })
+})
+
+describe("gradientTexture", () => {
+    it("caches one texture per direction and colors", () => {
+        const a = gradientTexture("r", ["#ff0000ff", "#0000ffff"])
+        expect(gradientTexture("r", ["#ff0000ff", "#0000ffff"])).toBe(a)
+        expect(gradientTexture("l", ["#ff0000ff", "#0000ffff"])).not.toBe(a)
+    })
+
+    it("runs the stops backwards for to-l", () => {
+        const texture = gradientTexture("l", ["#ff0000ff", "#0000ffff"], 8)
+        const pixels = (texture.getUnityTexture() as FakeTexture2D).pixels
+        expect(pixels[0]).toMatchObject({ r: 0, b: 1 }) // left edge: the `to` color
+        expect(pixels[7]).toMatchObject({ r: 1, b: 0 })
+    })
+
+    it("throws on an unknown direction", () => {
+        expect(() => gradientTexture("x", ["#000000ff", "#ffffffff"])).toThrow(/unknown gradient direction "x"/)
+    })
+})
+
+describe("startGradients", () => {
+    it("sets the background of gradient elements and follows class changes", () => {
+        const card = new FakeElement("bg-gradient-to-r", "from-red-500", "to-blue-500")
+        const twin = new FakeElement("bg-gradient-to-r", "from-red-500", "to-blue-500")
+        const plain = new FakeElement("from-red-500")
+        const root = new FakeElement()
+        root.children.push(card, twin, plain)
+
+        const stop = startGradients(root, { stops, interval: 100 })
+        const background = card.style.backgroundImage as FakeStyleBackground
+        expect(background.value).toBeInstanceOf(FakeTexture2D)
+        expect((twin.style.backgroundImage as FakeStyleBackground).value).toBe(background.value)
+        expect(plain.style.backgroundImage).toBeNull()
+
+        card.AddToClassList("via-white")
+        twin.RemoveFromClassList("bg-gradient-to-r")
+        vi.advanceTimersByTime(100)
+        expect((card.style.backgroundImage as FakeStyleBackground).value).not.toBe(background.value)
+        expect((twin.style.backgroundImage as FakeStyleBackground).value).toBe("null")
+
+        stop()
+        expect((card.style.backgroundImage as FakeStyleBackground).value).toBe("null")
+    })
+})
@@ -0,0 +1,199 @@
+/**
+ * Runtime for the Tailwind gradient utilities.
+ *
+ * USS has no gradients, so `bg-gradient-to-r from-indigo-500 to-pink-500`
+ * generates no gradient rule. Instead the `onejs:tailwind` module exports
+ * the colors of the stop classes the build uses, and this module renders
+ * each element's combination with the proc/texture `gradient()` and sets it
+ * as the element's background image. Textures are cached per direction and
+ * color combination, so a hundred identical buttons share one.
+ *
+ * Only plain classes count: `hover:from-red-500` has no effect, since the
+ * classes are read from the element rather than matched by USS.
+ *
+ * @example
+ * import { gradientStops } from "onejs:tailwind"
+ *
+ * // Once, at the root of the app
+ * const stop = startGradients(root, { stops: gradientStops })
+ */
+
+import { gradient } from "../proc/texture/generators"
+import type { GradientDirection, ProceduralTexture } from "../proc/texture/generators"
+import type { GradientElement } from "./types"
+
+declare const CS: any
+
+/**
+ * Options for startGradients.
+ */
+export interface StartGradientsOptions {
+    /**
+     * Stop class -> `#rrggbbaa` color: `gradientStops` from `onejs:tailwind`.
+     */
+    stops: Record<string, string>
+    /**
+     * The Tailwind `prefix` the utilities were generated with.
+     * @default ""
+     */
+    prefix?: string
+    /**
+     * Texture size in pixels. The texture is stretched over the element and
+     * filtered bilinearly, so a small one is enough.
+     * @default 64
+     */
+    size?: number
+    /**
+     * How often (ms) the hierarchy is rescanned for gradient classes.
+     * @default 500
+     */
+    interval?: number
+}
+
+/**
+ * Tailwind directions as proc/texture directions, and whether the stops run
+ * backwards. Texture rows go bottom to top in Unity, so "vertical" starts at
+ * the bottom edge and "diagonal" at the bottom-left corner.
+ */
+const DIRECTIONS: Record<string, [GradientDirection, boolean]> = {
+    t: ["vertical", false],
+    b: ["vertical", true],
+    r: ["horizontal", false],
+    l: ["horizontal", true],
+    tr: ["diagonal", false],
+    bl: ["diagonal", true],
+    br: ["antidiagonal", false],
+    tl: ["antidiagonal", true],
+}
+
+// =============================================================================
+// Textures
+// =============================================================================
+
+const cache = new Map<string, ProceduralTexture>()
+
+/**
+ * The texture for a Tailwind direction (`"r"`, `"br"`, ...) and colors
+ * (`#rrggbb` or `#rrggbbaa`), created on first use and cached.
+ *
+ * Throws for a direction Tailwind doesn't have.
+ */
+export function gradientTexture(direction: string, colors: string[], size = 64): ProceduralTexture {
+    const mapped = DIRECTIONS[direction]
+    if (!mapped) {
+        throw new Error(`[onejs-unity] unknown gradient direction "${direction}" (known: ${Object.keys(DIRECTIONS).join(", ")})`)
+    }
+    const key = `${direction}|${size}|${colors.join(",")}`
+    let texture = cache.get(key)
+    if (!texture) {
+        const [textureDirection, reversed] = mapped
+        const stops = reversed ? [...colors].reverse() : colors
+        texture = gradient({
+            colors: stops as [string, string, ...string[]],
+            direction: textureDirection,
+            size,
+        })
+        cache.set(key, texture)
+    }
+    return texture
+}
+
+/**
+ * Dispose every cached gradient texture. Elements still showing one keep a
+ * destroyed texture, so call this only once they are gone.
+ */
+export function clearGradientCache(): void {
+    for (const texture of cache.values()) texture.dispose()
+    cache.clear()
+}
+
+/**
+ * The colors of a stop combination, filled in like Tailwind does: a missing
+ * `to` is the `from` color made transparent, and a missing `from` is the
+ * first given color made transparent.
+ */
+export function gradientColors(stops: { from?: string, via?: string, to?: string }): string[] | null {
+    const first = stops.from ?? stops.via ?? stops.to
+    if (!first) return null
+    const from = stops.from ?? clear(first)
+    const to = stops.to ?? clear(from)
+    return stops.via ? [from, stops.via, to] : [from, to]
+}
+
+function clear(color: string): string {
+    return color.slice(0, 7) + "00"
+}
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+/**
+ * Give every element under `root` (inclusive) with a `bg-gradient-to-*` class
+ * the background its stop classes describe, now and as classes change: the
+ * hierarchy is rescanned every `interval` ms. Returns a function that stops
+ * and clears the backgrounds it set.
+ */
+export function startGradients(root: GradientElement, options: StartGradientsOptions): () => void {
+    const prefix = options.prefix ?? ""
+    const size = options.size ?? 64
+    const stops = Object.entries(options.stops).map(([className, color]) => ({
+        className,
+        position: className.slice(prefix.length).split("-")[0] as "from" | "via" | "to",
+        color,
+    }))
+    const applied = new Map<GradientElement, string>()
+
+    const describe = (element: GradientElement) => {
+        const direction = Object.keys(DIRECTIONS)
+            .find((d) => element.ClassListContains(`${prefix}bg-gradient-to-${d}`))
+        if (!direction) return null
+        const found: { from?: string, via?: string, to?: string } = {}
+        for (const stop of stops) {
+            if (found[stop.position] === undefined && element.ClassListContains(stop.className)) {
+                found[stop.position] = stop.color
+            }
+        }
+        const colors = gradientColors(found)
+        return colors ? { direction, colors, key: `${direction}|${colors.join(",")}` } : null
+    }
+
+    const scan = () => {
+        const seen = new Set<GradientElement>()
+        visit(root, (element) => {
+            const wanted = describe(element)
+            if (!wanted) return
+            seen.add(element)
+            if (applied.get(element) === wanted.key) return
+            const texture = gradientTexture(wanted.direction, wanted.colors, size)
+            element.style.backgroundImage = new CS.UnityEngine.UIElements.StyleBackground(texture.getUnityTexture())
+            applied.set(element, wanted.key)
+        })
+        for (const element of applied.keys()) {
+            if (!seen.has(element)) {
+                clearBackground(element)
+                applied.delete(element)
+            }
+        }
+    }
+
+    scan()
+    const timer = setInterval(scan, options.interval ?? 500)
+
+    return () => {
+        clearInterval(timer)
+        for (const element of applied.keys()) clearBackground(element)
+        applied.clear()
+    }
+}
+
+function clearBackground(element: GradientElement): void {
+    element.style.backgroundImage = new CS.UnityEngine.UIElements.StyleBackground(CS.UnityEngine.UIElements.StyleKeyword.Null)
+}
+
+function visit(element: GradientElement, fn: (element: GradientElement) => void): void {
+    fn(element)
+    for (let i = 0; i < element.childCount; i++) {
+        visit(element.ElementAt(i), fn)
+    }
+}
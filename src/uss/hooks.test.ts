@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { createElement } from "react"
+import { act, create } from "react-test-renderer"
+import type { ReactTestRenderer } from "react-test-renderer"
+import { useBreakpoints, useContainer } from "./hooks"
+import type { BreakpointOptions } from "./breakpoints"
+import type { ContainerOptions } from "./container"
+import { FakeElement, runFrame, stubAnimationFrames } from "./test-helpers"
+
+// Lets act() flush effects without React warning that it isn't a test environment.
+// Like OneJS, the test renderer has no DOM; the second flag keeps React 19 from
+// logging that it is deprecated for DOM apps.
+Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true, IS_REACT_NATIVE_TEST_ENVIRONMENT: true })
+
+beforeEach(() => {
+    vi.useFakeTimers()
+    stubAnimationFrames()
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+})
+
+/** Render `element`, returning the renderer to update and unmount it with. */
+function mount(element: ReturnType<typeof createElement>) {
+    let renderer!: ReactTestRenderer
+    act(() => { renderer = create(element) })
+    return renderer
+}
+
+/** Run a frame and let a resize settle past the default debounce. */
+function settle() {
+    act(() => {
+        runFrame()
+        vi.advanceTimersByTime(100)
+    })
+}
+
+describe("useBreakpoints", () => {
+    let active: string[] = []
+
+    function App({ root, options }: { root: { current: FakeElement }, options?: Omit<BreakpointOptions, "onChange"> }) {
+        active = useBreakpoints(root, options)
+        return null
+    }
+
+    it("applies the breakpoint classes while mounted and returns them", () => {
+        const root = new FakeElement()
+        const ref = { current: root }
+        root.resolvedStyle.width = 1100
+        const app = mount(createElement(App, { root: ref }))
+        expect([...root.classes]).toEqual(["sm", "md", "lg"])
+        expect(active).toEqual(["sm", "md", "lg"])
+
+        root.resolvedStyle.width = 700
+        settle()
+        expect(active).toEqual(["sm"])
+
+        act(() => app.unmount())
+        expect(root.classes.size).toBe(0)
+    })
+
+    it("keeps its subscription across renders with inline options", () => {
+        const root = new FakeElement()
+        const ref = { current: root }
+        let measured = 1100
+        const app = mount(createElement(App, { root: ref, options: { breakpoints: { wide: 1000 }, width: () => measured } }))
+        const remove = vi.spyOn(root, "RemoveFromClassList")
+
+        act(() => app.update(createElement(App, { root: ref, options: { breakpoints: { wide: 1000 }, width: () => measured } })))
+        expect(remove).not.toHaveBeenCalled()
+        expect([...root.classes]).toEqual(["wide"])
+
+        // The latest width function is still the one measured
+        act(() => app.update(createElement(App, { root: ref, options: { breakpoints: { wide: 1000 }, width: () => 900 } })))
+        settle()
+        expect(root.classes.size).toBe(0)
+
+        // New breakpoints do restart it
+        measured = 1300
+        act(() => app.update(createElement(App, { root: ref, options: { breakpoints: { wide: 1200 }, width: () => measured } })))
+        expect([...root.classes]).toEqual(["wide"])
+        act(() => app.unmount())
+    })
+})
+
+describe("useContainer", () => {
+    function Card({ card, options }: { card: { current: FakeElement }, options?: ContainerOptions }) {
+        useContainer(card, options)
+        return null
+    }
+
+    it("adds the container size classes while mounted", () => {
+        const card = new FakeElement()
+        const ref = { current: card }
+        card.resolvedStyle.width = 460
+        const app = mount(createElement(Card, { card: ref, options: { sizes: { sm: 384, md: 448, lg: 512 } } }))
+        expect([...card.classes].sort()).toEqual(["cq-md", "cq-sm"])
+
+        act(() => app.unmount())
+        expect(card.classes.size).toBe(0)
+    })
+
+    it("keeps its subscription across renders with inline sizes", () => {
+        const card = new FakeElement()
+        const ref = { current: card }
+        card.resolvedStyle.width = 460
+        const app = mount(createElement(Card, { card: ref, options: { sizes: { sm: 384 } } }))
+        const remove = vi.spyOn(card, "RemoveFromClassList")
+
+        act(() => app.update(createElement(Card, { card: ref, options: { sizes: { sm: 384 } } })))
+        expect(remove).not.toHaveBeenCalled()
+
+        act(() => app.update(createElement(Card, { card: ref, options: { sizes: { sm: 384, md: 448 } } })))
+        expect([...card.classes].sort()).toEqual(["cq-md", "cq-sm"])
+        act(() => app.unmount())
+    })
+})
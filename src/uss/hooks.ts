@@ -0,0 +1,130 @@
+/**
+ * React hooks for the USS runtime helpers.
+ */
+
+import { useEffect, useRef, useState } from "react"
+import { startAnimations } from "./animate"
+import type { StartAnimationsOptions } from "./animate"
+import { applyBreakpoints } from "./breakpoints"
+import type { BreakpointOptions } from "./breakpoints"
+import { startGradients } from "./gradients"
+import type { StartGradientsOptions } from "./gradients"
+import { observeContainer } from "./container"
+import type { ContainerOptions } from "./container"
+import type { ClassListElement, GradientElement, LayoutElement } from "./types"
+
+/**
+ * `value`, or the previous one while it has the same entries, so an inline
+ * `{ sm: 640 }` doesn't restart an effect on every render.
+ */
+function useShallowStable<T extends Record<string, unknown> | undefined>(value: T): T {
+    const previous = useRef(value)
+    const current = previous.current
+    const same = current === value || (current !== undefined && value !== undefined &&
+        Object.keys(current).length === Object.keys(value).length &&
+        Object.keys(value).every((key) => Object.is(current[key], value[key])))
+    if (!same) previous.current = value
+    return previous.current
+}
+
+/**
+ * Animate every `animate-*` element under a ref'd element while the
+ * component is mounted.
+ *
+ * @example
+ * function App() {
+ *     const root = useRef(null)
+ *     useAnimations(root)
+ *     return <View ref={root}><View className="animate-spin" /></View>
+ * }
+ */
+export function useAnimations(
+    ref: { current: ClassListElement | null },
+    options: StartAnimationsOptions = {},
+): void {
+    const { prefix, interval } = options
+    useEffect(() => {
+        if (!ref.current) return
+        return startAnimations(ref.current, { prefix, interval })
+    }, [ref, prefix, interval])
+}
+
+/**
+ * Make a ref'd element a size container for `@sm:`-style variants while the
+ * component is mounted.
+ *
+ * @example
+ * import { tw } from "onejs:tailwind"
+ *
+ * function Card() {
+ *     const card = useRef(null)
+ *     useContainer(card)
+ *     return <View ref={card}><View className={tw("flex-col @md:flex-row")} /></View>
+ * }
+ */
+export function useContainer(
+    ref: { current: LayoutElement | null },
+    options: ContainerOptions = {},
+): void {
+    const { name } = options
+    const sizes = useShallowStable(options.sizes)
+    useEffect(() => {
+        if (!ref.current) return
+        return observeContainer(ref.current, { name, sizes })
+    }, [ref, name, sizes])
+}
+
+/**
+ * Apply the breakpoint classes (`sm`, `md`, ...) to a ref'd root element
+ * while the component is mounted. Returns the active breakpoints, smallest
+ * first, for the rare layout that needs them in code.
+ *
+ * @example
+ * function App() {
+ *     const root = useRef(null)
+ *     const active = useBreakpoints(root)
+ *     return <View ref={root} className="p-2 md:p-6">{active.includes("lg") && <Sidebar />}</View>
+ * }
+ */
+export function useBreakpoints(
+    ref: { current: LayoutElement | null },
+    options: Omit<BreakpointOptions, "onChange"> = {},
+): string[] {
+    const { debounce } = options
+    const breakpoints = useShallowStable(options.breakpoints)
+    // Read through a ref, so an inline `width` function doesn't restart the loop
+    const width = useRef(options.width)
+    width.current = options.width
+    const measured = options.width !== undefined
+    const [active, setActive] = useState<string[]>([])
+    useEffect(() => {
+        if (!ref.current) return
+        const measure = measured ? () => width.current!() : undefined
+        return applyBreakpoints(ref.current, { breakpoints, debounce, width: measure, onChange: setActive })
+    }, [ref, breakpoints, debounce, measured])
+    return active
+}
+
+/**
+ * Render the `bg-gradient-to-*` backgrounds under a ref'd element while the
+ * component is mounted.
+ *
+ * @example
+ * import { gradientStops } from "onejs:tailwind"
+ *
+ * function App() {
+ *     const root = useRef(null)
+ *     useGradients(root, { stops: gradientStops })
+ *     return <View ref={root}><View className="bg-gradient-to-r from-indigo-500 to-pink-500" /></View>
+ * }
+ */
+export function useGradients(
+    ref: { current: GradientElement | null },
+    options: StartGradientsOptions,
+): void {
+    const { stops, prefix, size, interval } = options
+    useEffect(() => {
+        if (!ref.current) return
+        return startGradients(ref.current, { stops, prefix, size, interval })
+    }, [ref, stops, prefix, size, interval])
+}
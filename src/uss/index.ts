@@ -0,0 +1,34 @@
+/**
+ * USS module: runtime companions for the generated Tailwind USS
+ *
+ * @example
+ * import { applyBreakpoints, startAnimations } from "onejs-unity/uss"
+ *
+ * // `sm`, `md`, ... on the root as the panel resizes
+ * applyBreakpoints(root)
+ *
+ * // `animate-spin`, `animate-pulse`, ... on any element below root
+ * startAnimations(root)
+ */
+
+// Animations (animate-* utilities)
+export { animate, startAnimations, animations } from "./animate"
+export type { AnimationPhase, AnimateOptions, StartAnimationsOptions } from "./animate"
+
+// Gradients (bg-gradient-to-* with from-/via-/to- stops)
+export { startGradients, gradientTexture, gradientColors, clearGradientCache } from "./gradients"
+export type { StartGradientsOptions } from "./gradients"
+
+// Breakpoint classes (sm:, md:, ...)
+export { applyBreakpoints, activeBreakpoints } from "./breakpoints"
+export type { BreakpointOptions } from "./breakpoints"
+
+// Container variants (@sm:, @md/name:)
+export { observeContainer } from "./container"
+export type { ContainerOptions } from "./container"
+
+// React hooks
+export { useAnimations, useBreakpoints, useContainer, useGradients } from "./hooks"
+
+// Types
+export type { ClassListElement, GradientElement, LayoutElement } from "./types"
@@ -0,0 +1,42 @@
+/**
+ * Stand-ins for the UI Toolkit and browser APIs the USS runtime helpers use,
+ * shared by their tests.
+ */
+
+import { vi } from "vitest"
+import type { GradientElement, LayoutElement } from "./types"
+
+/** A VisualElement with a class list, children, a resolved width and an inline style. */
+export class FakeElement implements LayoutElement, GradientElement {
+    classes = new Set<string>()
+    children: FakeElement[] = []
+    resolvedStyle = { width: NaN }
+    style = { backgroundImage: null as unknown }
+
+    constructor(...classes: string[]) {
+        classes.forEach((c) => this.classes.add(c))
+    }
+
+    AddToClassList(c: string) { this.classes.add(c) }
+    RemoveFromClassList(c: string) { this.classes.delete(c) }
+    ClassListContains(c: string) { return this.classes.has(c) }
+    get childCount() { return this.children.length }
+    ElementAt(i: number) { return this.children[i] }
+}
+
+// requestAnimationFrame does not exist in node: queue frames and run them by hand
+let frames: Array<() => void> = []
+
+/** Replace requestAnimationFrame with a queue that runFrame empties. Undo with vi.unstubAllGlobals. */
+export function stubAnimationFrames() {
+    frames = []
+    vi.stubGlobal("requestAnimationFrame", (fn: () => void) => frames.push(fn))
+    vi.stubGlobal("cancelAnimationFrame", () => {})
+}
+
+/** Run the frames queued so far. */
+export function runFrame() {
+    const pending = frames
+    frames = []
+    pending.forEach((fn) => fn())
+}
@@ -0,0 +1,32 @@
+/**
+ * Types for the USS runtime helpers.
+ */
+
+/**
+ * The part of a UI Toolkit VisualElement the helpers use: its class list
+ * and its children. React refs to OneJS elements satisfy it.
+ */
+export interface ClassListElement {
+    AddToClassList(className: string): void
+    RemoveFromClassList(className: string): void
+    ClassListContains(className: string): boolean
+    readonly childCount: number
+    ElementAt(index: number): ClassListElement
+}
+
+/**
+ * A ClassListElement whose resolved layout can be read, as every
+ * VisualElement's can once UI Toolkit has laid it out.
+ */
+export interface LayoutElement extends ClassListElement {
+    readonly resolvedStyle: { readonly width: number }
+}
+
+/**
+ * A ClassListElement whose inline background image can be set, as a
+ * VisualElement's `style.backgroundImage` can.
+ */
+export interface GradientElement extends ClassListElement {
+    readonly style: { backgroundImage: unknown }
+    ElementAt(index: number): GradientElement
+}